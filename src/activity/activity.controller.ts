@@ -0,0 +1,25 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { GroupPermissionsGuard } from '../groups/guards/group-permissions.guard';
+import { ActivityService } from './activity.service';
+import { FindActivityQueryDto } from './dto/find-activity-query.dto';
+
+@Controller('groups/:groupId/activity')
+@UseGuards(GroupPermissionsGuard)
+export class ActivityController {
+  constructor(private activityService: ActivityService) {}
+
+  @Get()
+  findAll(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Query() query: FindActivityQueryDto,
+  ) {
+    return this.activityService.findAll(groupId, query);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ActivityController } from './activity.controller';
+import { ActivityService } from './activity.service';
+
+@Module({
+  providers: [ActivityService],
+  controllers: [ActivityController],
+  exports: [ActivityService],
+})
+export class ActivityModule {}
@@ -0,0 +1,132 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { bigIntReplacer } from '../utils/json';
+import { FindActivityQueryDto } from './dto/find-activity-query.dto';
+
+export type ActivityTargetType =
+  | 'group'
+  | 'member'
+  | 'expense'
+  | 'recurring_expense'
+  | 'settlement'
+  | 'invitation'
+  | 'join_link';
+
+export type ActivityAction =
+  | 'group.created'
+  | 'group.updated'
+  | 'member.added'
+  | 'member.joined'
+  | 'member.updated'
+  | 'member.removed'
+  | 'member.left'
+  | 'expense.created'
+  | 'expense.updated'
+  | 'expense.deleted'
+  | 'expenses.imported'
+  | 'recurring_expense.created'
+  | 'recurring_expense.updated'
+  | 'recurring_expense.deleted'
+  | 'recurring_expense.paused'
+  | 'recurring_expense.resumed'
+  | 'recurring_expense.skipped'
+  | 'settlement.created'
+  | 'settlement.reversed'
+  | 'invitation.created'
+  | 'invitation.revoked'
+  | 'join_link.rotated';
+
+export interface ActivityEntry {
+  groupId: number;
+  /**
+   * The user who made the change, or null for changes made by the system.
+   */
+  actorId: number | null;
+  action: ActivityAction;
+  targetType: ActivityTargetType;
+  targetId?: number;
+  before?: object;
+  after?: object;
+}
+
+const activityInclude = {
+  actor: { select: { id: true, name: true, photoUrl: true } },
+} satisfies Prisma.GroupActivityInclude;
+
+const toJson = (value: object): Prisma.InputJsonValue =>
+  JSON.parse(JSON.stringify(value, bigIntReplacer));
+
+/**
+ * Narrows both states down to the fields that differ between them.
+ */
+export function diff<T extends object>(before: T, after: T) {
+  const changedBefore: Partial<T> = {};
+  const changedAfter: Partial<T> = {};
+
+  for (const key of Object.keys({ ...before, ...after }) as (keyof T)[]) {
+    const from = JSON.stringify(before[key], bigIntReplacer);
+    const to = JSON.stringify(after[key], bigIntReplacer);
+    if (from !== to) {
+      changedBefore[key] = before[key];
+      changedAfter[key] = after[key];
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+/**
+ * Append-only log of changes made to a group.
+ */
+@Injectable()
+export class ActivityService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Records the change. Pass the transaction client making the change, so the
+   * change, and its log entry are committed together.
+   */
+  record(entry: ActivityEntry, tx: Prisma.TransactionClient = this.prisma) {
+    return tx.groupActivity.create({
+      data: {
+        groupId: entry.groupId,
+        actorId: entry.actorId,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId,
+        before: entry.before ? toJson(entry.before) : undefined,
+        after: entry.after ? toJson(entry.after) : undefined,
+      },
+    });
+  }
+
+  async findAll(groupId: number, query: FindActivityQueryDto) {
+    const where: Prisma.GroupActivityWhereInput = { groupId };
+
+    const [data, total] = await this.prisma.$transaction([
+      this.prisma.groupActivity.findMany({
+        where,
+        include: activityInclude,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: query.skip,
+        take: query.take,
+      }),
+      this.prisma.groupActivity.count({ where }),
+    ]);
+
+    return { data, total, skip: query.skip, take: query.take };
+  }
+
+  findForTarget(
+    groupId: number,
+    targetType: ActivityTargetType,
+    targetId: number,
+  ) {
+    return this.prisma.groupActivity.findMany({
+      where: { groupId, targetType, targetId },
+      include: activityInclude,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+  }
+}
@@ -1,12 +1,44 @@
 import { Module } from '@nestjs/common';
+import { APP_FILTER, APP_GUARD } from '@nestjs/core';
 import { AppController } from './app.controller';
+import { ActivityModule } from './activity/activity.module';
 import { AppService } from './app.service';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AuthModule } from './auth/auth.module';
+import { JwtAuthGuard } from './auth/strategies/jwt.strategy';
+import { BalancesModule } from './balances/balances.module';
+import { ExchangeRateNotFoundFilter } from './currency/filters/exchange-rate-not-found.filter';
+import { ExpensesModule } from './expenses/expenses.module';
+import { GroupsModule } from './groups/groups.module';
+import { ImportExportModule } from './import-export/import-export.module';
+import { InvitationsModule } from './invitations/invitations.module';
+import { PrismaModule } from './prisma/prisma.module';
+import { RecurringExpensesModule } from './recurring-expenses/recurring-expenses.module';
+import { ReportsModule } from './reports/reports.module';
+import { SettlementsModule } from './settlements/settlements.module';
 
 @Module({
-  imports: [ConfigModule.forRoot(), AuthModule],
+  imports: [
+    ConfigModule.forRoot(),
+    ScheduleModule.forRoot(),
+    PrismaModule,
+    AuthModule,
+    GroupsModule,
+    ExpensesModule,
+    BalancesModule,
+    InvitationsModule,
+    SettlementsModule,
+    ActivityModule,
+    RecurringExpensesModule,
+    ImportExportModule,
+    ReportsModule,
+  ],
   controllers: [AppController],
-  providers: [AppService],
+  providers: [
+    AppService,
+    { provide: APP_GUARD, useClass: JwtAuthGuard },
+    { provide: APP_FILTER, useClass: ExchangeRateNotFoundFilter },
+  ],
 })
 export class AppModule {}
@@ -0,0 +1,85 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  JWTVerifyGetKey,
+  KeyLike,
+  SignJWT,
+  createLocalJWKSet,
+  exportJWK,
+  generateKeyPair,
+} from 'jose';
+import { APPLE_ISSUER, AppleIdTokenVerifier } from './apple-id-token.verifier';
+
+const CLIENT_ID = 'com.splitbuddy.app';
+const KEY_ID = 'test-key';
+
+describe('AppleIdTokenVerifier', () => {
+  let privateKey: KeyLike;
+  let jwks: JWTVerifyGetKey;
+  let verifier: AppleIdTokenVerifier;
+
+  const sign = (claims: Record<string, unknown>, key = privateKey) =>
+    new SignJWT(claims)
+      .setProtectedHeader({ alg: 'RS256', kid: KEY_ID })
+      .setIssuer(APPLE_ISSUER)
+      .setAudience(CLIENT_ID)
+      .setSubject('apple-user')
+      .setIssuedAt()
+      .setExpirationTime('5m')
+      .sign(key);
+
+  beforeAll(async () => {
+    const keyPair = await generateKeyPair('RS256');
+    privateKey = keyPair.privateKey;
+
+    const jwk = await exportJWK(keyPair.publicKey);
+    jwks = createLocalJWKSet({
+      keys: [{ ...jwk, kid: KEY_ID, alg: 'RS256' }],
+    });
+
+    verifier = new AppleIdTokenVerifier(
+      jwks,
+      new ConfigService({ APPLE_CLIENTID: CLIENT_ID }),
+    );
+  });
+
+  it('should verify a token signed by the key set', async () => {
+    const idToken = await verifier.verify(
+      await sign({ email: 'alice@example.com', email_verified: 'true' }),
+    );
+
+    expect(idToken.sub).toBe('apple-user');
+    expect(idToken.email).toBe('alice@example.com');
+  });
+
+  it('should reject a token issued for another audience', async () => {
+    const token = await new SignJWT({ email: 'alice@example.com' })
+      .setProtectedHeader({ alg: 'RS256', kid: KEY_ID })
+      .setIssuer(APPLE_ISSUER)
+      .setAudience('com.other.app')
+      .setSubject('apple-user')
+      .setExpirationTime('5m')
+      .sign(privateKey);
+
+    await expect(verifier.verify(token)).rejects.toThrow();
+  });
+
+  it('should reject every token without a configured client id', async () => {
+    const unconfigured = new AppleIdTokenVerifier(jwks, new ConfigService());
+
+    await expect(
+      unconfigured.verify(await sign({ email: 'alice@example.com' })),
+    ).rejects.toThrow('APPLE_CLIENTID is not configured');
+  });
+
+  it('should reject a token signed by an unknown key', async () => {
+    const { privateKey: otherKey } = await generateKeyPair('RS256');
+
+    await expect(
+      verifier.verify(await sign({ email: 'alice@example.com' }, otherKey)),
+    ).rejects.toThrow();
+  });
+
+  it('should reject a token without an email', async () => {
+    await expect(verifier.verify(await sign({}))).rejects.toThrow();
+  });
+});
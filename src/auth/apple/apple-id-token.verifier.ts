@@ -0,0 +1,59 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  JWTPayload,
+  JWTVerifyGetKey,
+  createRemoteJWKSet,
+  jwtVerify,
+} from 'jose';
+
+export const APPLE_JWKS = Symbol('APPLE_JWKS');
+
+export const APPLE_ISSUER = 'https://appleid.apple.com';
+
+export const APPLE_JWKS_URL = 'https://appleid.apple.com/auth/keys';
+
+export interface AppleIdToken extends JWTPayload {
+  sub: string;
+  email: string;
+  email_verified?: boolean | 'true' | 'false';
+}
+
+export const createAppleJwks = (): JWTVerifyGetKey =>
+  createRemoteJWKSet(new URL(APPLE_JWKS_URL));
+
+/**
+ * Verifies the signature, and the claims of `id_token` issued by Apple.
+ */
+@Injectable()
+export class AppleIdTokenVerifier {
+  constructor(
+    @Inject(APPLE_JWKS) private jwks: JWTVerifyGetKey,
+    private config: ConfigService,
+  ) {}
+
+  async verify(idToken: string): Promise<AppleIdToken> {
+    // Without an audience, jose would accept tokens issued for any app.
+    const audience = this.config.get<string>('APPLE_CLIENTID');
+    if (!audience) {
+      throw new Error('APPLE_CLIENTID is not configured');
+    }
+
+    const { payload } = await jwtVerify(idToken, this.jwks, {
+      issuer: APPLE_ISSUER,
+      audience,
+    });
+
+    if (!payload.sub || typeof payload.email !== 'string') {
+      throw new Error('Apple ID token lacks the subject, or the email');
+    }
+    if (
+      payload.email_verified === false ||
+      payload.email_verified === 'false'
+    ) {
+      throw new Error('Apple ID token email is not verified');
+    }
+
+    return payload as AppleIdToken;
+  }
+}
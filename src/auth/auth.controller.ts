@@ -1,30 +1,153 @@
 import {
   Body,
   Controller,
+  Delete,
   Get,
+  Headers,
+  HttpCode,
   HttpStatus,
+  Ip,
+  Param,
+  ParseIntPipe,
   Post,
   UnauthorizedException,
   UseGuards,
 } from '@nestjs/common';
-import { AppleService } from 'src/apple/apple.service';
-import { AppleOAuthGuard } from 'src/auth/strategies/apple.strategy';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { AppleOAuthGuard } from './strategies/apple.strategy';
+import { AppleRedirectPayload, AuthService } from './auth.service';
+import { AuthenticatedUser } from './authenticated-user';
+import { CurrentIdentity } from './decorators/current-identity.decorator';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { Public } from './decorators/public.decorator';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { RequestMagicLinkDto } from './dto/request-magic-link.dto';
+import { VerifiedIdentity } from './identities.service';
+import { GoogleAuthGuard } from './strategies/google.strategy';
+import { MagicLinkAuthGuard } from './strategies/magic-link.strategy';
 
 @Controller('auth')
 export class AuthController {
-  constructor(private appleService: AppleService) {}
+  constructor(private authService: AuthService) {}
+  @Public()
   @Get('/apple')
   @UseGuards(AppleOAuthGuard)
   async login(): Promise<any> {
     return HttpStatus.OK;
   }
 
+  @Public()
   @Post('/apple/redirect')
   @UseGuards(AppleOAuthGuard)
-  async redirect(@Body() payload): Promise<any> {
+  async redirect(
+    @Body() payload: AppleRedirectPayload,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ): Promise<any> {
     if (payload.id_token) {
-      return this.appleService.registerByIDtoken(payload);
+      return this.authService.registerByIDtoken(payload, {
+        userAgent,
+        ipAddress,
+      });
     }
     throw new UnauthorizedException('Unauthorized');
   }
+
+  @Public()
+  @Post('/google')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(GoogleAuthGuard)
+  google(
+    @CurrentIdentity() identity: VerifiedIdentity,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ) {
+    return this.authService.signIn(identity, { userAgent, ipAddress });
+  }
+
+  @Public()
+  @Post('/email')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(ThrottlerGuard)
+  sendMagicLink(@Body() dto: RequestMagicLinkDto) {
+    return this.authService.sendMagicLink(dto.email);
+  }
+
+  @Public()
+  @Post('/email/verify')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(MagicLinkAuthGuard)
+  verifyMagicLink(
+    @CurrentIdentity() identity: VerifiedIdentity,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ) {
+    return this.authService.signIn(identity, { userAgent, ipAddress });
+  }
+
+  @Public()
+  @Post('/refresh')
+  @HttpCode(HttpStatus.OK)
+  refresh(
+    @Body() dto: RefreshTokenDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ) {
+    return this.authService.refresh(dto.refreshToken, {
+      userAgent,
+      ipAddress,
+    });
+  }
+
+  @Post('/logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  logout(@CurrentUser() user: AuthenticatedUser) {
+    return this.authService.logout(user);
+  }
+
+  @Get('/sessions')
+  findSessions(@CurrentUser() user: AuthenticatedUser) {
+    return this.authService.findSessions(user);
+  }
+
+  @Delete('/sessions/:sessionId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  revokeSession(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('sessionId', ParseIntPipe) sessionId: number,
+  ) {
+    return this.authService.revokeSession(user, sessionId);
+  }
+
+  @Get('/identities')
+  findIdentities(@CurrentUser() user: AuthenticatedUser) {
+    return this.authService.findIdentities(user);
+  }
+
+  @Post('/identities/google')
+  @UseGuards(GoogleAuthGuard)
+  linkGoogle(
+    @CurrentUser() user: AuthenticatedUser,
+    @CurrentIdentity() identity: VerifiedIdentity,
+  ) {
+    return this.authService.linkIdentity(user, identity);
+  }
+
+  @Post('/identities/email')
+  @UseGuards(MagicLinkAuthGuard)
+  linkEmail(
+    @CurrentUser() user: AuthenticatedUser,
+    @CurrentIdentity() identity: VerifiedIdentity,
+  ) {
+    return this.authService.linkIdentity(user, identity);
+  }
+
+  @Delete('/identities/:identityId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  unlinkIdentity(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('identityId', ParseIntPipe) identityId: number,
+  ) {
+    return this.authService.unlinkIdentity(user, identityId);
+  }
 }
@@ -1,11 +1,56 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { JwtModule } from '@nestjs/jwt';
+import { PassportModule } from '@nestjs/passport';
+import { ThrottlerModule } from '@nestjs/throttler';
+import { InvitationsModule } from '../invitations/invitations.module';
+import { MailerModule } from '../mailer/mailer.module';
+import { UsersModule } from '../users/users.module';
+import {
+  APPLE_JWKS,
+  AppleIdTokenVerifier,
+  createAppleJwks,
+} from './apple/apple-id-token.verifier';
+import {
+  GOOGLE_JWKS,
+  GoogleIdTokenVerifier,
+  createGoogleJwks,
+} from './google/google-id-token.verifier';
+import { IdentitiesService } from './identities.service';
+import { MagicLinkService } from './magic-link.service';
+import { SessionsService } from './sessions.service';
+import { AppleStrategy } from './strategies/apple.strategy';
+import { GoogleStrategy } from './strategies/google.strategy';
+import { JwtStrategy } from './strategies/jwt.strategy';
+import { MagicLinkStrategy } from './strategies/magic-link.strategy';
 
 @Module({
-  imports: [JwtModule.register({})],
-  providers: [AuthService],
+  imports: [
+    JwtModule.register({}),
+    ConfigModule,
+    PassportModule,
+    // Limits of routes which opt in with `ThrottlerGuard`, per client IP.
+    ThrottlerModule.forRoot([{ ttl: 60 * 1000, limit: 5 }]),
+    UsersModule,
+    InvitationsModule,
+    MailerModule,
+  ],
+  providers: [
+    AuthService,
+    SessionsService,
+    IdentitiesService,
+    MagicLinkService,
+    AppleStrategy,
+    GoogleStrategy,
+    MagicLinkStrategy,
+    JwtStrategy,
+    AppleIdTokenVerifier,
+    { provide: APPLE_JWKS, useFactory: createAppleJwks },
+    GoogleIdTokenVerifier,
+    { provide: GOOGLE_JWKS, useFactory: createGoogleJwks },
+  ],
   controllers: [AuthController],
 })
 export class AuthModule {}
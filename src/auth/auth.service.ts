@@ -1,35 +1,211 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
+import { randomUUID } from 'crypto';
+import { InvitationsService } from '../invitations/invitations.service';
+import { UsersService } from '../users/users.service';
+import { AppleIdTokenVerifier } from './apple/apple-id-token.verifier';
+import { AuthenticatedUser } from './authenticated-user';
+import { IdentitiesService, VerifiedIdentity } from './identities.service';
+import { MagicLinkService } from './magic-link.service';
+import { SessionClient, SessionsService } from './sessions.service';
+import {
+  AccessTokenPayload,
+  RefreshTokenPayload,
+} from './strategies/jwt.strategy';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+export interface AppleRedirectPayload {
+  id_token?: string;
+  /**
+   * JSON with the name of the user, sent by Apple on the first sign in only.
+   */
+  user?: string;
+}
 
 @Injectable()
 export class AuthService {
-  constructor(private jwtService: JwtService) {}
-
-  async registerByIDtoken(payload: any) {
-    if (payload.hasOwnProperty('id_token')) {
-      let email,
-        firstName,
-        lastName = '';
-
-      //You can decode the id_token which returned from Apple,
-      const decodedObj = await this.jwtService.decode(payload.id_token);
-      const accountId = decodedObj.sub || '';
-      console.info(`Apple Account ID: ${accountId}`);
-
-      //Email address
-      if (decodedObj.hasOwnProperty('email')) {
-        email = decodedObj['email'];
-        console.info(`Apple Email: ${email}`);
-      }
-
-      //You can also extract the firstName and lastName from the user, but they are only shown in the first time.
-      if (payload.hasOwnProperty('user')) {
-        const userData = JSON.parse(payload.user);
-        const { firstName, lastName } = userData.name || {};
-      }
-
-      //.... you logic for registration and login here
-    }
-    throw new UnauthorizedException('Unauthorized');
+  constructor(
+    private jwtService: JwtService,
+    private config: ConfigService,
+    private appleIdTokenVerifier: AppleIdTokenVerifier,
+    private usersService: UsersService,
+    private identitiesService: IdentitiesService,
+    private sessionsService: SessionsService,
+    private magicLinkService: MagicLinkService,
+    private invitationsService: InvitationsService,
+  ) {}
+
+  async registerByIDtoken(
+    payload: AppleRedirectPayload,
+    client: SessionClient = {},
+  ) {
+    if (!payload.id_token) {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    let identity: VerifiedIdentity;
+    try {
+      const { sub, email } = await this.appleIdTokenVerifier.verify(
+        payload.id_token,
+      );
+      identity = {
+        provider: 'apple',
+        subject: sub,
+        email,
+        name: this.getAppleUserName(payload),
+      };
+    } catch {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    return this.signIn(identity, client);
+  }
+
+  /**
+   * Starts a session of the user the identity resolves to, signing them up
+   * if nobody has the verified email yet.
+   */
+  async signIn(identity: VerifiedIdentity, client: SessionClient = {}) {
+    const { user, created } = await this.identitiesService.signIn(identity);
+    if (created) {
+      await this.invitationsService.acceptPendingInvitations(user);
+    }
+
+    return this.startSession(user, client);
+  }
+
+  sendMagicLink(email: string) {
+    return this.magicLinkService.send(email);
+  }
+
+  /**
+   * Exchanges the refresh token for a new pair of tokens. The presented
+   * refresh token can not be used again.
+   */
+  async refresh(refreshToken: string, client: SessionClient = {}) {
+    let payload: RefreshTokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<RefreshTokenPayload>(
+        refreshToken,
+        { secret: this.config.get<string>('JWT_REFRESH_SECRET') },
+      );
+    } catch {
+      throw new UnauthorizedException('Refresh token is invalid or expired');
+    }
+
+    const user = await this.usersService.findById(payload.sub);
+    if (!user?.active) {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    const tokenId = randomUUID();
+    const expiresAt = this.getRefreshTokenExpirationTime();
+    const rotated = await this.sessionsService.rotate(
+      payload.sid,
+      payload.jti,
+      tokenId,
+      expiresAt,
+      client,
+    );
+    if (!rotated) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    return this.issueTokens(user, payload.sid, tokenId, expiresAt);
+  }
+
+  async logout(user: AuthenticatedUser) {
+    if (user.sessionId) {
+      await this.sessionsService.revoke(user.id, user.sessionId);
+    }
+  }
+
+  async findSessions(user: AuthenticatedUser) {
+    const sessions = await this.sessionsService.findActive(user.id);
+    return sessions.map((session) => ({
+      ...session,
+      current: session.id === user.sessionId,
+    }));
+  }
+
+  revokeSession(user: AuthenticatedUser, sessionId: number) {
+    return this.sessionsService.revoke(user.id, sessionId);
+  }
+
+  linkIdentity(user: AuthenticatedUser, identity: VerifiedIdentity) {
+    return this.identitiesService.link(user.id, identity);
+  }
+
+  findIdentities(user: AuthenticatedUser) {
+    return this.identitiesService.findAll(user.id);
+  }
+
+  unlinkIdentity(user: AuthenticatedUser, identityId: number) {
+    return this.identitiesService.unlink(user.id, identityId);
+  }
+
+  private async startSession(user: AuthenticatedUser, client: SessionClient) {
+    const tokenId = randomUUID();
+    const expiresAt = this.getRefreshTokenExpirationTime();
+    const session = await this.sessionsService.create(
+      user.id,
+      tokenId,
+      expiresAt,
+      client,
+    );
+
+    return this.issueTokens(user, session.id, tokenId, expiresAt);
+  }
+
+  private async issueTokens(
+    user: AuthenticatedUser,
+    sessionId: number,
+    tokenId: string,
+    expiresAt: Date,
+  ) {
+    const accessTokenPayload: AccessTokenPayload = {
+      sub: user.id,
+      email: user.email,
+      sid: sessionId,
+    };
+    const refreshTokenPayload: Omit<RefreshTokenPayload, 'jti'> = {
+      sub: user.id,
+      sid: sessionId,
+    };
+
+    const [accessToken, refreshToken] = await Promise.all([
+      this.jwtService.signAsync(accessTokenPayload, {
+        secret: this.config.get<string>('JWT_ACCESS_SECRET'),
+        expiresIn: this.config.get<string>('JWT_ACCESS_EXPIRES_IN') ?? '15m',
+      }),
+      this.jwtService.signAsync(refreshTokenPayload, {
+        secret: this.config.get<string>('JWT_REFRESH_SECRET'),
+        expiresIn: Math.floor((expiresAt.getTime() - Date.now()) / 1000),
+        jwtid: tokenId,
+      }),
+    ]);
+
+    return { accessToken, refreshToken };
+  }
+
+  private getRefreshTokenExpirationTime() {
+    const days = Number(this.config.get<string>('JWT_REFRESH_TTL_DAYS') ?? 30);
+    return new Date(Date.now() + days * DAY_IN_MS);
+  }
+
+  private getAppleUserName(payload: AppleRedirectPayload) {
+    if (!payload.user) {
+      return undefined;
+    }
+
+    try {
+      const { firstName = '', lastName = '' } =
+        JSON.parse(payload.user).name ?? {};
+      return [firstName, lastName].filter(Boolean).join(' ') || undefined;
+    } catch {
+      return undefined;
+    }
   }
 }
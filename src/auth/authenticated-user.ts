@@ -0,0 +1,5 @@
+export interface AuthenticatedUser {
+  id: number;
+  email: string;
+  sessionId?: number;
+}
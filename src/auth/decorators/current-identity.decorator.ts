@@ -0,0 +1,8 @@
+import { ExecutionContext, createParamDecorator } from '@nestjs/common';
+import { IDENTITY_PROPERTY } from '../identity-auth.guard';
+import { VerifiedIdentity } from '../identities.service';
+
+export const CurrentIdentity = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): VerifiedIdentity =>
+    context.switchToHttp().getRequest()[IDENTITY_PROPERTY],
+);
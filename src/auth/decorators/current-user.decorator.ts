@@ -0,0 +1,7 @@
+import { ExecutionContext, createParamDecorator } from '@nestjs/common';
+import { AuthenticatedUser } from '../authenticated-user';
+
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthenticatedUser =>
+    context.switchToHttp().getRequest().user,
+);
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+
+/**
+ * Opts the route out of the global `JwtAuthGuard`.
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
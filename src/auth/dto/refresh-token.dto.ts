@@ -0,0 +1,6 @@
+import { IsJWT } from 'class-validator';
+
+export class RefreshTokenDto {
+  @IsJWT()
+  refreshToken: string;
+}
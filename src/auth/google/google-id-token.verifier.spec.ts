@@ -0,0 +1,79 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  KeyLike,
+  SignJWT,
+  createLocalJWKSet,
+  exportJWK,
+  generateKeyPair,
+} from 'jose';
+import {
+  GOOGLE_ISSUERS,
+  GoogleIdTokenVerifier,
+} from './google-id-token.verifier';
+
+const WEB_CLIENT_ID = 'web.apps.googleusercontent.com';
+const ANDROID_CLIENT_ID = 'android.apps.googleusercontent.com';
+const KEY_ID = 'test-key';
+
+describe('GoogleIdTokenVerifier', () => {
+  let privateKey: KeyLike;
+  let verifier: GoogleIdTokenVerifier;
+
+  const sign = (claims: Record<string, unknown>, audience = WEB_CLIENT_ID) =>
+    new SignJWT(claims)
+      .setProtectedHeader({ alg: 'RS256', kid: KEY_ID })
+      .setIssuer(GOOGLE_ISSUERS[0])
+      .setAudience(audience)
+      .setSubject('google-user')
+      .setIssuedAt()
+      .setExpirationTime('5m')
+      .sign(privateKey);
+
+  beforeAll(async () => {
+    const keyPair = await generateKeyPair('RS256');
+    privateKey = keyPair.privateKey;
+
+    const jwk = await exportJWK(keyPair.publicKey);
+    const jwks = createLocalJWKSet({
+      keys: [{ ...jwk, kid: KEY_ID, alg: 'RS256' }],
+    });
+
+    verifier = new GoogleIdTokenVerifier(
+      jwks,
+      new ConfigService({
+        GOOGLE_CLIENTIDS: `${WEB_CLIENT_ID}, ${ANDROID_CLIENT_ID}`,
+      }),
+    );
+  });
+
+  it('should verify a token issued to any of the clients', async () => {
+    const idToken = await verifier.verify(
+      await sign(
+        { email: 'bob@example.com', email_verified: true },
+        ANDROID_CLIENT_ID,
+      ),
+    );
+
+    expect(idToken.sub).toBe('google-user');
+    expect(idToken.email).toBe('bob@example.com');
+  });
+
+  it('should reject a token issued to another client', async () => {
+    await expect(
+      verifier.verify(
+        await sign(
+          { email: 'bob@example.com', email_verified: true },
+          'other.apps.googleusercontent.com',
+        ),
+      ),
+    ).rejects.toThrow();
+  });
+
+  it('should reject a token with an unverified email', async () => {
+    await expect(
+      verifier.verify(
+        await sign({ email: 'bob@example.com', email_verified: false }),
+      ),
+    ).rejects.toThrow();
+  });
+});
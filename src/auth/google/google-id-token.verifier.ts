@@ -0,0 +1,58 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  JWTPayload,
+  JWTVerifyGetKey,
+  createRemoteJWKSet,
+  jwtVerify,
+} from 'jose';
+
+export const GOOGLE_JWKS = Symbol('GOOGLE_JWKS');
+
+export const GOOGLE_ISSUERS = [
+  'https://accounts.google.com',
+  'accounts.google.com',
+];
+
+export const GOOGLE_JWKS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+
+export interface GoogleIdToken extends JWTPayload {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  name?: string;
+}
+
+export const createGoogleJwks = (): JWTVerifyGetKey =>
+  createRemoteJWKSet(new URL(GOOGLE_JWKS_URL));
+
+/**
+ * Verifies the signature, and the claims of `id_token` issued by Google to
+ * any of our clients (`GOOGLE_CLIENTIDS`, comma separated: web, Android, iOS).
+ */
+@Injectable()
+export class GoogleIdTokenVerifier {
+  constructor(
+    @Inject(GOOGLE_JWKS) private jwks: JWTVerifyGetKey,
+    private config: ConfigService,
+  ) {}
+
+  async verify(idToken: string): Promise<GoogleIdToken> {
+    const { payload } = await jwtVerify(idToken, this.jwks, {
+      issuer: GOOGLE_ISSUERS,
+      audience: (this.config.get<string>('GOOGLE_CLIENTIDS') ?? '')
+        .split(',')
+        .map((clientId) => clientId.trim())
+        .filter(Boolean),
+    });
+
+    if (!payload.sub || typeof payload.email !== 'string') {
+      throw new Error('Google ID token lacks the subject, or the email');
+    }
+    if (payload.email_verified !== true) {
+      throw new Error('Google ID token email is not verified');
+    }
+
+    return payload as GoogleIdToken;
+  }
+}
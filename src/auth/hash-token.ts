@@ -0,0 +1,7 @@
+import { createHash } from 'crypto';
+
+/**
+ * Tokens are stored hashed, so a leaked database does not leak them.
+ */
+export const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
@@ -0,0 +1,110 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { UsersService } from '../users/users.service';
+
+export type IdentityProvider = 'apple' | 'google' | 'email';
+
+/**
+ * An identity whose email has been verified by the provider.
+ */
+export interface VerifiedIdentity {
+  provider: IdentityProvider;
+  /**
+   * Stable id of the account at the provider.
+   */
+  subject: string;
+  email: string;
+  name?: string;
+}
+
+@Injectable()
+export class IdentitiesService {
+  constructor(
+    private prisma: PrismaService,
+    private usersService: UsersService,
+  ) {}
+
+  /**
+   * Resolves the identity to the user it is linked to. Unknown identities are
+   * linked to the user with the same verified email, who is signed up first
+   * if needed.
+   */
+  async signIn(identity: VerifiedIdentity) {
+    const linked = await this.prisma.userIdentity.findUnique({
+      where: {
+        provider_subject: {
+          provider: identity.provider,
+          subject: identity.subject,
+        },
+      },
+    });
+    if (linked) {
+      const user = await this.prisma.user.update({
+        where: { id: linked.userId },
+        data: { active: true },
+      });
+      return { user, created: false };
+    }
+
+    const { user, created } = await this.usersService.upsertByEmail(
+      identity.email,
+      identity.name,
+    );
+    await this.create(user.id, identity);
+
+    return { user, created };
+  }
+
+  async link(userId: number, identity: VerifiedIdentity) {
+    const linked = await this.prisma.userIdentity.findUnique({
+      where: {
+        provider_subject: {
+          provider: identity.provider,
+          subject: identity.subject,
+        },
+      },
+    });
+    if (linked && linked.userId !== userId) {
+      throw new ConflictException(
+        `The ${identity.provider} account is linked to another user`,
+      );
+    }
+
+    return linked ?? this.create(userId, identity);
+  }
+
+  findAll(userId: number) {
+    return this.prisma.userIdentity.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async unlink(userId: number, identityId: number) {
+    const identities = await this.findAll(userId);
+    if (!identities.some(({ id }) => id === identityId)) {
+      throw new NotFoundException(`Identity ${identityId} not found`);
+    }
+    if (identities.length === 1) {
+      throw new BadRequestException('Can not unlink the last sign-in method');
+    }
+
+    await this.prisma.userIdentity.delete({ where: { id: identityId } });
+  }
+
+  private create(userId: number, identity: VerifiedIdentity) {
+    return this.prisma.userIdentity.create({
+      data: {
+        userId,
+        provider: identity.provider,
+        subject: identity.subject,
+        email: identity.email.toLowerCase(),
+      },
+    });
+  }
+}
@@ -0,0 +1,18 @@
+import { Type } from '@nestjs/common';
+import { AuthGuard, IAuthGuard } from '@nestjs/passport';
+
+export const IDENTITY_PROPERTY = 'identity';
+
+/**
+ * Guard of a sign-in strategy. The verified identity is assigned to
+ * `request.identity`, so it does not override the signed in user when linking
+ * the identity to their account.
+ */
+export const IdentityAuthGuard = (strategy: string): Type<IAuthGuard> => {
+  class MixinIdentityAuthGuard extends AuthGuard(strategy) {
+    getAuthenticateOptions() {
+      return { property: IDENTITY_PROPERTY, session: false };
+    }
+  }
+  return MixinIdentityAuthGuard;
+};
@@ -0,0 +1,79 @@
+import { HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Mailer } from '../mailer/mailer';
+import { PrismaService } from '../prisma/prisma.service';
+import { hashToken } from './hash-token';
+import { MagicLinkService } from './magic-link.service';
+
+describe('MagicLinkService', () => {
+  let tokens: { email: string; tokenHash: string; createdAt: Date }[];
+  let mailer: { send: jest.Mock };
+  let service: MagicLinkService;
+
+  beforeEach(() => {
+    tokens = [];
+    mailer = { send: jest.fn() };
+
+    const prisma = {
+      emailLoginToken: {
+        count: jest.fn(
+          async ({ where }) =>
+            tokens.filter(
+              ({ email, createdAt }) =>
+                email === where.email && createdAt > where.createdAt.gt,
+            ).length,
+        ),
+        create: jest.fn(async ({ data }) =>
+          tokens.push({ ...data, createdAt: new Date() }),
+        ),
+      },
+    };
+    service = new MagicLinkService(
+      prisma as unknown as PrismaService,
+      new ConfigService({
+        MAGIC_LINK_URL: 'https://app.example.com/sign-in/email',
+        MAGIC_LINK_MAX_PER_HOUR: '2',
+      }),
+      mailer as Mailer,
+    );
+  });
+
+  it('should email a link with the token', async () => {
+    await service.send('Alice@Example.com');
+
+    const [{ to, text }] = mailer.send.mock.calls[0];
+    const [link] = text.match(/https:\S+/);
+    const token = new URL(link).searchParams.get('token');
+
+    expect(to).toBe('alice@example.com');
+    expect(link).toMatch(/^https:\/\/app\.example\.com\/sign-in\/email\?/);
+    expect(tokens).toMatchObject([
+      { email: 'alice@example.com', tokenHash: hashToken(token) },
+    ]);
+  });
+
+  it('should refuse to send more links an hour than allowed', async () => {
+    await service.send('alice@example.com');
+    await service.send('ALICE@example.com');
+
+    await expect(service.send('alice@example.com')).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+    });
+    expect(mailer.send).toHaveBeenCalledTimes(2);
+    await service.send('bob@example.com');
+  });
+
+  it('should send links again once an hour has passed', async () => {
+    tokens.push(
+      ...[1, 2].map(() => ({
+        email: 'alice@example.com',
+        tokenHash: '',
+        createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
+      })),
+    );
+
+    await service.send('alice@example.com');
+
+    expect(mailer.send).toHaveBeenCalledTimes(1);
+  });
+});
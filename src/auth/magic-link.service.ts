@@ -0,0 +1,92 @@
+import { HttpException, HttpStatus, Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { MAILER } from '../mailer/mailer.constants';
+import { Mailer } from '../mailer/mailer';
+import { PrismaService } from '../prisma/prisma.service';
+import { hashToken } from './hash-token';
+
+const MINUTE_IN_MS = 60 * 1000;
+
+const HOUR_IN_MS = 60 * MINUTE_IN_MS;
+
+@Injectable()
+export class MagicLinkService {
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+    @Inject(MAILER) private mailer: Mailer,
+  ) {}
+
+  /**
+   * Emails a single use sign-in link to the address, up to
+   * `MAGIC_LINK_MAX_PER_HOUR` links an hour, so that nobody can flood it.
+   */
+  async send(email: string) {
+    const normalizedEmail = email.toLowerCase();
+    const maxPerHour = Number(
+      this.config.get<string>('MAGIC_LINK_MAX_PER_HOUR') ?? 5,
+    );
+    const sent = await this.prisma.emailLoginToken.count({
+      where: {
+        email: normalizedEmail,
+        createdAt: { gt: new Date(Date.now() - HOUR_IN_MS) },
+      },
+    });
+    if (sent >= maxPerHour) {
+      throw new HttpException(
+        'Too many sign-in links requested, try again later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const ttlMinutes = Number(
+      this.config.get<string>('MAGIC_LINK_TTL_MINUTES') ?? 15,
+    );
+
+    await this.prisma.emailLoginToken.create({
+      data: {
+        email: normalizedEmail,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + ttlMinutes * MINUTE_IN_MS),
+      },
+    });
+
+    // A page of the app, which posts the token to `POST /auth/email/verify`.
+    // Opening the link must not use it up, as mail scanners open links too.
+    const link = new URL(
+      this.config.get<string>('MAGIC_LINK_URL') ??
+        'http://localhost:8080/sign-in/email',
+    );
+    link.searchParams.set('token', token);
+
+    await this.mailer.send({
+      to: normalizedEmail,
+      subject: 'Sign in to Split Buddy',
+      text: `Open the link to sign in: ${link}\n\nThe link expires in ${ttlMinutes} minutes, and works once.`,
+    });
+  }
+
+  /**
+   * Marks the token as used, and returns the email it was sent to. Returns
+   * undefined for unknown, expired, or already used tokens.
+   */
+  async consume(token: string) {
+    const tokenHash = hashToken(token);
+    const now = new Date();
+
+    const { count } = await this.prisma.emailLoginToken.updateMany({
+      where: { tokenHash, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now },
+    });
+    if (count === 0) {
+      return undefined;
+    }
+
+    const { email } = await this.prisma.emailLoginToken.findUniqueOrThrow({
+      where: { tokenHash },
+    });
+    return email;
+  }
+}
@@ -0,0 +1,110 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { hashToken } from './hash-token';
+
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * A session is a chain of refresh tokens issued to one device. Only the last
+ * issued token of the chain is valid, and presenting any older one revokes the
+ * whole session, as the chain has been stolen.
+ */
+@Injectable()
+export class SessionsService {
+  constructor(private prisma: PrismaService) {}
+
+  create(
+    userId: number,
+    tokenId: string,
+    expiresAt: Date,
+    client: SessionClient,
+  ) {
+    return this.prisma.session.create({
+      data: {
+        userId,
+        refreshTokenHash: hashToken(tokenId),
+        expiresAt,
+        ...client,
+      },
+    });
+  }
+
+  /**
+   * Replaces the current refresh token of the session with the next one.
+   * Returns false if the session is no longer active, or the token is reused.
+   */
+  async rotate(
+    sessionId: number,
+    tokenId: string,
+    nextTokenId: string,
+    expiresAt: Date,
+    client: SessionClient,
+  ) {
+    const now = new Date();
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+    });
+    if (!session || session.revokedAt || session.expiresAt <= now) {
+      return false;
+    }
+
+    const { count } = await this.prisma.session.updateMany({
+      where: {
+        id: sessionId,
+        refreshTokenHash: hashToken(tokenId),
+        revokedAt: null,
+      },
+      data: {
+        refreshTokenHash: hashToken(nextTokenId),
+        lastUsedAt: now,
+        expiresAt,
+        ...client,
+      },
+    });
+    if (count === 0) {
+      await this.prisma.session.update({
+        where: { id: sessionId },
+        data: { revokedAt: now },
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  async isActive(sessionId: number) {
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true, expiresAt: true },
+    });
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  findActive(userId: number) {
+    return this.prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true,
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  async revoke(userId: number, sessionId: number) {
+    const { count } = await this.prisma.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new NotFoundException(`Session ${sessionId} not found`);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Request } from 'express';
+import { Strategy } from 'passport-custom';
+import { GoogleIdTokenVerifier } from '../google/google-id-token.verifier';
+import { VerifiedIdentity } from '../identities.service';
+import { IdentityAuthGuard } from '../identity-auth.guard';
+
+const GOOGLE_STRATEGY_NAME = 'google';
+
+/**
+ * Signs in with `idToken` obtained by the client from Google Sign-In.
+ */
+@Injectable()
+export class GoogleStrategy extends PassportStrategy(
+  Strategy,
+  GOOGLE_STRATEGY_NAME,
+) {
+  constructor(private googleIdTokenVerifier: GoogleIdTokenVerifier) {
+    super();
+  }
+
+  async validate(request: Request): Promise<VerifiedIdentity> {
+    const idToken = request.body?.idToken;
+    if (typeof idToken !== 'string') {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    try {
+      const { sub, email, name } =
+        await this.googleIdTokenVerifier.verify(idToken);
+      return { provider: 'google', subject: sub, email, name };
+    } catch {
+      throw new UnauthorizedException('Unauthorized');
+    }
+  }
+}
+
+@Injectable()
+export class GoogleAuthGuard extends IdentityAuthGuard(GOOGLE_STRATEGY_NAME) {}
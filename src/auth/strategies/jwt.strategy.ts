@@ -0,0 +1,67 @@
+import {
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard, PassportStrategy } from '@nestjs/passport';
+import { ExtractJwt, Strategy } from 'passport-jwt';
+import { AuthenticatedUser } from '../authenticated-user';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { SessionsService } from '../sessions.service';
+
+const JWT_STRATEGY_NAME = 'jwt';
+
+export interface AccessTokenPayload {
+  sub: number;
+  email: string;
+  sid: number;
+}
+
+export interface RefreshTokenPayload {
+  sub: number;
+  sid: number;
+  jti: string;
+}
+
+@Injectable()
+export class JwtStrategy extends PassportStrategy(Strategy, JWT_STRATEGY_NAME) {
+  constructor(
+    config: ConfigService,
+    private sessionsService: SessionsService,
+  ) {
+    super({
+      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      ignoreExpiration: false,
+      secretOrKey: config.get<string>('JWT_ACCESS_SECRET'),
+    });
+  }
+
+  async validate(payload: AccessTokenPayload): Promise<AuthenticatedUser> {
+    // Access tokens of a revoked session stop working right away, and not
+    // only once they expire.
+    if (!(await this.sessionsService.isActive(payload.sid))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+    return { id: payload.sub, email: payload.email, sessionId: payload.sid };
+  }
+}
+
+@Injectable()
+export class JwtAuthGuard extends AuthGuard(JWT_STRATEGY_NAME) {
+  constructor(private reflector: Reflector) {
+    super();
+  }
+
+  canActivate(context: ExecutionContext) {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic) {
+      return true;
+    }
+    return super.canActivate(context);
+  }
+}
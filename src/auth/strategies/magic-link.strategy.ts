@@ -0,0 +1,40 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Request } from 'express';
+import { Strategy } from 'passport-custom';
+import { VerifiedIdentity } from '../identities.service';
+import { IdentityAuthGuard } from '../identity-auth.guard';
+import { MagicLinkService } from '../magic-link.service';
+
+const MAGIC_LINK_STRATEGY_NAME = 'magic-link';
+
+/**
+ * Signs in with `token` of the link emailed by `MagicLinkService`.
+ */
+@Injectable()
+export class MagicLinkStrategy extends PassportStrategy(
+  Strategy,
+  MAGIC_LINK_STRATEGY_NAME,
+) {
+  constructor(private magicLinkService: MagicLinkService) {
+    super();
+  }
+
+  async validate(request: Request): Promise<VerifiedIdentity> {
+    const token = request.body?.token;
+    if (typeof token !== 'string') {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    const email = await this.magicLinkService.consume(token);
+    if (!email) {
+      throw new UnauthorizedException('Sign-in link is invalid or expired');
+    }
+    return { provider: 'email', subject: email, email };
+  }
+}
+
+@Injectable()
+export class MagicLinkAuthGuard extends IdentityAuthGuard(
+  MAGIC_LINK_STRATEGY_NAME,
+) {}
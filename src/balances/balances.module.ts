@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { CurrencyModule } from '../currency/currency.module';
+import { GroupsModule } from '../groups/groups.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { BalancesService } from './balances.service';
+import { GroupBalancesController } from './group-balances.controller';
+import { UserBalancesController } from './user-balances.controller';
+
+@Module({
+  imports: [GroupsModule, CurrencyModule, LedgerModule],
+  providers: [BalancesService],
+  controllers: [GroupBalancesController, UserBalancesController],
+  exports: [BalancesService],
+})
+export class BalancesModule {}
@@ -0,0 +1,279 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { convert } from '../core/currency/exchange-rates';
+import { formatMinorUnits } from '../core/currency/minor-units';
+import { Money } from '../core/currency/money';
+import {
+  BalanceExplanation,
+  DebtExplanation,
+  ExplanationStep,
+} from '../core/debt-simplifier/debt-simplifier';
+import { ExchangeRatesService } from '../currency/exchange-rates.service';
+import { getLedgerBalances } from '../ledger/ledger-balances';
+import { LedgerReplayService } from '../ledger/ledger-replay.service';
+import { LedgerRepository } from '../ledger/ledger.repository';
+import { PrismaService } from '../prisma/prisma.service';
+
+export type CurrencyBalances = Record<string, Money>;
+
+interface ExplanationContext {
+  currencyCode: string;
+  names: Map<number, string>;
+  expenses: Map<number, { id: number; name: string; createdAt: Date }>;
+  settlements: Map<number, { id: number; createdAt: Date }>;
+}
+
+@Injectable()
+export class BalancesService {
+  constructor(
+    private prisma: PrismaService,
+    private exchangeRatesService: ExchangeRatesService,
+    private ledgerRepository: LedgerRepository,
+    private ledgerReplayService: LedgerReplayService,
+  ) {}
+
+  /**
+   * Net balance of every member, positive when the member is owed money,
+   * along with what every debtor owes every creditor. Balances of the past
+   * are replayed, and reported with exchange rates of that time.
+   */
+  async getGroupBalances(groupId: number, at?: Date) {
+    const group = await this.prisma.group.findUnique({
+      where: { id: groupId },
+      include: { GroupMember: { select: { userId: true } } },
+    });
+    if (!group) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+
+    const pairs = at
+      ? getLedgerBalances(await this.ledgerReplayService.replay(groupId, at))
+      : await this.prisma.groupBalance.findMany({
+          where: { groupId },
+          select: {
+            creditorId: true,
+            debtorId: true,
+            currencyCode: true,
+            amount: true,
+          },
+        });
+
+    const balances = new Map<number, CurrencyBalances>(
+      group.GroupMember.map(({ userId }) => [userId, {}]),
+    );
+    const addBalance = (
+      userId: number,
+      currencyCode: string,
+      amount: Money,
+    ) => {
+      const userBalances = balances.get(userId) ?? {};
+      userBalances[currencyCode] = (userBalances[currencyCode] ?? 0n) + amount;
+      balances.set(userId, userBalances);
+    };
+    for (const { creditorId, debtorId, currencyCode, amount } of pairs) {
+      addBalance(creditorId, currencyCode, amount);
+      addBalance(debtorId, currencyCode, -amount);
+    }
+
+    const settlementCurrency = group.settlementCurrencyCode;
+    const snapshot = await this.exchangeRatesService.getSnapshot(
+      settlementCurrency,
+      at,
+    );
+
+    return {
+      settlementCurrency,
+      members: [...balances.entries()].map(([userId, userBalances]) => ({
+        userId,
+        balances: userBalances,
+        total: Object.entries(userBalances).reduce(
+          (sum, [currencyCode, amount]) =>
+            sum + convert(amount, currencyCode, settlementCurrency, snapshot),
+          0n,
+        ),
+      })),
+      pairs,
+    };
+  }
+
+  /**
+   * Net balance of the user in every group, and in total per currency.
+   */
+  async getUserBalances(userId: number) {
+    const pairs = await this.prisma.groupBalance.findMany({
+      where: { OR: [{ creditorId: userId }, { debtorId: userId }] },
+      include: { group: { select: { id: true, name: true } } },
+    });
+
+    const groups = new Map<
+      number,
+      { groupId: number; name: string; balances: CurrencyBalances }
+    >();
+    const totals: CurrencyBalances = {};
+
+    for (const { group, creditorId, currencyCode, amount } of pairs) {
+      const signed = creditorId === userId ? amount : -amount;
+
+      const summary = groups.get(group.id) ?? {
+        groupId: group.id,
+        name: group.name,
+        balances: {},
+      };
+      summary.balances[currencyCode] =
+        (summary.balances[currencyCode] ?? 0n) + signed;
+      groups.set(group.id, summary);
+
+      totals[currencyCode] = (totals[currencyCode] ?? 0n) + signed;
+    }
+
+    return { groups: [...groups.values()], totals };
+  }
+
+  /**
+   * Explains the balance of the user with every other member, in every
+   * currency, debt by debt: the expense it comes from, every netting against
+   * expenses of the other member, and every payment, with the running amount.
+   */
+  async explainBalance(groupId: number, userId: number) {
+    const { simplifier } = await this.ledgerRepository.load(groupId);
+    const ledgerId = String(userId);
+
+    const relations = simplifier.getCurrencies().flatMap((currencyCode) => {
+      const ledger = simplifier.getSimplifier(currencyCode);
+      const counterpartIds = ledger.getCreditors().get(ledgerId)?.keys() ?? [];
+      return [...counterpartIds].map((counterpartId) => ({
+        currencyCode,
+        counterpartId: Number(counterpartId),
+        owes: ledger.explain(counterpartId, ledgerId),
+        owed: ledger.explain(ledgerId, counterpartId),
+      }));
+    });
+
+    const explanations = relations.flatMap(({ owes, owed }) => [owes, owed]);
+    const steps = explanations.flatMap(({ debts }) =>
+      debts.flatMap((debt) => debt.steps),
+    );
+    const expenseIds = explanations.flatMap(({ debts }) =>
+      debts.map(({ expenseId }) => expenseId),
+    );
+    const settlementIds = steps.flatMap((step) =>
+      step.type === 'settlement' ? [step.settlementId] : [],
+    );
+
+    const [users, expenses, settlements] = await Promise.all([
+      this.prisma.user.findMany({
+        where: {
+          id: { in: [userId, ...relations.map((r) => r.counterpartId)] },
+        },
+        select: { id: true, name: true },
+      }),
+      this.prisma.groupExpense.findMany({
+        where: { groupId, id: { in: expenseIds } },
+        select: { id: true, name: true, createdAt: true },
+      }),
+      this.prisma.settlement.findMany({
+        where: { groupId, id: { in: settlementIds } },
+        select: { id: true, createdAt: true },
+      }),
+    ]);
+    const names = new Map(users.map(({ id, name }) => [id, name]));
+    if (!names.has(userId)) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    const expensesById = new Map(expenses.map((e) => [e.id, e]));
+    const settlementsById = new Map(settlements.map((s) => [s.id, s]));
+
+    return {
+      userId,
+      relations: relations.map(
+        ({ currencyCode, counterpartId, owes, owed }) => {
+          const context: ExplanationContext = {
+            currencyCode,
+            names,
+            expenses: expensesById,
+            settlements: settlementsById,
+          };
+          return {
+            counterpart: { id: counterpartId, name: names.get(counterpartId) },
+            currencyCode,
+            owes: owes.owes,
+            owed: owed.owes,
+            debts: this.describeDebts(owes, owed, context),
+          };
+        },
+      ),
+    };
+  }
+
+  /**
+   * Debts of both directions of the relation, in the order their expenses
+   * were recorded. Expenses recorded before the ledger kept the order come
+   * first, by id.
+   */
+  private describeDebts(
+    owes: BalanceExplanation,
+    owed: BalanceExplanation,
+    context: ExplanationContext,
+  ) {
+    return [
+      ...owes.debts.map((debt) => ({
+        debt,
+        direction: 'owes' as const,
+        explanation: owes,
+      })),
+      ...owed.debts.map((debt) => ({
+        debt,
+        direction: 'owed' as const,
+        explanation: owed,
+      })),
+    ]
+      .sort(
+        ({ debt: a }, { debt: b }) =>
+          (a.sequence ?? 0) - (b.sequence ?? 0) || a.expenseId - b.expenseId,
+      )
+      .map(({ debt, direction, explanation }) =>
+        this.describeDebt(debt, direction, explanation, context),
+      );
+  }
+
+  private describeDebt(
+    debt: DebtExplanation,
+    direction: 'owes' | 'owed',
+    explanation: BalanceExplanation,
+    context: ExplanationContext,
+  ) {
+    const debtorName = context.names.get(Number(explanation.debtorId));
+    const creditorName = context.names.get(Number(explanation.creditorId));
+    const format = (amount: Money) =>
+      formatMinorUnits(amount, context.currencyCode);
+
+    const describe = (step: ExplanationStep) => {
+      switch (step.type) {
+        case 'expense':
+          return `${debtorName} owes ${creditorName} ${format(step.grants)} for "${context.expenses.get(step.expenseId)?.name}".`;
+        case 'netting':
+          return `Netted ${format(-step.grants)} against "${context.expenses.get(step.counterpartExpenseId)?.name}", which ${creditorName} owes ${debtorName} for.`;
+        case 'settlement':
+          return `${debtorName} paid ${creditorName} back ${format(-step.grants)}.`;
+      }
+    };
+
+    return {
+      direction,
+      expense: context.expenses.get(debt.expenseId),
+      amount: debt.amount,
+      steps: debt.steps.map((step) => ({
+        type: step.type,
+        ...(step.type === 'netting' && {
+          expense: context.expenses.get(step.counterpartExpenseId),
+        }),
+        ...(step.type === 'settlement' && {
+          settlement: context.settlements.get(step.settlementId),
+        }),
+        grants: step.grants,
+        amount: step.amount,
+        description: describe(step),
+      })),
+    };
+  }
+}
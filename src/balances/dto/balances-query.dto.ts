@@ -0,0 +1,13 @@
+import { Type } from 'class-transformer';
+import { IsDate, IsOptional } from 'class-validator';
+
+export class BalancesQueryDto {
+  /**
+   * Time to report balances at, replayed from expenses, and settlements
+   * which happened until then.
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  at?: Date;
+}
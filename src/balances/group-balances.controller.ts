@@ -0,0 +1,33 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { GroupPermissionsGuard } from '../groups/guards/group-permissions.guard';
+import { BalancesService } from './balances.service';
+import { BalancesQueryDto } from './dto/balances-query.dto';
+
+@Controller('groups/:groupId/balances')
+@UseGuards(GroupPermissionsGuard)
+export class GroupBalancesController {
+  constructor(private balancesService: BalancesService) {}
+
+  @Get()
+  findAll(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Query() query: BalancesQueryDto,
+  ) {
+    return this.balancesService.getGroupBalances(groupId, query.at);
+  }
+
+  @Get(':userId/explain')
+  explain(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Param('userId', ParseIntPipe) userId: number,
+  ) {
+    return this.balancesService.explainBalance(groupId, userId);
+  }
+}
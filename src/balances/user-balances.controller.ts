@@ -0,0 +1,14 @@
+import { Controller, Get } from '@nestjs/common';
+import { AuthenticatedUser } from '../auth/authenticated-user';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { BalancesService } from './balances.service';
+
+@Controller('me/balances')
+export class UserBalancesController {
+  constructor(private balancesService: BalancesService) {}
+
+  @Get()
+  findAll(@CurrentUser() user: AuthenticatedUser) {
+    return this.balancesService.getUserBalances(user.id);
+  }
+}
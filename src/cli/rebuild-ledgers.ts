@@ -0,0 +1,84 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { LedgerModule } from '../ledger/ledger.module';
+import {
+  LedgerRebuild,
+  LedgerReplayService,
+} from '../ledger/ledger-replay.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PrismaService } from '../prisma/prisma.service';
+
+@Module({
+  imports: [ConfigModule.forRoot(), PrismaModule, LedgerModule],
+})
+class RebuildLedgersModule {}
+
+const USAGE = 'Usage: rebuild-ledgers [--dry-run] [groupId...]';
+
+/**
+ * Replays ledgers of the given groups, or of every group, and stores
+ * the replays of ledgers which drifted apart from them. A dry run only
+ * reports the drift, and fails if there is any.
+ */
+async function bootstrap() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const groupIds = args.filter((arg) => arg !== '--dry-run').map(Number);
+  if (groupIds.some((groupId) => !Number.isInteger(groupId))) {
+    console.error(USAGE);
+    process.exitCode = 2;
+    return;
+  }
+
+  const app = await NestFactory.createApplicationContext(RebuildLedgersModule, {
+    logger: ['error', 'warn', 'log'],
+  });
+  const logger = new Logger('RebuildLedgers');
+  const ledgerReplayService = app.get(LedgerReplayService);
+
+  if (!groupIds.length) {
+    const groups = await app
+      .get(PrismaService)
+      .group.findMany({ select: { id: true }, orderBy: { id: 'asc' } });
+    groupIds.push(...groups.map(({ id }) => id));
+  }
+
+  let failed = false;
+  for (const groupId of groupIds) {
+    try {
+      const rebuild = await ledgerReplayService.rebuild(groupId, dryRun);
+      report(logger, rebuild);
+      failed ||= dryRun && rebuild.drift.length > 0;
+    } catch (error) {
+      logger.error(
+        `Group ${groupId}: ${error instanceof Error ? error.message : error}`,
+      );
+      failed = true;
+    }
+  }
+
+  await app.close();
+  process.exitCode = failed ? 1 : 0;
+}
+
+function report(
+  logger: Logger,
+  { groupId, version, drift, rebuilt }: LedgerRebuild,
+) {
+  if (!drift.length) {
+    logger.log(`Group ${groupId}: version ${version} matches the replay`);
+    return;
+  }
+
+  logger.warn(
+    `Group ${groupId}: version ${version} drifted in ${drift.length} relations${rebuilt ? ', rebuilt' : ''}`,
+  );
+  for (const relation of drift) {
+    logger.warn(
+      `  ${relation.debtorId} owing ${relation.creditorId} ${relation.currencyCode}: stored ${relation.stored}, replayed ${relation.replayed}${relation.historyDiffers ? ', histories differ' : ''}`,
+    );
+  }
+}
+
+bootstrap();
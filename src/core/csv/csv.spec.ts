@@ -0,0 +1,40 @@
+import { parseCsv, stringifyCsv } from './csv';
+
+describe('csv', () => {
+  it('should parse quoted fields with commas, quotes, and line breaks', () => {
+    expect(
+      parseCsv('name,note\r\n"Dinner, drinks","Said ""hi""\nto all"\n'),
+    ).toEqual([
+      ['name', 'note'],
+      ['Dinner, drinks', 'Said "hi"\nto all'],
+    ]);
+  });
+
+  it('should skip blank lines, and the byte order mark', () => {
+    expect(parseCsv('﻿a,b\n\n1,2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('should keep empty fields', () => {
+    expect(parseCsv('a,,c\n,,\n')).toEqual([
+      ['a', '', 'c'],
+      ['', '', ''],
+    ]);
+  });
+
+  it('should reject an unterminated quoted field', () => {
+    expect(() => parseCsv('"a,b\n')).toThrow();
+  });
+
+  it('should round-trip what it stringifies', () => {
+    const rows = [
+      ['name', 'amount'],
+      ['Taxi, "airport"', '12.50'],
+    ];
+
+    expect(parseCsv(stringifyCsv(rows))).toEqual(rows);
+    expect(stringifyCsv([['a', 1n, null]])).toBe('a,1,\r\n');
+  });
+});
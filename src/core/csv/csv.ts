@@ -0,0 +1,77 @@
+export type CsvValue = string | number | bigint | null | undefined;
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, line breaks, and
+ * doubled quotes. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let index = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      index += 1;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      endRow();
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+    } else {
+      field += char;
+    }
+    index += 1;
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted field.');
+  }
+  if (field !== '' || row.length) {
+    endRow();
+  }
+
+  return rows;
+}
+
+export function stringifyCsv(rows: CsvValue[][]) {
+  return rows
+    .map((row) => row.map(stringifyCsvValue).join(','))
+    .join('\r\n')
+    .concat('\r\n');
+}
+
+function stringifyCsvValue(value: CsvValue) {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,36 @@
+import {
+  ExchangeRateNotFoundError,
+  ExchangeRateSnapshot,
+  StaticExchangeRateProvider,
+  convert,
+} from './exchange-rates';
+
+describe('exchange rates', () => {
+  const snapshot: ExchangeRateSnapshot = {
+    baseCurrency: 'EUR',
+    rates: { JPY: 160, USD: 1.25, KWD: 0.33 },
+    takenAt: new Date('2024-01-01'),
+  };
+
+  it('should convert between currencies of different exponents', () => {
+    expect(convert(800n, 'JPY', 'EUR', snapshot)).toBe(500n);
+    expect(convert(500n, 'EUR', 'JPY', snapshot)).toBe(800n);
+    expect(convert(1000n, 'EUR', 'KWD', snapshot)).toBe(3300n);
+    expect(convert(-250n, 'USD', 'EUR', snapshot)).toBe(-200n);
+  });
+
+  it('should convert amounts beyond safe integers exactly', () => {
+    const amount = BigInt(Number.MAX_SAFE_INTEGER) * 1000n;
+
+    expect(convert(amount * 125n, 'USD', 'EUR', snapshot)).toBe(amount * 100n);
+  });
+
+  it('should report missing rates', async () => {
+    expect(() => convert(100n, 'EUR', 'PLN', snapshot)).toThrow(
+      new ExchangeRateNotFoundError('Exchange rate of PLN to EUR not found.'),
+    );
+    await expect(
+      new StaticExchangeRateProvider('EUR', {}).getSnapshot('PLN'),
+    ).rejects.toThrow(ExchangeRateNotFoundError);
+  });
+});
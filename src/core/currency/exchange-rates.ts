@@ -0,0 +1,145 @@
+import { Money, divideRounded } from './money';
+
+export type CurrencyCode = string;
+
+export interface ExchangeRateSnapshot {
+  baseCurrency: CurrencyCode;
+  /**
+   * How many units of the currency one unit of the base currency is worth.
+   */
+  rates: Record<CurrencyCode, number>;
+  takenAt: Date;
+}
+
+export interface ExchangeRateProvider {
+  getSnapshot(
+    baseCurrency: CurrencyCode,
+    at?: Date,
+  ): Promise<ExchangeRateSnapshot>;
+}
+
+/**
+ * Rates of the currency are unknown, so amounts in it can not be converted.
+ */
+export class ExchangeRateNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExchangeRateNotFoundError';
+  }
+}
+
+const DEFAULT_CURRENCY_EXPONENT = 2;
+
+const RATE_DECIMALS = 12;
+
+/**
+ * ISO 4217 currencies with a number of minor units other than the default.
+ */
+const CURRENCY_EXPONENTS: Record<CurrencyCode, number> = {
+  BHD: 3,
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  IQD: 3,
+  ISK: 0,
+  JOD: 3,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  PYG: 0,
+  RWF: 0,
+  TND: 3,
+  UGX: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+};
+
+export function getCurrencyExponent(currencyCode: CurrencyCode) {
+  return CURRENCY_EXPONENTS[currencyCode] ?? DEFAULT_CURRENCY_EXPONENT;
+}
+
+export function getExchangeRate(
+  from: CurrencyCode,
+  to: CurrencyCode,
+  snapshot: ExchangeRateSnapshot,
+) {
+  if (from === to) {
+    return 1;
+  }
+
+  const rateOf = (currencyCode: CurrencyCode) => {
+    const rate =
+      currencyCode === snapshot.baseCurrency ? 1 : snapshot.rates[currencyCode];
+    if (!rate || rate <= 0) {
+      throw new ExchangeRateNotFoundError(
+        `Exchange rate of ${currencyCode} to ${snapshot.baseCurrency} not found.`,
+      );
+    }
+    return rate;
+  };
+
+  return rateOf(to) / rateOf(from);
+}
+
+/**
+ * Converts `amount` in minor units of `from` currency to minor units of `to`
+ * currency, rounded to the closest minor unit. Rates are floating point, so
+ * they are taken with `RATE_DECIMALS` decimal places to convert exactly.
+ */
+export function convert(
+  amount: Money,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  snapshot: ExchangeRateSnapshot,
+): Money {
+  if (from === to) {
+    return amount;
+  }
+
+  const rate = BigInt(
+    Math.round(getExchangeRate(from, to, snapshot) * 10 ** RATE_DECIMALS),
+  );
+  const exponent = getCurrencyExponent(to) - getCurrencyExponent(from);
+
+  return divideRounded(
+    amount * rate * 10n ** BigInt(Math.max(exponent, 0)),
+    10n ** BigInt(RATE_DECIMALS - Math.min(exponent, 0)),
+  );
+}
+
+/**
+ * Serves rates from a fixed table. Used offline, and in tests.
+ */
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  constructor(
+    private baseCurrency: CurrencyCode,
+    private rates: Record<CurrencyCode, number>,
+  ) {}
+
+  async getSnapshot(
+    baseCurrency: CurrencyCode,
+    at: Date = new Date(),
+  ): Promise<ExchangeRateSnapshot> {
+    const table = { baseCurrency: this.baseCurrency, rates: this.rates };
+    const rates: Record<CurrencyCode, number> = {};
+
+    for (const currencyCode of [
+      this.baseCurrency,
+      ...Object.keys(this.rates),
+    ]) {
+      rates[currencyCode] = getExchangeRate(baseCurrency, currencyCode, {
+        ...table,
+        takenAt: at,
+      });
+    }
+
+    return { baseCurrency, rates, takenAt: at };
+  }
+}
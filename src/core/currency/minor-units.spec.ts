@@ -0,0 +1,22 @@
+import { formatMinorUnits, parseMinorUnits } from './minor-units';
+
+describe('minor units', () => {
+  it('should parse major units by the currency exponent', () => {
+    expect(parseMinorUnits('12.5', 'EUR')).toBe(1250n);
+    expect(parseMinorUnits('-0.05', 'USD')).toBe(-5n);
+    expect(parseMinorUnits('1200', 'JPY')).toBe(1200n);
+    expect(parseMinorUnits('1.234', 'KWD')).toBe(1234n);
+  });
+
+  it('should reject more decimal places than the currency has', () => {
+    expect(() => parseMinorUnits('1.5', 'JPY')).toThrow();
+    expect(() => parseMinorUnits('1.005', 'EUR')).toThrow();
+    expect(() => parseMinorUnits('1,5', 'EUR')).toThrow();
+  });
+
+  it('should format minor units as major units', () => {
+    expect(formatMinorUnits(1250n, 'EUR')).toBe('12.50');
+    expect(formatMinorUnits(-5n, 'USD')).toBe('-0.05');
+    expect(formatMinorUnits(1200n, 'JPY')).toBe('1200');
+  });
+});
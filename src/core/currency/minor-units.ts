@@ -0,0 +1,40 @@
+import { CurrencyCode, getCurrencyExponent } from './exchange-rates';
+import { Money } from './money';
+
+/**
+ * Parses a decimal amount in major units, like `-12.5`, into minor units
+ * of the currency. More decimal places than the currency has are rejected.
+ */
+export function parseMinorUnits(
+  value: string,
+  currencyCode: CurrencyCode,
+): Money {
+  const exponent = getCurrencyExponent(currencyCode);
+  const match = /^(-)?(\d+)(?:\.(\d+))?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Expected a decimal amount, but got "${value}".`);
+  }
+
+  const [, sign, integer, fraction = ''] = match;
+  if (fraction.length > exponent) {
+    throw new Error(
+      `Expected at most ${exponent} decimal places of ${currencyCode}, but got "${value}".`,
+    );
+  }
+
+  const amount = BigInt(integer + fraction.padEnd(exponent, '0'));
+  return sign ? -amount : amount;
+}
+
+export function formatMinorUnits(amount: Money, currencyCode: CurrencyCode) {
+  const exponent = getCurrencyExponent(currencyCode);
+  const sign = amount < 0n ? '-' : '';
+  const digits = (amount < 0n ? -amount : amount)
+    .toString()
+    .padStart(exponent + 1, '0');
+
+  if (!exponent) {
+    return sign + digits;
+  }
+  return `${sign}${digits.slice(0, -exponent)}.${digits.slice(-exponent)}`;
+}
@@ -0,0 +1,30 @@
+import { divideRounded, toMoney } from './money';
+
+describe('money', () => {
+  it('should take integer minor units of any kind', () => {
+    expect(toMoney(1250n)).toBe(1250n);
+    expect(toMoney(1250)).toBe(1250n);
+    expect(toMoney('90071992547409930')).toBe(90071992547409930n);
+  });
+
+  it.each([
+    ['fractional numbers', 12.5],
+    ['negative numbers', -1],
+    ['unsafe numbers', 2 ** 60],
+    ['negative amounts', -1n],
+    ['decimal strings', '12.50'],
+    ['signed strings', '-5'],
+    ['empty strings', ''],
+  ])('should reject %s', (_, value) => {
+    expect(() => toMoney(value, 'price')).toThrow(
+      `Expected a non-negative integer price in minor units, but got ${value}.`,
+    );
+  });
+
+  it('should divide rounding halves away from zero', () => {
+    expect(divideRounded(5n, 2n)).toBe(3n);
+    expect(divideRounded(-5n, 2n)).toBe(-3n);
+    expect(divideRounded(7n, 3n)).toBe(2n);
+    expect(divideRounded(-8n, 3n)).toBe(-3n);
+  });
+});
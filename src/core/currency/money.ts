@@ -0,0 +1,60 @@
+/**
+ * Amount of money in minor units of its currency, e.g. cents of EUR, or yen,
+ * see `getCurrencyExponent`. Written to JSON as a string of digits, see
+ * `bigIntReplacer`, as numbers lose precision past `Number.MAX_SAFE_INTEGER`.
+ */
+export type Money = bigint;
+
+/**
+ * Converts an amount in minor units to `Money`. Fractional, negative, and
+ * unsafe numbers are rejected, as well as strings other than plain digits.
+ */
+export function toMoney(value: Money | number | string, name = 'amount') {
+  const amount =
+    typeof value === 'bigint'
+      ? value
+      : typeof value === 'number' && Number.isSafeInteger(value)
+        ? BigInt(value)
+        : typeof value === 'string' && /^\d+$/.test(value)
+          ? BigInt(value)
+          : null;
+  if (amount === null || amount < 0n) {
+    throw new Error(
+      `Expected a non-negative integer ${name} in minor units, but got ${value}.`,
+    );
+  }
+  return amount;
+}
+
+export function sumMoney(amounts: Iterable<Money>) {
+  let sum = 0n;
+  for (const amount of amounts) {
+    sum += amount;
+  }
+  return sum;
+}
+
+export function minMoney(a: Money, b: Money) {
+  return a < b ? a : b;
+}
+
+/**
+ * Comparator sorting amounts ascending, as subtracting them does not give
+ * the number `Array.prototype.sort` expects.
+ */
+export function compareMoney(a: Money, b: Money) {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Divides, rounding to the closest integer, and halves away from zero.
+ */
+export function divideRounded(dividend: Money, divisor: Money) {
+  const negative = dividend < 0n !== divisor < 0n;
+  const [a, b] = [
+    dividend < 0n ? -dividend : dividend,
+    divisor < 0n ? -divisor : divisor,
+  ];
+  const quotient = (2n * a + b) / (2n * b);
+  return negative ? -quotient : quotient;
+}
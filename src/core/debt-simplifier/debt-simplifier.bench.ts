@@ -0,0 +1,99 @@
+import { performance } from 'perf_hooks';
+import { DebtSimplifier } from './debt-simplifier';
+
+const MEMBERS = 100;
+const EXPENSES = 100_000;
+const BATCH = 10_000;
+const LOOKUPS = 1_000;
+const SETTLEMENT_EVERY = 10;
+
+/**
+ * Deterministic generator, so that every run goes through the same group.
+ */
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1_103_515_245 + 12_345) % 2 ** 31;
+    return state / 2 ** 31;
+  };
+}
+
+function measure<T>(run: () => T): [T, number] {
+  const start = performance.now();
+  const result = run();
+  return [result, performance.now() - start];
+}
+
+/**
+ * Records expenses of a large, long-lived group batch by batch, along with
+ * occasional settlements, and reports how long adding an expense, and looking
+ * up a balance take on average as the history grows. Every write of a ledger
+ * stores its snapshot, so the bench reports how long writing it takes too,
+ * with archived debts left out, as they are stored, and with them.
+ */
+function run() {
+  const random = createRandom(42);
+  const pick = () => `member-${Math.floor(random() * MEMBERS)}`;
+  const simplifier = new DebtSimplifier();
+  const results = [];
+  let settlementId = 0;
+
+  for (let expenseId = 0; expenseId < EXPENSES; expenseId += BATCH) {
+    let addMs = 0;
+    for (let id = expenseId; id < expenseId + BATCH; id++) {
+      const creditorId = pick();
+      const debtors = new Set(
+        Array.from({ length: 1 + Math.floor(random() * 3) }, pick),
+      );
+      debtors.delete(creditorId);
+
+      const start = performance.now();
+      simplifier.replace(
+        id,
+        [...debtors].map((debtorId) => ({
+          creditorId,
+          debtorId,
+          debtorOwes: BigInt(1 + Math.floor(random() * 10_000)),
+        })),
+      );
+      addMs += performance.now() - start;
+
+      if (id % SETTLEMENT_EVERY === 0) {
+        const debtorId = pick();
+        const owes = simplifier
+          .getCreditors()
+          .get(creditorId)
+          ?.get(debtorId)?.owes;
+        if (owes) {
+          simplifier.settle(creditorId, debtorId, owes, settlementId++);
+        }
+      }
+    }
+
+    const start = performance.now();
+    for (let lookup = 0; lookup < LOOKUPS; lookup++) {
+      simplifier.getNetBalance(pick());
+    }
+    const lookupMs = performance.now() - start;
+
+    const [snapshot, snapshotMs] = measure(() =>
+      simplifier.toJSON({ archived: false }),
+    );
+    const [fullSnapshot, fullSnapshotMs] = measure(() => simplifier.toJSON());
+
+    results.push({
+      expenses: expenseId + BATCH,
+      'add (µs)': ((addMs / BATCH) * 1000).toFixed(1),
+      'balance lookup (µs)': ((lookupMs / LOOKUPS) * 1000).toFixed(1),
+      archived: simplifier.getArchivedDebts().length,
+      'snapshot (KB)': (snapshot.length / 1024).toFixed(0),
+      'snapshot write (ms)': snapshotMs.toFixed(1),
+      'with archived (KB)': (fullSnapshot.length / 1024).toFixed(0),
+      'with archived write (ms)': fullSnapshotMs.toFixed(1),
+    });
+  }
+
+  console.table(results);
+}
+
+run();
@@ -0,0 +1,476 @@
+import * as fc from 'fast-check';
+import { Money } from '../currency/money';
+import {
+  CreditorId,
+  DebtSimplifier,
+  DebtorId,
+  ExpenseDebt,
+  ExpenseId,
+  SettlementId,
+} from './debt-simplifier';
+
+const PEOPLE = ['A', 'B', 'C', 'D', 'E'];
+
+interface NaiveSettlement {
+  creditorId: CreditorId;
+  debtorId: DebtorId;
+  amount: Money;
+}
+
+/**
+ * Keeps every expense, and settlement as it is, in the order they happened,
+ * and answers what anyone owes by summing them up from scratch.
+ */
+class NaiveLedger {
+  expenses = new Map<ExpenseId, ExpenseDebt[]>();
+  settlements = new Map<SettlementId, NaiveSettlement>();
+  /**
+   * Expenses, and settlements in the order they happened. Changed expenses
+   * keep their place.
+   */
+  events: { type: 'expense' | 'settlement'; id: number }[] = [];
+
+  addExpense(expenseId: ExpenseId, debts: ExpenseDebt[]) {
+    this.expenses.set(expenseId, debts);
+    this.events.push({ type: 'expense', id: expenseId });
+  }
+
+  addSettlement(settlementId: SettlementId, settlement: NaiveSettlement) {
+    this.settlements.set(settlementId, settlement);
+    this.events.push({ type: 'settlement', id: settlementId });
+  }
+
+  /**
+   * Whether nobody has ever paid back more than they owed at the time.
+   */
+  isValid() {
+    const owes = new Map<string, Money>();
+    const net = (creditorId: CreditorId, debtorId: DebtorId) =>
+      owes.get(`${creditorId}:${debtorId}`) ?? 0n;
+    const grant = (
+      creditorId: CreditorId,
+      debtorId: DebtorId,
+      amount: Money,
+    ) => {
+      owes.set(`${creditorId}:${debtorId}`, net(creditorId, debtorId) + amount);
+      owes.set(`${debtorId}:${creditorId}`, net(debtorId, creditorId) - amount);
+    };
+
+    for (const { type, id } of this.events) {
+      if (type === 'expense') {
+        for (const debt of this.expenses.get(id) ?? []) {
+          grant(debt.creditorId, debt.debtorId, debt.debtorOwes);
+        }
+        continue;
+      }
+      const settlement = this.settlements.get(id);
+      if (!settlement) {
+        continue;
+      }
+      const { creditorId, debtorId, amount } = settlement;
+      if (net(creditorId, debtorId) < amount) {
+        return false;
+      }
+      grant(creditorId, debtorId, -amount);
+    }
+    return true;
+  }
+
+  /**
+   * What the debtor owes the creditor, less what the creditor owes them.
+   */
+  net(creditorId: CreditorId, debtorId: DebtorId) {
+    let net = 0n;
+    for (const debts of this.expenses.values()) {
+      for (const debt of debts) {
+        if (debt.creditorId === creditorId && debt.debtorId === debtorId) {
+          net += debt.debtorOwes;
+        }
+        if (debt.creditorId === debtorId && debt.debtorId === creditorId) {
+          net -= debt.debtorOwes;
+        }
+      }
+    }
+    for (const settlement of this.settlements.values()) {
+      if (
+        settlement.creditorId === creditorId &&
+        settlement.debtorId === debtorId
+      ) {
+        net -= settlement.amount;
+      }
+      if (
+        settlement.creditorId === debtorId &&
+        settlement.debtorId === creditorId
+      ) {
+        net += settlement.amount;
+      }
+    }
+    return net;
+  }
+
+  balance(personId: string) {
+    return PEOPLE.reduce(
+      (sum, otherId) =>
+        otherId === personId ? sum : sum + this.net(personId, otherId),
+      0n,
+    );
+  }
+}
+
+type Operation =
+  | { type: 'add'; debt: ExpenseDebt }
+  | { type: 'replace'; index: number; debts: ExpenseDebt[] }
+  | { type: 'remove'; index: number }
+  | { type: 'update'; index: number; amount: Money }
+  | { type: 'settle'; index: number; share: number }
+  | { type: 'unsettle'; index: number };
+
+const debtArbitrary = fc
+  .record({
+    creditor: fc.nat(PEOPLE.length - 1),
+    offset: fc.integer({ min: 1, max: PEOPLE.length - 1 }),
+    debtorOwes: fc.bigInt({ min: 1n, max: 1000n }),
+  })
+  .map(
+    ({ creditor, offset, debtorOwes }): ExpenseDebt => ({
+      creditorId: PEOPLE[creditor],
+      debtorId: PEOPLE[(creditor + offset) % PEOPLE.length],
+      debtorOwes,
+    }),
+  );
+
+const operationArbitrary: fc.Arbitrary<Operation> = fc.oneof(
+  {
+    weight: 6,
+    arbitrary: debtArbitrary.map((debt) => ({ type: 'add', debt }) as const),
+  },
+  {
+    weight: 1,
+    arbitrary: fc.record({
+      type: fc.constant('replace' as const),
+      index: fc.nat(),
+      debts: fc.uniqueArray(debtArbitrary, {
+        minLength: 1,
+        maxLength: 3,
+        selector: ({ creditorId, debtorId }) =>
+          [creditorId, debtorId].sort().join(),
+      }),
+    }),
+  },
+  {
+    weight: 1,
+    arbitrary: fc.record({
+      type: fc.constant('remove' as const),
+      index: fc.nat(),
+    }),
+  },
+  {
+    weight: 1,
+    arbitrary: fc.record({
+      type: fc.constant('update' as const),
+      index: fc.nat(),
+      amount: fc.bigInt({ min: 1n, max: 1000n }),
+    }),
+  },
+  {
+    weight: 2,
+    arbitrary: fc.record({
+      type: fc.constant('settle' as const),
+      index: fc.nat(),
+      share: fc.double({ min: 0, max: 1, noNaN: true }),
+    }),
+  },
+  {
+    weight: 1,
+    arbitrary: fc.record({
+      type: fc.constant('unsettle' as const),
+      index: fc.nat(),
+    }),
+  },
+);
+
+/**
+ * State of the simplifier regardless of the order relations were created in.
+ */
+function toSortedEntries(simplifier: DebtSimplifier) {
+  return [...simplifier.getCreditors().entries()]
+    .map(([creditorId, debtors]) => ({
+      creditorId,
+      debtors: [...debtors.entries()].sort(([a], [b]) => a.localeCompare(b)),
+    }))
+    .sort((a, b) => a.creditorId.localeCompare(b.creditorId));
+}
+
+/**
+ * Applies the operation to both ledgers. The simplifier must refuse exactly
+ * the operations which would make anyone have paid back more than they owed
+ * at the time, e.g. removing an expense settlements depend on, or reversing
+ * a settlement later ones depend on, and leave itself untouched then.
+ */
+function apply(
+  simplifier: DebtSimplifier,
+  reference: NaiveLedger,
+  operation: Operation,
+  ids: { next: number },
+) {
+  const expenseIds = [...reference.expenses.keys()];
+  const pick = <T>(elements: T[], index: number) =>
+    elements.length ? elements[index % elements.length] : undefined;
+
+  const attempt = (
+    change: () => void,
+    update: () => void,
+    undo: () => void,
+  ) => {
+    update();
+    const valid = reference.isValid();
+    if (valid) {
+      change();
+      return;
+    }
+    undo();
+
+    const before = toSortedEntries(simplifier);
+    expect(change).toThrow();
+    expect(toSortedEntries(simplifier)).toEqual(before);
+  };
+
+  switch (operation.type) {
+    case 'add': {
+      const expenseId = ids.next++;
+      const { creditorId, debtorId, debtorOwes } = operation.debt;
+      simplifier.add(creditorId, debtorId, debtorOwes, expenseId);
+      reference.addExpense(expenseId, [operation.debt]);
+      break;
+    }
+    case 'replace': {
+      const expenseId = pick(expenseIds, operation.index);
+      if (expenseId === undefined) {
+        break;
+      }
+      const debts = reference.expenses.get(expenseId);
+      attempt(
+        () => simplifier.replace(expenseId, operation.debts),
+        () => reference.expenses.set(expenseId, operation.debts),
+        () => reference.expenses.set(expenseId, debts),
+      );
+      break;
+    }
+    case 'remove': {
+      const expenseId = pick(expenseIds, operation.index);
+      if (expenseId === undefined) {
+        break;
+      }
+      const debts = reference.expenses.get(expenseId);
+      attempt(
+        () => simplifier.remove(expenseId),
+        () => reference.expenses.delete(expenseId),
+        () => reference.expenses.set(expenseId, debts),
+      );
+      break;
+    }
+    case 'update': {
+      const expenseId = pick(
+        expenseIds.filter((id) => reference.expenses.get(id).length === 1),
+        operation.index,
+      );
+      if (expenseId === undefined) {
+        break;
+      }
+      const debts = reference.expenses.get(expenseId);
+      attempt(
+        () => simplifier.update(expenseId, operation.amount),
+        () =>
+          reference.expenses.set(expenseId, [
+            { ...debts[0], debtorOwes: operation.amount },
+          ]),
+        () => reference.expenses.set(expenseId, debts),
+      );
+      break;
+    }
+    case 'settle': {
+      const relations = PEOPLE.flatMap((creditorId) =>
+        PEOPLE.filter(
+          (debtorId) => reference.net(creditorId, debtorId) > 0n,
+        ).map((debtorId) => [creditorId, debtorId] as const),
+      );
+      const relation = pick(relations, operation.index);
+      if (!relation) {
+        break;
+      }
+      const [creditorId, debtorId] = relation;
+      const owes = reference.net(creditorId, debtorId);
+      const amount = BigInt(
+        Math.max(1, Math.round(Number(owes) * operation.share)),
+      );
+      const settlementId = ids.next++;
+      simplifier.settle(creditorId, debtorId, amount, settlementId);
+      reference.addSettlement(settlementId, { creditorId, debtorId, amount });
+      break;
+    }
+    case 'unsettle': {
+      const settlementId = pick(
+        [...reference.settlements.keys()],
+        operation.index,
+      );
+      if (settlementId === undefined) {
+        break;
+      }
+      const settlement = reference.settlements.get(settlementId);
+      attempt(
+        () => simplifier.unsettle(settlementId),
+        () => reference.settlements.delete(settlementId),
+        () => reference.settlements.set(settlementId, settlement),
+      );
+      break;
+    }
+  }
+}
+
+function expectMatchingReference(
+  simplifier: DebtSimplifier,
+  reference: NaiveLedger,
+) {
+  expect(simplifier.verify()).toEqual([]);
+
+  const creditors = simplifier.getCreditors();
+  for (const creditorId of PEOPLE) {
+    for (const debtorId of PEOPLE) {
+      if (creditorId !== debtorId) {
+        const net = reference.net(creditorId, debtorId);
+        expect(creditors.get(creditorId)?.get(debtorId)?.owes ?? 0n).toBe(
+          net > 0n ? net : 0n,
+        );
+      }
+    }
+  }
+
+  const balances = simplifier.getNetBalances();
+  for (const personId of PEOPLE) {
+    expect(balances.get(personId) ?? 0n).toBe(reference.balance(personId));
+    expect(simplifier.getNetBalance(personId)).toBe(
+      reference.balance(personId),
+    );
+  }
+}
+
+/**
+ * Debts of every relation, archived or not, in the order of their expenses.
+ */
+function toRecordedDebts(simplifier: DebtSimplifier) {
+  return toSortedEntries(simplifier).map(({ creditorId, debtors }) => ({
+    creditorId,
+    debtors: debtors.map(([debtorId, { owes, debts, archived = [] }]) => ({
+      debtorId,
+      owes,
+      debts: [...archived, ...debts].sort((a, b) => a.expenseId - b.expenseId),
+    })),
+  }));
+}
+
+describe('DebtSimplifier properties', () => {
+  it('should match the naive ledger after every operation', () => {
+    fc.assert(
+      fc.property(
+        fc.array(operationArbitrary, { minLength: 1, maxLength: 40 }),
+        (operations) => {
+          const simplifier = new DebtSimplifier();
+          const reference = new NaiveLedger();
+          const ids = { next: 1 };
+
+          for (const operation of operations) {
+            apply(simplifier, reference, operation, ids);
+            expectMatchingReference(simplifier, reference);
+          }
+        },
+      ),
+      { numRuns: 1000 },
+    );
+  });
+
+  it('should load what it writes, and keep operating the same way', () => {
+    fc.assert(
+      fc.property(
+        fc.array(operationArbitrary, { minLength: 1, maxLength: 40 }),
+        fc.array(debtArbitrary, { maxLength: 5 }),
+        (operations, debts) => {
+          const simplifier = new DebtSimplifier();
+          const ids = { next: 1 };
+          for (const operation of operations) {
+            apply(simplifier, new NaiveLedger(), operation, ids);
+          }
+
+          const loaded = new DebtSimplifier();
+          loaded.fromJSON(simplifier.toJSON());
+          for (const { creditorId, debtorId, debtorOwes } of debts) {
+            const expenseId = ids.next++;
+            simplifier.add(creditorId, debtorId, debtorOwes, expenseId);
+            loaded.add(creditorId, debtorId, debtorOwes, expenseId);
+          }
+
+          expect(loaded.toJSON()).toBe(simplifier.toJSON());
+        },
+      ),
+      { numRuns: 500 },
+    );
+  });
+
+  it('should operate the same way whether compacted or not', () => {
+    fc.assert(
+      fc.property(
+        fc.array(operationArbitrary, { minLength: 1, maxLength: 60 }),
+        (operations) => {
+          const simplifier = new DebtSimplifier();
+          const compacted = new DebtSimplifier();
+          const [reference, compactedReference] = [
+            new NaiveLedger(),
+            new NaiveLedger(),
+          ];
+          const [ids, compactedIds] = [{ next: 1 }, { next: 1 }];
+
+          for (const operation of operations) {
+            apply(simplifier, reference, operation, ids);
+            apply(compacted, compactedReference, operation, compactedIds);
+            compacted.compact();
+
+            expect(compacted.verify()).toEqual([]);
+            expect(toRecordedDebts(compacted)).toEqual(
+              toRecordedDebts(simplifier),
+            );
+          }
+        },
+      ),
+      { numRuns: 500 },
+    );
+  });
+
+  it('should settle the group with at most N - 1 transfers zeroing every balance', () => {
+    fc.assert(
+      fc.property(fc.array(debtArbitrary, { maxLength: 60 }), (debts) => {
+        const simplifier = new DebtSimplifier();
+        debts.forEach(({ creditorId, debtorId, debtorOwes }, index) =>
+          simplifier.add(creditorId, debtorId, debtorOwes, index),
+        );
+
+        const balances = simplifier.getNetBalances();
+        const transfers = simplifier.settleGroup();
+        for (const { from, to, amount } of transfers) {
+          expect(amount).toBeGreaterThan(0n);
+          balances.set(from, balances.get(from) + amount);
+          balances.set(to, balances.get(to) - amount);
+        }
+
+        const unsettled = [...simplifier.getNetBalances().values()].filter(
+          (balance) => balance !== 0n,
+        );
+        expect([...balances.values()].every((balance) => balance === 0n)).toBe(
+          true,
+        );
+        expect(transfers.length).toBeLessThanOrEqual(
+          Math.max(0, unsettled.length - 1),
+        );
+      }),
+      { numRuns: 1000 },
+    );
+  });
+});
@@ -9,6 +9,15 @@ function* createIdGenerator(startFrom: number = 0) {
   return id;
 }
 
+/**
+ * Snapshot without sequences, which a fresh replay numbers anew.
+ */
+function withoutSequences(json: string) {
+  return JSON.stringify(JSON.parse(json), (key, value) =>
+    key === 'sequence' ? undefined : value,
+  );
+}
+
 describe('DebtSimplifier', () => {
   let debtSimplifier: DebtSimplifier;
   let idGen = createIdGenerator();
@@ -19,176 +28,212 @@ describe('DebtSimplifier', () => {
   });
 
   it('should correctly simplify debts between creditors and debtors', () => {
-    debtSimplifier.add('A', 'B', 10, idGen.next().value);
-    debtSimplifier.add('A', 'B', 5, idGen.next().value);
-    debtSimplifier.add('B', 'A', 7, idGen.next().value);
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 5n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 7n, idGen.next().value);
 
     const creditors = debtSimplifier.getCreditors();
 
-    expect(creditors.get('A')?.get('B')?.owes).toBe(8);
-    expect(creditors.get('B')?.get('A')?.owes).toBe(0);
+    expect(creditors.get('A')?.get('B')?.owes).toBe(8n);
+    expect(creditors.get('B')?.get('A')?.owes).toBe(0n);
   });
 
   it('should handle multiple debts between the same creditors and debtors', () => {
-    debtSimplifier.add('A', 'B', 10, idGen.next().value);
-    debtSimplifier.add('A', 'B', 5, idGen.next().value);
-    debtSimplifier.add('B', 'A', 7, idGen.next().value);
-    debtSimplifier.add('A', 'B', 12, idGen.next().value);
-    debtSimplifier.add('B', 'A', 3, idGen.next().value);
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 5n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 7n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 12n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 3n, idGen.next().value);
 
     const creditors = debtSimplifier.getCreditors();
 
-    expect(creditors.get('A')?.get('B')?.owes).toBe(17);
-    expect(creditors.get('B')?.get('A')?.owes).toBe(0);
+    expect(creditors.get('A')?.get('B')?.owes).toBe(17n);
+    expect(creditors.get('B')?.get('A')?.owes).toBe(0n);
   });
 
   it('should cover as much small transactions as possible when can cover all', () => {
-    debtSimplifier.add('A', 'B', 7, idGen.next().value);
-    debtSimplifier.add('A', 'B', 3, idGen.next().value);
-    debtSimplifier.add('A', 'B', 2, idGen.next().value);
-    debtSimplifier.add('A', 'B', 1, idGen.next().value);
-    debtSimplifier.add('A', 'B', 1, idGen.next().value);
-    debtSimplifier.add('A', 'B', 1, idGen.next().value);
-    debtSimplifier.add('B', 'A', 14, idGen.next().value);
+    debtSimplifier.add('A', 'B', 7n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 3n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 2n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 1n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 1n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 1n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 14n, idGen.next().value);
 
     const creditors = debtSimplifier.getCreditors();
 
-    expect(creditors.get('A')?.get('B')?.owes).toBe(1);
-    expect(creditors.get('B')?.get('A')?.owes).toBe(0);
+    expect(creditors.get('A')?.get('B')?.owes).toBe(1n);
+    expect(creditors.get('B')?.get('A')?.owes).toBe(0n);
 
     const bDebts = creditors.get('A')?.get('B').debts;
 
     expect(bDebts.length).toBe(6);
-    expect(bDebts.find((e) => e.expenseId === 0).history.at(-1).amount).toBe(0);
-    expect(bDebts.find((e) => e.expenseId === 1).history.at(-1).amount).toBe(0);
-    expect(bDebts.find((e) => e.expenseId === 2).history.at(-1).amount).toBe(0);
-    expect(bDebts.find((e) => e.expenseId === 3).history.at(-1).amount).toBe(0);
-    expect(bDebts.find((e) => e.expenseId === 4).history.at(-1).amount).toBe(0);
-    expect(bDebts.find((e) => e.expenseId === 5).history.at(-1).amount).toBe(1);
+    expect(bDebts.find((e) => e.expenseId === 0).history.at(-1).amount).toBe(
+      0n,
+    );
+    expect(bDebts.find((e) => e.expenseId === 1).history.at(-1).amount).toBe(
+      0n,
+    );
+    expect(bDebts.find((e) => e.expenseId === 2).history.at(-1).amount).toBe(
+      0n,
+    );
+    expect(bDebts.find((e) => e.expenseId === 3).history.at(-1).amount).toBe(
+      0n,
+    );
+    expect(bDebts.find((e) => e.expenseId === 4).history.at(-1).amount).toBe(
+      0n,
+    );
+    expect(bDebts.find((e) => e.expenseId === 5).history.at(-1).amount).toBe(
+      1n,
+    );
   });
 
   it('should cover as much small transactions as possible when can cover some', () => {
-    debtSimplifier.add('A', 'B', 7, idGen.next().value);
-    debtSimplifier.add('A', 'B', 2, idGen.next().value);
-    debtSimplifier.add('A', 'B', 2, idGen.next().value);
-    debtSimplifier.add('A', 'B', 1, idGen.next().value);
-    debtSimplifier.add('A', 'B', 1, idGen.next().value);
-    debtSimplifier.add('A', 'B', 1, idGen.next().value);
-    debtSimplifier.add('B', 'A', 7, idGen.next().value);
+    debtSimplifier.add('A', 'B', 7n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 2n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 2n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 1n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 1n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 1n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 7n, idGen.next().value);
 
     const creditors = debtSimplifier.getCreditors();
 
-    expect(creditors.get('A')?.get('B')?.owes).toBe(7);
-    expect(creditors.get('B')?.get('A')?.owes).toBe(0);
+    expect(creditors.get('A')?.get('B')?.owes).toBe(7n);
+    expect(creditors.get('B')?.get('A')?.owes).toBe(0n);
 
     const bDebts = creditors.get('A')?.get('B').debts;
 
     expect(bDebts.length).toBe(6);
-    expect(bDebts.find((e) => e.expenseId === 0).history.at(-1).amount).toBe(7);
-    expect(bDebts.find((e) => e.expenseId === 1).history.at(-1).amount).toBe(0);
-    expect(bDebts.find((e) => e.expenseId === 2).history.at(-1).amount).toBe(0);
-    expect(bDebts.find((e) => e.expenseId === 3).history.at(-1).amount).toBe(0);
-    expect(bDebts.find((e) => e.expenseId === 4).history.at(-1).amount).toBe(0);
-    expect(bDebts.find((e) => e.expenseId === 5).history.at(-1).amount).toBe(0);
+    expect(bDebts.find((e) => e.expenseId === 0).history.at(-1).amount).toBe(
+      7n,
+    );
+    expect(bDebts.find((e) => e.expenseId === 1).history.at(-1).amount).toBe(
+      0n,
+    );
+    expect(bDebts.find((e) => e.expenseId === 2).history.at(-1).amount).toBe(
+      0n,
+    );
+    expect(bDebts.find((e) => e.expenseId === 3).history.at(-1).amount).toBe(
+      0n,
+    );
+    expect(bDebts.find((e) => e.expenseId === 4).history.at(-1).amount).toBe(
+      0n,
+    );
+    expect(bDebts.find((e) => e.expenseId === 5).history.at(-1).amount).toBe(
+      0n,
+    );
   });
 
   it('should cover as much small transactions as possible when can cover some, and partial', () => {
-    debtSimplifier.add('A', 'B', 7, idGen.next().value);
-    debtSimplifier.add('A', 'B', 2, idGen.next().value);
-    debtSimplifier.add('A', 'B', 2, idGen.next().value);
-    debtSimplifier.add('A', 'B', 1, idGen.next().value);
-    debtSimplifier.add('A', 'B', 1, idGen.next().value);
-    debtSimplifier.add('A', 'B', 1, idGen.next().value);
-    debtSimplifier.add('B', 'A', 11, idGen.next().value);
+    debtSimplifier.add('A', 'B', 7n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 2n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 2n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 1n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 1n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 1n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 11n, idGen.next().value);
 
     const creditors = debtSimplifier.getCreditors();
 
-    expect(creditors.get('A')?.get('B')?.owes).toBe(3);
-    expect(creditors.get('B')?.get('A')?.owes).toBe(0);
+    expect(creditors.get('A')?.get('B')?.owes).toBe(3n);
+    expect(creditors.get('B')?.get('A')?.owes).toBe(0n);
 
     const bDebts = creditors.get('A')?.get('B').debts;
 
     expect(bDebts.length).toBe(6);
-    expect(bDebts.find((e) => e.expenseId === 0).history.at(-1).amount).toBe(0);
-    expect(bDebts.find((e) => e.expenseId === 1).history.at(-1).amount).toBe(0);
-    expect(bDebts.find((e) => e.expenseId === 2).history.at(-1).amount).toBe(0);
-    expect(bDebts.find((e) => e.expenseId === 3).history.at(-1).amount).toBe(1);
-    expect(bDebts.find((e) => e.expenseId === 4).history.at(-1).amount).toBe(1);
-    expect(bDebts.find((e) => e.expenseId === 5).history.at(-1).amount).toBe(1);
+    expect(bDebts.find((e) => e.expenseId === 0).history.at(-1).amount).toBe(
+      0n,
+    );
+    expect(bDebts.find((e) => e.expenseId === 1).history.at(-1).amount).toBe(
+      0n,
+    );
+    expect(bDebts.find((e) => e.expenseId === 2).history.at(-1).amount).toBe(
+      0n,
+    );
+    expect(bDebts.find((e) => e.expenseId === 3).history.at(-1).amount).toBe(
+      1n,
+    );
+    expect(bDebts.find((e) => e.expenseId === 4).history.at(-1).amount).toBe(
+      1n,
+    );
+    expect(bDebts.find((e) => e.expenseId === 5).history.at(-1).amount).toBe(
+      1n,
+    );
   });
 
   it('should correctly simplify debts when multiple transactions are involved', () => {
-    debtSimplifier.add('A', 'B', 10, idGen.next().value);
-    debtSimplifier.add('A', 'B', 5, idGen.next().value);
-    debtSimplifier.add('B', 'A', 7, idGen.next().value);
-    debtSimplifier.add('B', 'A', 3, idGen.next().value);
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 5n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 7n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 3n, idGen.next().value);
 
     const creditors = debtSimplifier.getCreditors();
 
-    expect(creditors.get('A')?.get('B')?.owes).toBe(5);
-    expect(creditors.get('B')?.get('A')?.owes).toBe(0);
+    expect(creditors.get('A')?.get('B')?.owes).toBe(5n);
+    expect(creditors.get('B')?.get('A')?.owes).toBe(0n);
   });
 
   it('should maintain debts between creditors and debtors', () => {
-    debtSimplifier.add('A', 'B', 50, idGen.next().value);
-    debtSimplifier.add('X', 'Y', 100, idGen.next().value);
-    debtSimplifier.add('O', 'P', 200, idGen.next().value);
-    debtSimplifier.add('M', 'N', 300, idGen.next().value);
+    debtSimplifier.add('A', 'B', 50n, idGen.next().value);
+    debtSimplifier.add('X', 'Y', 100n, idGen.next().value);
+    debtSimplifier.add('O', 'P', 200n, idGen.next().value);
+    debtSimplifier.add('M', 'N', 300n, idGen.next().value);
 
     const creditors = debtSimplifier.getCreditors();
 
-    expect(creditors.get('A')?.get('B')?.owes).toBe(50);
-    expect(creditors.get('X')?.get('Y')?.owes).toBe(100);
-    expect(creditors.get('O')?.get('P')?.owes).toBe(200);
-    expect(creditors.get('M')?.get('N')?.owes).toBe(300);
+    expect(creditors.get('A')?.get('B')?.owes).toBe(50n);
+    expect(creditors.get('X')?.get('Y')?.owes).toBe(100n);
+    expect(creditors.get('O')?.get('P')?.owes).toBe(200n);
+    expect(creditors.get('M')?.get('N')?.owes).toBe(300n);
   });
 
   it('should correctly simplify debts when multiple transactions are involved, and more than 2 people', () => {
-    debtSimplifier.add('A', 'B', 10, idGen.next().value);
-    debtSimplifier.add('A', 'B', 5, idGen.next().value);
-    debtSimplifier.add('A', 'C', 5, idGen.next().value);
-    debtSimplifier.add('B', 'A', 7, idGen.next().value);
-    debtSimplifier.add('B', 'A', 3, idGen.next().value);
-    debtSimplifier.add('C', 'B', 10, idGen.next().value);
-    debtSimplifier.add('C', 'A', 10, idGen.next().value);
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 5n, idGen.next().value);
+    debtSimplifier.add('A', 'C', 5n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 7n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 3n, idGen.next().value);
+    debtSimplifier.add('C', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('C', 'A', 10n, idGen.next().value);
 
     const creditors = debtSimplifier.getCreditors();
 
-    expect(creditors.get('A')?.get('B')?.owes).toBe(5);
-    expect(creditors.get('A')?.get('C')?.owes).toBe(0);
-    expect(creditors.get('B')?.get('A')?.owes).toBe(0);
-    expect(creditors.get('B')?.get('C')?.owes).toBe(0);
-    expect(creditors.get('C')?.get('A')?.owes).toBe(5);
-    expect(creditors.get('C')?.get('B')?.owes).toBe(10);
+    expect(creditors.get('A')?.get('B')?.owes).toBe(5n);
+    expect(creditors.get('A')?.get('C')?.owes).toBe(0n);
+    expect(creditors.get('B')?.get('A')?.owes).toBe(0n);
+    expect(creditors.get('B')?.get('C')?.owes).toBe(0n);
+    expect(creditors.get('C')?.get('A')?.owes).toBe(5n);
+    expect(creditors.get('C')?.get('B')?.owes).toBe(10n);
   });
 
   it('should correctly simplify debts when multiple transactions are involved, and more than 2 people, and order does not matter', () => {
-    debtSimplifier.add('C', 'A', 10, idGen.next().value);
-    debtSimplifier.add('B', 'A', 7, idGen.next().value);
-    debtSimplifier.add('A', 'B', 10, idGen.next().value);
-    debtSimplifier.add('B', 'A', 3, idGen.next().value);
-    debtSimplifier.add('A', 'C', 5, idGen.next().value);
-    debtSimplifier.add('C', 'B', 10, idGen.next().value);
-    debtSimplifier.add('A', 'B', 5, idGen.next().value);
+    debtSimplifier.add('C', 'A', 10n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 7n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 3n, idGen.next().value);
+    debtSimplifier.add('A', 'C', 5n, idGen.next().value);
+    debtSimplifier.add('C', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 5n, idGen.next().value);
 
     const creditors = debtSimplifier.getCreditors();
 
-    expect(creditors.get('A')?.get('B')?.owes).toBe(5);
-    expect(creditors.get('A')?.get('C')?.owes).toBe(0);
-    expect(creditors.get('B')?.get('A')?.owes).toBe(0);
-    expect(creditors.get('B')?.get('C')?.owes).toBe(0);
-    expect(creditors.get('C')?.get('A')?.owes).toBe(5);
-    expect(creditors.get('C')?.get('B')?.owes).toBe(10);
+    expect(creditors.get('A')?.get('B')?.owes).toBe(5n);
+    expect(creditors.get('A')?.get('C')?.owes).toBe(0n);
+    expect(creditors.get('B')?.get('A')?.owes).toBe(0n);
+    expect(creditors.get('B')?.get('C')?.owes).toBe(0n);
+    expect(creditors.get('C')?.get('A')?.owes).toBe(5n);
+    expect(creditors.get('C')?.get('B')?.owes).toBe(10n);
   });
 
   it('should correctly convert to json, and load parsed structure', () => {
-    debtSimplifier.add('C', 'A', 10, idGen.next().value);
-    debtSimplifier.add('B', 'A', 7, idGen.next().value);
-    debtSimplifier.add('A', 'B', 10, idGen.next().value);
-    debtSimplifier.add('B', 'A', 3, idGen.next().value);
-    debtSimplifier.add('A', 'C', 5, idGen.next().value);
-    debtSimplifier.add('C', 'B', 10, idGen.next().value);
-    debtSimplifier.add('A', 'B', 5, idGen.next().value);
+    debtSimplifier.add('C', 'A', 10n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 7n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 3n, idGen.next().value);
+    debtSimplifier.add('A', 'C', 5n, idGen.next().value);
+    debtSimplifier.add('C', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 5n, idGen.next().value);
 
     const creditorsAsJson = debtSimplifier.toJSON();
 
@@ -197,46 +242,46 @@ describe('DebtSimplifier', () => {
 
     const creditors = newDebtSimplifier.getCreditors();
 
-    expect(creditors.get('A')?.get('B')?.owes).toBe(5);
-    expect(creditors.get('A')?.get('C')?.owes).toBe(0);
-    expect(creditors.get('B')?.get('A')?.owes).toBe(0);
-    expect(creditors.get('B')?.get('C')?.owes).toBe(0);
-    expect(creditors.get('C')?.get('A')?.owes).toBe(5);
-    expect(creditors.get('C')?.get('B')?.owes).toBe(10);
+    expect(creditors.get('A')?.get('B')?.owes).toBe(5n);
+    expect(creditors.get('A')?.get('C')?.owes).toBe(0n);
+    expect(creditors.get('B')?.get('A')?.owes).toBe(0n);
+    expect(creditors.get('B')?.get('C')?.owes).toBe(0n);
+    expect(creditors.get('C')?.get('A')?.owes).toBe(5n);
+    expect(creditors.get('C')?.get('B')?.owes).toBe(10n);
   });
 
   it('should correctly operate on parsed structure', () => {
-    debtSimplifier.add('C', 'A', 10, idGen.next().value);
-    debtSimplifier.add('B', 'A', 7, idGen.next().value);
-    debtSimplifier.add('A', 'B', 10, idGen.next().value);
+    debtSimplifier.add('C', 'A', 10n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 7n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
 
     const creditorsAsJson = debtSimplifier.toJSON();
     const debtSimplifier2 = new DebtSimplifier();
     debtSimplifier2.fromJSON(creditorsAsJson);
 
-    debtSimplifier2.add('B', 'A', 3, idGen.next().value);
-    debtSimplifier2.add('A', 'C', 5, idGen.next().value);
+    debtSimplifier2.add('B', 'A', 3n, idGen.next().value);
+    debtSimplifier2.add('A', 'C', 5n, idGen.next().value);
 
     const creditorsAsJson2 = debtSimplifier2.toJSON();
     const debtSimplifier3 = new DebtSimplifier();
     debtSimplifier3.fromJSON(creditorsAsJson2);
 
-    debtSimplifier3.add('C', 'B', 10, idGen.next().value);
-    debtSimplifier3.add('A', 'B', 5, idGen.next().value);
+    debtSimplifier3.add('C', 'B', 10n, idGen.next().value);
+    debtSimplifier3.add('A', 'B', 5n, idGen.next().value);
 
     const creditors = debtSimplifier3.getCreditors();
 
-    expect(creditors.get('A')?.get('B')?.owes).toBe(5);
-    expect(creditors.get('A')?.get('C')?.owes).toBe(0);
-    expect(creditors.get('B')?.get('A')?.owes).toBe(0);
-    expect(creditors.get('B')?.get('C')?.owes).toBe(0);
-    expect(creditors.get('C')?.get('A')?.owes).toBe(5);
-    expect(creditors.get('C')?.get('B')?.owes).toBe(10);
+    expect(creditors.get('A')?.get('B')?.owes).toBe(5n);
+    expect(creditors.get('A')?.get('C')?.owes).toBe(0n);
+    expect(creditors.get('B')?.get('A')?.owes).toBe(0n);
+    expect(creditors.get('B')?.get('C')?.owes).toBe(0n);
+    expect(creditors.get('C')?.get('A')?.owes).toBe(5n);
+    expect(creditors.get('C')?.get('B')?.owes).toBe(10n);
   });
 
   it('should handle missing creditors and debtors gracefully', () => {
-    expect(() => debtSimplifier.add('A', 'B', 10, 1)).not.toThrow();
-    expect(() => debtSimplifier.add('A', 'C', 5, 2)).not.toThrow();
+    expect(() => debtSimplifier.add('A', 'B', 10n, 1)).not.toThrow();
+    expect(() => debtSimplifier.add('A', 'C', 5n, 2)).not.toThrow();
   });
 
   it('should handle empty debts and creditors', () => {
@@ -245,9 +290,467 @@ describe('DebtSimplifier', () => {
     expect(creditors.size).toBe(0);
 
     expect(() =>
-      debtSimplifier.add('A', 'B', 10, idGen.next().value),
+      debtSimplifier.add('A', 'B', 10n, idGen.next().value),
     ).not.toThrow();
 
     expect(creditors.size).toBe(2);
   });
+
+  it('should settle a chain of debts with a single transfer', () => {
+    debtSimplifier.add('B', 'A', 10n, idGen.next().value);
+    debtSimplifier.add('C', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('D', 'C', 10n, idGen.next().value);
+
+    const transfers = debtSimplifier.settleGroup();
+
+    expect(transfers).toEqual([
+      { from: 'A', to: 'D', amount: 10n, expenseIds: [0, 2] },
+    ]);
+  });
+
+  it('should settle the whole group with at most N - 1 transfers', () => {
+    debtSimplifier.add('A', 'B', 30n, idGen.next().value);
+    debtSimplifier.add('A', 'C', 20n, idGen.next().value);
+    debtSimplifier.add('B', 'C', 15n, idGen.next().value);
+    debtSimplifier.add('D', 'E', 25n, idGen.next().value);
+    debtSimplifier.add('E', 'A', 5n, idGen.next().value);
+    debtSimplifier.add('C', 'D', 12n, idGen.next().value);
+
+    const balancesBefore = debtSimplifier.getNetBalances();
+    const transfers = debtSimplifier.settleGroup();
+
+    expect(transfers.length).toBeLessThanOrEqual(balancesBefore.size - 1);
+
+    for (const { from, to, amount } of transfers) {
+      balancesBefore.set(from, balancesBefore.get(from) + amount);
+      balancesBefore.set(to, balancesBefore.get(to) - amount);
+    }
+    for (const balance of balancesBefore.values()) {
+      expect(balance).toBe(0n);
+    }
+  });
+
+  it('should not modify debts history when settling the group', () => {
+    debtSimplifier.add('B', 'A', 10n, idGen.next().value);
+    debtSimplifier.add('C', 'B', 10n, idGen.next().value);
+
+    const before = debtSimplifier.toJSON();
+    debtSimplifier.settleGroup();
+
+    expect(debtSimplifier.toJSON()).toBe(before);
+  });
+
+  it('should return no transfers when everyone is settled', () => {
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 10n, idGen.next().value);
+
+    expect(debtSimplifier.settleGroup()).toEqual([]);
+  });
+
+  it('should remove an expense, and unwind the grants it produced', () => {
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 5n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 7n, idGen.next().value);
+
+    debtSimplifier.remove(2);
+
+    const creditors = debtSimplifier.getCreditors();
+    const bDebts = creditors.get('A')?.get('B').debts;
+
+    expect(creditors.get('A')?.get('B')?.owes).toBe(15n);
+    expect(creditors.get('B')?.get('A')?.owes).toBe(0n);
+    expect(bDebts.every((debt) => debt.history.length === 1)).toBe(true);
+  });
+
+  it('should match a fresh replay after removing an expense', () => {
+    debtSimplifier.add('C', 'A', 10n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 7n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 3n, idGen.next().value);
+    debtSimplifier.add('A', 'C', 5n, idGen.next().value);
+
+    debtSimplifier.remove(1);
+
+    const replayed = new DebtSimplifier();
+    replayed.add('C', 'A', 10n, 0);
+    replayed.add('A', 'B', 10n, 2);
+    replayed.add('B', 'A', 3n, 3);
+    replayed.add('A', 'C', 5n, 4);
+
+    expect(withoutSequences(debtSimplifier.toJSON())).toBe(
+      withoutSequences(replayed.toJSON()),
+    );
+  });
+
+  it('should drop the relation when its last expense is removed', () => {
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+
+    debtSimplifier.remove(0);
+
+    expect(debtSimplifier.getCreditors().size).toBe(0);
+  });
+
+  it('should update the amount of an expense', () => {
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 7n, idGen.next().value);
+
+    debtSimplifier.update(1, 12n);
+
+    const creditors = debtSimplifier.getCreditors();
+
+    expect(creditors.get('A')?.get('B')?.owes).toBe(0n);
+    expect(creditors.get('B')?.get('A')?.owes).toBe(2n);
+  });
+
+  it('should update the amount of a single debtor of a shared expense', () => {
+    const expenseId = idGen.next().value;
+    debtSimplifier.add('A', 'B', 10n, expenseId);
+    debtSimplifier.add('A', 'C', 10n, expenseId);
+
+    expect(() => debtSimplifier.update(expenseId, 4n)).toThrow();
+
+    debtSimplifier.update(expenseId, 4n, 'C');
+
+    const creditors = debtSimplifier.getCreditors();
+
+    expect(creditors.get('A')?.get('B')?.owes).toBe(10n);
+    expect(creditors.get('A')?.get('C')?.owes).toBe(4n);
+  });
+
+  it('should throw when removing or updating a missing expense', () => {
+    expect(() => debtSimplifier.remove(42)).toThrow();
+    expect(() => debtSimplifier.update(42, 10n)).toThrow();
+  });
+
+  it('should apply a partial payment to the oldest debts first', () => {
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 5n, idGen.next().value);
+
+    debtSimplifier.settle('A', 'B', 12n, 100);
+
+    const debtor = debtSimplifier.getCreditors().get('A')?.get('B');
+
+    expect(debtor.owes).toBe(3n);
+    expect(debtor.debts.find((e) => e.expenseId === 0).history.at(-1)).toEqual({
+      expenseId: 0,
+      settlementId: 100,
+      sequence: 3,
+      grants: -10n,
+      amount: 0n,
+    });
+    expect(debtor.debts.find((e) => e.expenseId === 1).history.at(-1)).toEqual({
+      expenseId: 1,
+      settlementId: 100,
+      sequence: 3,
+      grants: -2n,
+      amount: 3n,
+    });
+  });
+
+  it('should apply a full payment', () => {
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 4n, idGen.next().value);
+
+    debtSimplifier.settle('A', 'B', 6n, 100);
+
+    const creditors = debtSimplifier.getCreditors();
+
+    expect(creditors.get('A')?.get('B')?.owes).toBe(0n);
+    expect(creditors.get('B')?.get('A')?.owes).toBe(0n);
+  });
+
+  it('should reject payments exceeding the debt', () => {
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+
+    expect(() => debtSimplifier.settle('A', 'B', 11n, 100)).toThrow();
+    expect(() => debtSimplifier.settle('B', 'A', 1n, 100)).toThrow();
+    expect(debtSimplifier.getCreditors().get('A')?.get('B')?.owes).toBe(10n);
+  });
+
+  it('should reverse a settlement', () => {
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+    const before = debtSimplifier.toJSON();
+
+    debtSimplifier.settle('A', 'B', 4n, 100);
+    debtSimplifier.unsettle(100);
+
+    expect(debtSimplifier.toJSON()).toBe(before);
+  });
+
+  it('should keep settlements when removing an expense', () => {
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 5n, idGen.next().value);
+    debtSimplifier.settle('A', 'B', 8n, 100);
+
+    debtSimplifier.remove(1);
+
+    expect(debtSimplifier.getCreditors().get('A')?.get('B')?.owes).toBe(2n);
+  });
+
+  it('should refuse to remove an expense the settlements depend on', () => {
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('A', 'B', 5n, idGen.next().value);
+    debtSimplifier.settle('A', 'B', 12n, 100);
+    const before = debtSimplifier.toJSON();
+
+    expect(() => debtSimplifier.remove(1)).toThrow();
+    expect(debtSimplifier.toJSON()).toBe(before);
+  });
+
+  it('should replay settlements before expenses which came later', () => {
+    debtSimplifier.add('A', 'B', 10n, 0);
+    debtSimplifier.settle('A', 'B', 10n, 100);
+    debtSimplifier.add('B', 'A', 10n, 1);
+
+    debtSimplifier.update(1, 10n);
+    debtSimplifier.update(1, 12n);
+    expect(debtSimplifier.getCreditors().get('B')?.get('A')?.owes).toBe(12n);
+    expect(debtSimplifier.verify()).toEqual([]);
+
+    debtSimplifier.remove(1);
+    expect(debtSimplifier.getNetBalance('A')).toBe(0n);
+    expect(debtSimplifier.getNetBalance('B')).toBe(0n);
+  });
+
+  it('should refuse to remove an expense an earlier payment went to', () => {
+    debtSimplifier.add('A', 'B', 10n, 0);
+    debtSimplifier.settle('A', 'B', 10n, 100);
+    debtSimplifier.add('B', 'A', 10n, 1);
+    const before = debtSimplifier.toJSON();
+
+    expect(() => debtSimplifier.remove(0)).toThrow(
+      'Settlement 100 of 10 exceeds the debt of B to A (0).',
+    );
+    expect(debtSimplifier.toJSON()).toBe(before);
+  });
+
+  it('should keep the order of expenses, and settlements after loading', () => {
+    debtSimplifier.add('A', 'B', 10n, 0);
+    debtSimplifier.settle('A', 'B', 10n, 100);
+
+    const loaded = new DebtSimplifier();
+    loaded.fromJSON(debtSimplifier.toJSON());
+    loaded.add('B', 'A', 10n, 1);
+    loaded.update(1, 12n);
+
+    expect(loaded.getCreditors().get('B')?.get('A')?.owes).toBe(12n);
+  });
+
+  it('should replace debts of an expense as if they were added in the first place', () => {
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+    debtSimplifier.add('B', 'A', 4n, idGen.next().value);
+    debtSimplifier.add('A', 'C', 6n, 1);
+
+    debtSimplifier.replace(1, [
+      { creditorId: 'B', debtorId: 'A', debtorOwes: 3n },
+      { creditorId: 'C', debtorId: 'A', debtorOwes: 2n },
+    ]);
+
+    const replayed = new DebtSimplifier();
+    replayed.add('A', 'B', 10n, 0);
+    replayed.add('B', 'A', 3n, 1);
+    replayed.add('C', 'A', 2n, 1);
+
+    const creditors = debtSimplifier.getCreditors();
+
+    expect(creditors.get('A')?.get('B')?.owes).toBe(7n);
+    expect(creditors.get('C')?.get('A')?.owes).toBe(2n);
+    expect(creditors.get('A')?.get('C')?.owes).toBe(0n);
+    expect(replayed.getCreditors().get('A')?.get('B')).toEqual(
+      creditors.get('A')?.get('B'),
+    );
+  });
+
+  it('should keep settlements when replacing debts of an expense', () => {
+    debtSimplifier.add('A', 'B', 10n, idGen.next().value);
+    debtSimplifier.settle('A', 'B', 10n, 100);
+
+    debtSimplifier.replace(0, [
+      { creditorId: 'A', debtorId: 'B', debtorOwes: 12n },
+    ]);
+
+    expect(debtSimplifier.getCreditors().get('A')?.get('B')?.owes).toBe(2n);
+  });
+
+  it('should net amounts beyond safe integers exactly', () => {
+    const large = BigInt(Number.MAX_SAFE_INTEGER) * 10n;
+    debtSimplifier.add('A', 'B', large + 3n, 0);
+    debtSimplifier.add('B', 'A', large, 1);
+
+    const creditors = debtSimplifier.getCreditors();
+
+    expect(creditors.get('A')?.get('B')?.owes).toBe(3n);
+    expect(debtSimplifier.getNetBalance('B')).toBe(-3n);
+    expect(debtSimplifier.verify()).toEqual([]);
+  });
+
+  it('should replace debts of an expense it has not recorded yet', () => {
+    debtSimplifier.replace(0, [
+      { creditorId: 'A', debtorId: 'B', debtorOwes: 6n },
+      { creditorId: 'A', debtorId: 'C', debtorOwes: 4n },
+    ]);
+
+    expect(debtSimplifier.hasExpense(0)).toBe(true);
+    expect(debtSimplifier.getNetBalance('A')).toBe(10n);
+    expect(debtSimplifier.getNetBalance('B')).toBe(-6n);
+  });
+
+  it('should archive fully settled debts when compacting', () => {
+    debtSimplifier.add('A', 'B', 10n, 0);
+    debtSimplifier.add('A', 'B', 5n, 1);
+    debtSimplifier.settle('A', 'B', 10n, 100);
+
+    debtSimplifier.compact();
+
+    const debtor = debtSimplifier.getCreditors().get('A').get('B');
+    expect(debtor.owes).toBe(5n);
+    expect(debtor.debts.map(({ expenseId }) => expenseId)).toEqual([1]);
+    expect(debtor.archived.map(({ expenseId }) => expenseId)).toEqual([0]);
+    expect(debtSimplifier.hasSettlement(100)).toBe(true);
+    expect(debtSimplifier.verify()).toEqual([]);
+  });
+
+  it('should bring archived debts back when their expense changes', () => {
+    debtSimplifier.add('A', 'B', 10n, 0);
+    debtSimplifier.settle('A', 'B', 10n, 100);
+    debtSimplifier.compact();
+
+    debtSimplifier.update(0, 12n);
+
+    const debtor = debtSimplifier.getCreditors().get('A').get('B');
+    expect(debtor.owes).toBe(2n);
+    expect(debtor.archived).toBeUndefined();
+    expect(debtSimplifier.verify()).toEqual([]);
+
+    debtSimplifier.unsettle(100);
+    expect(debtSimplifier.getCreditors().get('A').get('B').owes).toBe(12n);
+  });
+
+  it('should bring archived debts back as copies, leaving archived ones as they were', () => {
+    debtSimplifier.add('A', 'B', 10n, 0);
+    debtSimplifier.settle('A', 'B', 10n, 100);
+    debtSimplifier.compact();
+    const [{ debt: archived }] = debtSimplifier.getArchivedDebts();
+
+    debtSimplifier.add('A', 'B', 2n, 0);
+
+    const debtor = debtSimplifier.getCreditors().get('A').get('B');
+    expect(debtor.owes).toBe(2n);
+    expect(debtor.debts).toEqual([
+      expect.objectContaining({ expenseId: 0, history: expect.any(Array) }),
+    ]);
+    expect(debtor.debts[0]).not.toBe(archived);
+    expect(archived.history).toHaveLength(2);
+    expect(debtSimplifier.verify()).toEqual([]);
+  });
+
+  it('should explain a debt by its expenses, nettings, and settlements', () => {
+    debtSimplifier.add('A', 'B', 10n, 0);
+    debtSimplifier.add('B', 'A', 4n, 1);
+    debtSimplifier.settle('A', 'B', 2n, 100);
+
+    expect(debtSimplifier.explain('A', 'B')).toEqual({
+      creditorId: 'A',
+      debtorId: 'B',
+      owes: 4n,
+      debts: [
+        {
+          expenseId: 0,
+          sequence: 1,
+          amount: 4n,
+          steps: [
+            { type: 'expense', expenseId: 0, grants: 10n, amount: 10n },
+            {
+              type: 'netting',
+              counterpartExpenseId: 1,
+              grants: -4n,
+              amount: 6n,
+            },
+            { type: 'settlement', settlementId: 100, grants: -2n, amount: 4n },
+          ],
+        },
+      ],
+    });
+    expect(debtSimplifier.explain('B', 'A')).toEqual({
+      creditorId: 'B',
+      debtorId: 'A',
+      owes: 0n,
+      debts: [
+        {
+          expenseId: 1,
+          sequence: 2,
+          amount: 0n,
+          steps: [
+            { type: 'expense', expenseId: 1, grants: 4n, amount: 4n },
+            {
+              type: 'netting',
+              counterpartExpenseId: 0,
+              grants: -4n,
+              amount: 0n,
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should explain debts in the order their expenses were recorded', () => {
+    debtSimplifier.add('A', 'B', 10n, 5);
+    debtSimplifier.add('A', 'B', 4n, 2);
+    debtSimplifier.update(5, 12n);
+
+    expect(
+      debtSimplifier
+        .explain('A', 'B')
+        .debts.map(({ expenseId, sequence }) => [expenseId, sequence]),
+    ).toEqual([
+      [5, 1],
+      [2, 2],
+    ]);
+  });
+
+  it('should explain a missing relation as owing nothing', () => {
+    debtSimplifier.add('A', 'B', 10n, 0);
+
+    expect(debtSimplifier.explain('A', 'C')).toEqual({
+      creditorId: 'A',
+      debtorId: 'C',
+      owes: 0n,
+      debts: [],
+    });
+  });
+
+  it('should verify a consistent state', () => {
+    debtSimplifier.add('A', 'B', 10n, 0);
+    debtSimplifier.add('B', 'A', 4n, 1);
+    debtSimplifier.add('C', 'A', 3n, 2);
+    debtSimplifier.settle('A', 'B', 2n, 100);
+
+    expect(debtSimplifier.verify()).toEqual([]);
+  });
+
+  it('should report broken invariants', () => {
+    debtSimplifier.add('A', 'B', 10n, 0);
+    debtSimplifier.add('B', 'A', 4n, 1);
+
+    const debtor = debtSimplifier.getCreditors().get('A').get('B');
+    debtor.owes = 7n;
+    debtor.debts[0].history.push({ expenseId: 5, grants: -1n, amount: 5n });
+
+    expect(debtSimplifier.verify()).toEqual([
+      'B owing A for expense 0 has been netted by -1 against expense 5, which has been netted by 0.',
+      'B owing A owes 7, but debts amount to 5.',
+      'B owing A nets to 7, but expenses, and settlements net to 6.',
+      'A owing B nets to -7, but expenses, and settlements net to -6.',
+    ]);
+  });
+
+  it('should report relations missing the other way round', () => {
+    debtSimplifier.add('A', 'B', 10n, 0);
+    debtSimplifier.getCreditors().delete('B');
+
+    expect(debtSimplifier.verify()).toEqual([
+      'B owing A has no counterpart relation.',
+    ]);
+  });
 });
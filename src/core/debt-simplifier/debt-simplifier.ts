@@ -1,4 +1,13 @@
-import { nestedMapReplacer, nestedMapReviver } from '../../utils/json';
+import { bigIntReplacer } from '../../utils/json';
+import { CurrencyCode } from '../currency/exchange-rates';
+import { Money, compareMoney, minMoney, sumMoney } from '../currency/money';
+import {
+  DebtSimplifierSnapshot,
+  SNAPSHOT_VERSION,
+  SnapshotError,
+  parseDebtSimplifierSnapshot,
+  toCreditorSnapshots,
+} from './snapshot';
 
 export type ExpenseId = number;
 
@@ -6,48 +15,755 @@ export type CreditorId = string;
 
 export type DebtorId = string;
 
-interface DebtTransaction {
+export type SettlementId = number;
+
+export interface DebtTransaction {
   expenseId: ExpenseId;
-  grants: number;
-  amount: number;
+  /**
+   * Present when the debtor paid the creditor back. The `expenseId` is then
+   * the id of the expense the payment went to.
+   */
+  settlementId?: SettlementId;
+  /**
+   * Order the expense, or the payment has been recorded in, present on what
+   * the expense itself granted, and on payments. Relations are replayed in
+   * this order, see `rewind`.
+   */
+  sequence?: number;
+  grants: Money;
+  amount: Money;
 }
 
 export interface Debt {
   expenseId: ExpenseId;
+  currencyCode?: CurrencyCode;
   history: DebtTransaction[];
 }
 
 export interface Debtor {
-  owes: number;
+  owes: Money;
+  /**
+   * Debts sorted ascending by amount, and by expense id descending among
+   * equal amounts, so that netting covers older expenses first.
+   */
   debts: Debt[];
+  /**
+   * Fully settled debts moved out of `debts` by compaction, along with
+   * their histories.
+   */
+  archived?: Debt[];
+}
+
+/**
+ * Archived debt of the relation of the debtor owing the creditor.
+ */
+export interface ArchivedDebt {
+  creditorId: CreditorId;
+  debtorId: DebtorId;
+  debt: Debt;
 }
 
 export type DebtorsMap = Map<DebtorId, Debtor>;
 
 export type CreditorsMap = Map<CreditorId, DebtorsMap>;
 
+export interface Transfer {
+  from: DebtorId;
+  to: CreditorId;
+  amount: Money;
+  expenseIds: ExpenseId[];
+}
+
+export interface ExpenseDebt {
+  creditorId: CreditorId;
+  debtorId: DebtorId;
+  debtorOwes: Money;
+}
+
+export type ExplanationStep =
+  | {
+      type: 'expense';
+      expenseId: ExpenseId;
+      grants: Money;
+      amount: Money;
+    }
+  | {
+      /**
+       * The debt has been netted against a debt of the counterpart
+       * expense, which the creditor owes the debtor.
+       */
+      type: 'netting';
+      counterpartExpenseId: ExpenseId;
+      grants: Money;
+      amount: Money;
+    }
+  | {
+      type: 'settlement';
+      settlementId: SettlementId;
+      grants: Money;
+      amount: Money;
+    };
+
+export interface DebtExplanation {
+  expenseId: ExpenseId;
+  /**
+   * Order the expense was recorded in, missing for expenses recorded before
+   * the ledger kept it.
+   */
+  sequence?: number;
+  amount: Money;
+  steps: ExplanationStep[];
+}
+
+export interface BalanceExplanation {
+  creditorId: CreditorId;
+  debtorId: DebtorId;
+  owes: Money;
+  debts: DebtExplanation[];
+}
+
+interface RecordedExpense extends ExpenseDebt {
+  expenseId: ExpenseId;
+  sequence?: number;
+}
+
+interface RecordedSettlement {
+  creditorId: CreditorId;
+  debtorId: DebtorId;
+  amount: Money;
+  settlementId: SettlementId;
+  sequence?: number;
+}
+
+interface OutstandingDebt {
+  expenseId: ExpenseId;
+  amount: Money;
+}
+
+const identity = <T>(value: T) => value;
+
+/**
+ * Number of fully settled debts a relation keeps among its `debts`, before
+ * they are archived.
+ */
+const COMPACTION_THRESHOLD = 32;
+
 export class DebtSimplifier {
-  private creditors: CreditorsMap = new Map();
+  /**
+   * Relations every expense has debts in, built on first use, and dropped
+   * whenever relations are rebuilt.
+   */
+  private expenseRelations: Map<ExpenseId, [CreditorId, DebtorId][]> | null =
+    null;
 
-  constructor() {}
+  /**
+   * Sequence of the latest expense, or payment, found on first use.
+   */
+  private lastSequence: number | null = null;
 
-  toJSON() {
-    return JSON.stringify(this.creditors, nestedMapReplacer);
+  /**
+   * Debts are netted only within a single currency. Keep a simplifier per
+   * currency, see `MultiCurrencyDebtSimplifier`.
+   */
+  constructor(
+    private currencyCode?: CurrencyCode,
+    private creditors: CreditorsMap = new Map(),
+  ) {
+    this.sortAllDebts();
+  }
+
+  getCurrencyCode() {
+    return this.currencyCode;
   }
 
+  /**
+   * Writes the latest version of `DebtSimplifierSnapshot`. Archived debts are
+   * left out when they are stored on their own, see `getArchivedDebts`.
+   */
+  toJSON({ archived = true } = {}) {
+    const snapshot: DebtSimplifierSnapshot = {
+      version: SNAPSHOT_VERSION,
+      currencyCode: this.currencyCode,
+      creditors: toCreditorSnapshots(this.creditors, { archived }),
+    };
+    return JSON.stringify(snapshot, bigIntReplacer);
+  }
+
+  /**
+   * Loads a snapshot of any supported version, validating it first.
+   *
+   * @throws SnapshotError when the snapshot is malformed, inconsistent,
+   * or of another currency.
+   */
   fromJSON(json: string) {
-    this.creditors = JSON.parse(json, nestedMapReviver);
+    const { currencyCode, creditors } = parseDebtSimplifierSnapshot(json);
+    if (
+      this.currencyCode &&
+      currencyCode &&
+      currencyCode !== this.currencyCode
+    ) {
+      throw new SnapshotError(
+        `Expected a snapshot of ${this.currencyCode}, but got ${currencyCode}.`,
+      );
+    }
+
+    this.currencyCode ??= currencyCode;
+    this.creditors = creditors;
+    this.expenseRelations = null;
+    this.lastSequence = null;
+    this.sortAllDebts();
   }
 
   getCreditors() {
     return this.creditors;
   }
 
+  hasExpense(expenseId: ExpenseId) {
+    return this.getExpenseRelations().has(expenseId);
+  }
+
+  hasSettlement(settlementId: SettlementId) {
+    return this.findSettlementRelation(settlementId) !== null;
+  }
+
   add(
     creditorId: CreditorId,
     debtorId: DebtorId,
-    debtorOwes: number,
+    debtorOwes: Money,
     expenseId: ExpenseId,
+  ) {
+    this.addDebt(
+      creditorId,
+      debtorId,
+      debtorOwes,
+      expenseId,
+      this.nextSequence(),
+    );
+  }
+
+  /**
+   * Replaces every debt of the expense, as if the expense had been added with
+   * the new debts in the first place. Debts of a new expense are just added.
+   */
+  replace(expenseId: ExpenseId, debts: ExpenseDebt[]) {
+    for (const debt of debts) {
+      if (debt.debtorOwes <= 0n) {
+        throw new Error(
+          `Expected a positive amount of expense ${expenseId}, but got ${debt.debtorOwes}.`,
+        );
+      }
+    }
+
+    if (!this.hasExpense(expenseId)) {
+      const sequence = this.nextSequence();
+      for (const { creditorId, debtorId, debtorOwes } of debts) {
+        this.addDebt(creditorId, debtorId, debtorOwes, expenseId, sequence);
+      }
+      return;
+    }
+
+    // The expense keeps its place among expenses, and settlements.
+    const sequence = this.getExpenseSequence(expenseId);
+
+    const pairs = new Map<string, [CreditorId, DebtorId]>();
+    const addPair = (creditorId: CreditorId, debtorId: DebtorId) =>
+      pairs.set(JSON.stringify([creditorId, debtorId].sort()), [
+        creditorId,
+        debtorId,
+      ]);
+
+    for (const [creditorId, debtorId] of this.findExpenseRelations(expenseId)) {
+      addPair(creditorId, debtorId);
+    }
+    for (const { creditorId, debtorId } of debts) {
+      addPair(creditorId, debtorId);
+    }
+
+    this.rewindAll([...pairs.values()], (creditorId, debtorId) => {
+      const addedExpenses = debts
+        .filter(
+          (debt) =>
+            (debt.creditorId === creditorId && debt.debtorId === debtorId) ||
+            (debt.creditorId === debtorId && debt.debtorId === creditorId),
+        )
+        .map((debt) => ({ ...debt, expenseId, sequence }));
+
+      this.rewind(
+        creditorId,
+        debtorId,
+        (expense) => (expense.expenseId === expenseId ? null : expense),
+        identity,
+        addedExpenses,
+      );
+    });
+  }
+
+  /**
+   * Applies a payment of the debtor to the creditor against the outstanding
+   * debts, oldest expense first. The debtor can't pay more than they owe.
+   */
+  settle(
+    creditorId: CreditorId,
+    debtorId: DebtorId,
+    amount: Money,
+    settlementId: SettlementId,
+  ) {
+    this.paySettlement(
+      creditorId,
+      debtorId,
+      amount,
+      settlementId,
+      this.nextSequence(),
+    );
+  }
+
+  /**
+   * Reverses the settlement, as if the payment never happened.
+   */
+  unsettle(settlementId: SettlementId) {
+    const relation = this.findSettlementRelation(settlementId);
+    if (!relation) {
+      throw new Error(`Settlement ${settlementId} not found`);
+    }
+
+    const [creditorId, debtorId] = relation;
+    this.rewind(creditorId, debtorId, undefined, (settlement) =>
+      settlement.settlementId === settlementId ? null : settlement,
+    );
+  }
+
+  /**
+   * Removes the expense, and every grant it produced while netting debts.
+   */
+  remove(expenseId: ExpenseId) {
+    const relations = this.findExpenseRelations(expenseId);
+    if (!relations.length) {
+      throw new Error(`Expense ${expenseId} not found`);
+    }
+
+    this.rewindAll(relations, (creditorId, debtorId) =>
+      this.rewind(creditorId, debtorId, (expense) =>
+        expense.expenseId === expenseId ? null : expense,
+      ),
+    );
+  }
+
+  /**
+   * Changes the amount the debtor owes for the expense.
+   * The `debtorId` is required when the expense is shared by many debtors.
+   */
+  update(expenseId: ExpenseId, newAmount: Money, debtorId?: DebtorId) {
+    if (newAmount <= 0n) {
+      throw new Error(
+        `Expected a positive amount of expense ${expenseId}, but got ${newAmount}.`,
+      );
+    }
+
+    const relations = this.findExpenseRelations(expenseId).filter(
+      ([, relationDebtorId]) => !debtorId || relationDebtorId === debtorId,
+    );
+    if (!relations.length) {
+      throw new Error(`Expense ${expenseId} not found`);
+    }
+    if (relations.length > 1) {
+      throw new Error(
+        `Expense ${expenseId} is shared by ${relations.length} debtors. Specify the debtor to update.`,
+      );
+    }
+
+    const [[creditorId, relationDebtorId]] = relations;
+    this.rewind(creditorId, relationDebtorId, (expense) =>
+      expense.expenseId === expenseId && expense.creditorId === creditorId
+        ? { ...expense, debtorOwes: newAmount }
+        : expense,
+    );
+  }
+
+  /**
+   * Suggests a minimal set of transfers settling the whole group.
+   * Does not mutate the state, so every transfer can still be traced back
+   * to the expenses it pays off through the `history` of each debt.
+   *
+   * # Algorithm:
+   *
+   * __START__
+   * 1. Calculate the net balance of every person (owed minus owes).
+   * 2. Settle every debtor whose balance exactly matches a creditor's balance
+   *    with a single transfer.
+   * 3. Repeatedly match the biggest debtor with the biggest creditor,
+   *    transferring `min(debt, credit)` until everyone is settled.
+   * 4. Attribute each transfer to the outstanding debts of the debtor and
+   *    the outstanding credits of the creditor, oldest expense first.
+   *
+   * __END__
+   */
+  settleGroup(): Transfer[] {
+    const balances = this.getNetBalances();
+    const debtsOf = this.getOutstandingDebtsByDebtor();
+    const creditsOf = this.getOutstandingDebtsByCreditor();
+
+    const debtors = [...balances.entries()]
+      .filter(([, balance]) => balance < 0n)
+      .map(([id, balance]) => ({ id, amount: -balance }));
+    const creditors = [...balances.entries()]
+      .filter(([, balance]) => balance > 0n)
+      .map(([id, balance]) => ({ id, amount: balance }));
+
+    const transfers: Transfer[] = [];
+    const transfer = (from: DebtorId, to: CreditorId, amount: Money) => {
+      const expenseIds = new Set([
+        ...this.consumeOutstandingDebts(debtsOf.get(from) ?? [], amount),
+        ...this.consumeOutstandingDebts(creditsOf.get(to) ?? [], amount),
+      ]);
+      transfers.push({
+        from,
+        to,
+        amount,
+        expenseIds: [...expenseIds].sort((a, b) => a - b),
+      });
+    };
+
+    // Exact matches settle two people with a single transfer.
+    for (const debtor of debtors) {
+      const creditor = creditors.find(
+        (element) => element.amount > 0n && element.amount === debtor.amount,
+      );
+      if (creditor) {
+        transfer(debtor.id, creditor.id, debtor.amount);
+        debtor.amount = 0n;
+        creditor.amount = 0n;
+      }
+    }
+
+    const byAmountDescending = (a: { amount: Money }, b: { amount: Money }) =>
+      compareMoney(b.amount, a.amount);
+
+    while (true) {
+      debtors.sort(byAmountDescending);
+      creditors.sort(byAmountDescending);
+
+      const debtor = debtors[0];
+      const creditor = creditors[0];
+      if (
+        !debtor ||
+        !creditor ||
+        debtor.amount <= 0n ||
+        creditor.amount <= 0n
+      ) {
+        break;
+      }
+
+      const amount = minMoney(debtor.amount, creditor.amount);
+      transfer(debtor.id, creditor.id, amount);
+      debtor.amount -= amount;
+      creditor.amount -= amount;
+    }
+
+    return transfers;
+  }
+
+  /**
+   * Net balance of every person in the group.
+   * Positive when the person is owed money, negative when the person owes.
+   */
+  getNetBalances() {
+    const balances = new Map<CreditorId | DebtorId, Money>();
+
+    for (const [creditorId, debtors] of this.creditors) {
+      for (const [debtorId, debtor] of debtors) {
+        balances.set(
+          creditorId,
+          (balances.get(creditorId) ?? 0n) + debtor.owes,
+        );
+        balances.set(debtorId, (balances.get(debtorId) ?? 0n) - debtor.owes);
+      }
+    }
+
+    return balances;
+  }
+
+  /**
+   * Net balance of the person, without going through every relation.
+   */
+  getNetBalance(personId: CreditorId | DebtorId) {
+    let balance = 0n;
+    for (const debtor of this.creditors.get(personId)?.values() ?? []) {
+      balance += debtor.owes;
+    }
+    for (const debtors of this.creditors.values()) {
+      balance -= debtors.get(personId)?.owes ?? 0n;
+    }
+    return balance;
+  }
+
+  /**
+   * Archives fully settled debts of every relation. Netting, and settlements
+   * go through outstanding debts only, so that they do not slow down as
+   * the history grows. Relations archive their settled debts on their own
+   * once there are `COMPACTION_THRESHOLD` of them.
+   */
+  compact() {
+    for (const debtors of this.creditors.values()) {
+      for (const debtor of debtors.values()) {
+        this.archiveSettledDebts(debtor);
+      }
+    }
+  }
+
+  getArchivedDebts() {
+    const archived: ArchivedDebt[] = [];
+    for (const [creditorId, debtors] of this.creditors) {
+      for (const [debtorId, debtor] of debtors) {
+        for (const debt of debtor.archived ?? []) {
+          archived.push({ creditorId, debtorId, debt });
+        }
+      }
+    }
+    return archived;
+  }
+
+  /**
+   * Brings back archived debts left out of the snapshot the state has been
+   * loaded from, see `toCreditorSnapshots`.
+   *
+   * @throws SnapshotError when the relation of a debt is missing, or has
+   * a debt of the same expense already.
+   */
+  restoreArchivedDebts(archived: ArchivedDebt[]) {
+    const expenseIds = new Map<Debtor, Set<ExpenseId>>();
+    for (const { creditorId, debtorId, debt } of archived) {
+      const debtor = this.creditors.get(creditorId)?.get(debtorId);
+      if (!debtor) {
+        throw new SnapshotError(
+          `Expected a relation of ${debtorId} owing ${creditorId} for the archived debt of expense ${debt.expenseId}.`,
+        );
+      }
+
+      let debtorExpenseIds = expenseIds.get(debtor);
+      if (!debtorExpenseIds) {
+        debtorExpenseIds = new Set(
+          this.getAllDebts(debtor).map(({ expenseId }) => expenseId),
+        );
+        expenseIds.set(debtor, debtorExpenseIds);
+      }
+      if (debtorExpenseIds.has(debt.expenseId)) {
+        throw new SnapshotError(
+          `Expected a single debt of expense ${debt.expenseId} of ${debtorId} owing ${creditorId}, but got another archived one.`,
+        );
+      }
+
+      debtorExpenseIds.add(debt.expenseId);
+      debtor.archived ??= [];
+      debtor.archived.push(debt);
+    }
+
+    this.expenseRelations = null;
+    this.lastSequence = null;
+  }
+
+  /**
+   * Explains what the debtor owes the creditor debt by debt, in the order
+   * the expenses were recorded: what the expense granted, every netting against the counterpart
+   * expenses, and every payment, along with the running amount.
+   */
+  explain(creditorId: CreditorId, debtorId: DebtorId): BalanceExplanation {
+    const debtor = this.creditors.get(creditorId)?.get(debtorId);
+
+    return {
+      creditorId,
+      debtorId,
+      owes: debtor?.owes ?? 0n,
+      debts: (debtor ? this.getAllDebts(debtor) : [])
+        .map((debt) => ({ debt, sequence: this.getDebtSequence(debt) }))
+        .sort(
+          (a, b) =>
+            (a.sequence ?? 0) - (b.sequence ?? 0) ||
+            a.debt.expenseId - b.debt.expenseId,
+        )
+        .map(({ debt, sequence }) => ({
+          expenseId: debt.expenseId,
+          ...(sequence !== undefined && { sequence }),
+          amount: this.getDebtAmount(debt),
+          steps: debt.history.map(
+            ({ expenseId, settlementId, grants, amount }): ExplanationStep => {
+              if (settlementId !== undefined) {
+                return { type: 'settlement', settlementId, grants, amount };
+              }
+              if (expenseId !== debt.expenseId) {
+                return {
+                  type: 'netting',
+                  counterpartExpenseId: expenseId,
+                  grants,
+                  amount,
+                };
+              }
+              return { type: 'expense', expenseId, grants, amount };
+            },
+          ),
+        })),
+    };
+  }
+
+  /**
+   * Checks invariants of the state, and describes every broken one. Nothing
+   * is returned when the state is consistent:
+   *
+   * - whoever owes a creditor is owed by the creditor as well, even if nothing,
+   * - amounts are non-negative, and every `amount` of a debt history is
+   *   the running sum of its `grants`,
+   * - debts are sorted, and archived ones are fully settled,
+   * - netting a debt against a counterpart expense grants the same amount
+   *   off the counterpart debt,
+   * - `owes` is the sum of the latest amounts of the debts,
+   * - money is conserved: what two people owe each other nets to what their
+   *   expenses granted, less what has been paid back.
+   */
+  verify() {
+    const violations: string[] = [];
+
+    for (const [creditorId, debtors] of this.creditors) {
+      for (const [debtorId, debtor] of debtors) {
+        const relation = `${debtorId} owing ${creditorId}`;
+        const counterpart = this.creditors.get(debtorId)?.get(creditorId);
+        if (!counterpart) {
+          violations.push(`${relation} has no counterpart relation.`);
+          continue;
+        }
+
+        for (const debt of this.getAllDebts(debtor)) {
+          let amount = 0n;
+          for (const transaction of debt.history) {
+            amount += transaction.grants;
+            if (transaction.amount !== amount) {
+              violations.push(
+                `${relation} for expense ${debt.expenseId} amounts to ${transaction.amount}, but grants sum up to ${amount}.`,
+              );
+            }
+            if (transaction.amount < 0n) {
+              violations.push(
+                `${relation} for expense ${debt.expenseId} amounts to a negative ${transaction.amount}.`,
+              );
+            }
+            if (
+              transaction.expenseId !== debt.expenseId &&
+              transaction.settlementId === undefined
+            ) {
+              const netted = this.getAllDebts(counterpart)
+                .find(({ expenseId }) => expenseId === transaction.expenseId)
+                ?.history.filter(
+                  ({ expenseId, settlementId }) =>
+                    expenseId === debt.expenseId && settlementId === undefined,
+                )
+                .reduce((sum, { grants }) => sum + grants, 0n);
+              const granted = debt.history
+                .filter(
+                  ({ expenseId, settlementId }) =>
+                    expenseId === transaction.expenseId &&
+                    settlementId === undefined,
+                )
+                .reduce((sum, { grants }) => sum + grants, 0n);
+              if (netted !== granted) {
+                violations.push(
+                  `${relation} for expense ${debt.expenseId} has been netted by ${granted} against expense ${transaction.expenseId}, which has been netted by ${netted ?? 0n}.`,
+                );
+              }
+            }
+          }
+        }
+
+        if (
+          debtor.debts.some(
+            (debt, index) =>
+              index > 0 && this.compareDebts(debtor.debts[index - 1], debt) > 0,
+          )
+        ) {
+          violations.push(`${relation} has debts out of order.`);
+        }
+        for (const debt of debtor.archived ?? []) {
+          if (this.getDebtAmount(debt) !== 0n) {
+            violations.push(
+              `${relation} for expense ${debt.expenseId} has been archived, but amounts to ${this.getDebtAmount(debt)}.`,
+            );
+          }
+        }
+
+        const total = sumMoney(
+          debtor.debts.map((debt) => this.getDebtAmount(debt)),
+        );
+        if (debtor.owes !== total) {
+          violations.push(
+            `${relation} owes ${debtor.owes}, but debts amount to ${total}.`,
+          );
+        }
+
+        const expected =
+          this.getGrantedAmount(creditorId, debtorId) -
+          this.getGrantedAmount(debtorId, creditorId);
+        if (debtor.owes - counterpart.owes !== expected) {
+          violations.push(
+            `${relation} nets to ${debtor.owes - counterpart.owes}, but expenses, and settlements net to ${expected}.`,
+          );
+        }
+      }
+    }
+
+    return [...new Set(violations)];
+  }
+
+  private paySettlement(
+    creditorId: CreditorId,
+    debtorId: DebtorId,
+    amount: Money,
+    settlementId: SettlementId,
+    sequence: number | undefined,
+  ) {
+    if (amount <= 0n) {
+      throw new Error(
+        `Expected a positive amount of settlement ${settlementId}, but got ${amount}.`,
+      );
+    }
+
+    const debtor = this.creditors.get(creditorId)?.get(debtorId);
+    if (!debtor || debtor.owes < amount) {
+      throw new Error(
+        `Settlement ${settlementId} of ${amount} exceeds the debt of ${debtorId} to ${creditorId} (${debtor?.owes ?? 0n}).`,
+      );
+    }
+
+    const debts = debtor.debts
+      .filter((debt) => this.getDebtAmount(debt) > 0n)
+      .sort((a, b) => a.expenseId - b.expenseId);
+    const paid: Debt[] = [];
+
+    for (const debt of debts) {
+      if (amount <= 0n) {
+        break;
+      }
+
+      const debtAmount = this.getDebtAmount(debt);
+      const grants = -minMoney(debtAmount, amount);
+
+      debt.history.push({
+        expenseId: debt.expenseId,
+        settlementId,
+        ...(sequence !== undefined && { sequence }),
+        grants,
+        amount: debtAmount + grants,
+      });
+      debtor.owes += grants;
+      amount += grants;
+      paid.push(debt);
+    }
+
+    this.reposition(debtor.debts, paid);
+  }
+
+  private addDebt(
+    creditorId: CreditorId,
+    debtorId: DebtorId,
+    debtorOwes: Money,
+    expenseId: ExpenseId,
+    sequence: number | undefined,
   ) {
     this.ensureTwoWayRelation(creditorId, debtorId);
 
@@ -57,11 +773,28 @@ export class DebtSimplifier {
       expenseId,
       expenseId,
       debtorOwes,
+      sequence,
     );
 
     this.simplify(creditorId, debtorId);
   }
 
+  private nextSequence() {
+    if (this.lastSequence === null) {
+      this.lastSequence = 0;
+      for (const debtors of this.creditors.values()) {
+        for (const debtor of debtors.values()) {
+          for (const debt of this.getAllDebts(debtor)) {
+            for (const { sequence } of debt.history) {
+              this.lastSequence = Math.max(this.lastSequence, sequence ?? 0);
+            }
+          }
+        }
+      }
+    }
+    return ++this.lastSequence;
+  }
+
   /**
    * # Algorithm:
    *
@@ -93,9 +826,7 @@ export class DebtSimplifier {
       );
     }
 
-    this.sortDebtsAscending(creditorId, debtorId);
-
-    // Always take the most expensive debt
+    // Always take the most expensive debt, debts are kept sorted both ways.
     const debtA = A.debts.at(-1);
     if (!debtA) {
       return;
@@ -108,26 +839,22 @@ export class DebtSimplifier {
       this.getDebtAmount,
     );
     let debtBIndex = debtBRightmostIndexForX;
-    let debtBIndexPrefixSum = B.debts
-      .slice(0, debtBIndex + 1)
-      .reduce((sum, debt) => sum + this.getDebtAmount(debt), 0);
+    const nettedB: Debt[] = [];
 
-    while (X > 0) {
+    while (X > 0n) {
       if (debtBIndex < 0) {
         break;
       }
 
       const debtB = B.debts[debtBIndex];
       const Y = this.getDebtAmount(debtB);
-      if (Y <= 0) {
+      if (Y <= 0n) {
         break;
       }
 
-      debtBIndexPrefixSum -= Y;
-
-      const newY = Math.max(Y - X, 0);
+      const newY = Y > X ? Y - X : 0n;
       const newX = X - (Y - newY);
-      const grants = -1 * (X - newX);
+      const grants = -(X - newX);
 
       A.owes += grants;
       debtA.history.push({
@@ -144,14 +871,443 @@ export class DebtSimplifier {
       });
 
       X = newX;
+      nettedB.push(debtB);
 
       // Cover as much small expenses as possible. Otherwise, add to the next closest expense.
-      if (debtBIndexPrefixSum > 0) {
+      // Debts of `B` are sorted, so whatever precedes is outstanding if the previous one is.
+      if (debtBIndex > 0 && this.getDebtAmount(B.debts[debtBIndex - 1]) > 0n) {
         debtBIndex--;
       } else {
         debtBIndex = Math.min(debtBRightmostIndexForX + 1, B.debts.length - 1);
       }
     }
+
+    if (nettedB.length) {
+      this.reposition(A.debts, [debtA]);
+      this.reposition(B.debts, nettedB);
+      this.archiveSettledDebts(A, COMPACTION_THRESHOLD);
+      this.archiveSettledDebts(B, COMPACTION_THRESHOLD);
+    }
+  }
+
+  /**
+   * Moves debts which amounts changed to where they belong among the sorted
+   * debts, without sorting all of them again.
+   */
+  private reposition(debts: Debt[], changed: Debt[]) {
+    if (!changed.length) {
+      return;
+    }
+
+    const moved = new Set(changed);
+    let length = 0;
+    for (const debt of debts) {
+      if (!moved.has(debt)) {
+        debts[length++] = debt;
+      }
+    }
+    debts.length = length;
+
+    for (const debt of moved) {
+      debts.splice(this.findInsertionIndex(debts, debt), 0, debt);
+    }
+  }
+
+  private findInsertionIndex(debts: Debt[], debt: Debt) {
+    let start = 0;
+    let end = debts.length;
+    while (start < end) {
+      const mid = start + Math.floor((end - start) / 2);
+      if (this.compareDebts(debts[mid], debt) < 0) {
+        start = mid + 1;
+      } else {
+        end = mid;
+      }
+    }
+    return start;
+  }
+
+  /**
+   * Ascending by amount, and by expense id descending among equal amounts.
+   */
+  private compareDebts(a: Debt, b: Debt) {
+    return (
+      compareMoney(this.getDebtAmount(a), this.getDebtAmount(b)) ||
+      b.expenseId - a.expenseId
+    );
+  }
+
+  private sortAllDebts() {
+    for (const debtors of this.creditors.values()) {
+      for (const debtor of debtors.values()) {
+        debtor.debts.sort((a, b) => this.compareDebts(a, b));
+      }
+    }
+  }
+
+  /**
+   * Archives fully settled debts of the relation, once there are at least
+   * `threshold` of them. They precede outstanding ones, as debts are sorted.
+   */
+  private archiveSettledDebts(debtor: Debtor, threshold = 1) {
+    let settled = 0;
+    while (
+      settled < debtor.debts.length &&
+      this.getDebtAmount(debtor.debts[settled]) === 0n
+    ) {
+      settled++;
+    }
+    if (settled < threshold) {
+      return;
+    }
+
+    debtor.archived ??= [];
+    for (const debt of debtor.debts.splice(0, settled)) {
+      debtor.archived.push(debt);
+    }
+  }
+
+  private getAllDebts(debtor: Debtor) {
+    return debtor.archived?.length
+      ? [...debtor.archived, ...debtor.debts]
+      : [...debtor.debts];
+  }
+
+  private getOutstandingDebtsByDebtor() {
+    const outstanding = new Map<DebtorId, OutstandingDebt[]>();
+
+    for (const debtors of this.creditors.values()) {
+      for (const [debtorId, debtor] of debtors) {
+        const debts = outstanding.get(debtorId) ?? [];
+        debts.push(...this.getOutstandingDebts(debtor));
+        outstanding.set(debtorId, debts);
+      }
+    }
+
+    for (const debts of outstanding.values()) {
+      debts.sort((a, b) => a.expenseId - b.expenseId);
+    }
+
+    return outstanding;
+  }
+
+  private getOutstandingDebtsByCreditor() {
+    const outstanding = new Map<CreditorId, OutstandingDebt[]>();
+
+    for (const [creditorId, debtors] of this.creditors) {
+      const debts = [...debtors.values()].flatMap((debtor) =>
+        this.getOutstandingDebts(debtor),
+      );
+      debts.sort((a, b) => a.expenseId - b.expenseId);
+      outstanding.set(creditorId, debts);
+    }
+
+    return outstanding;
+  }
+
+  private getOutstandingDebts(debtor: Debtor): OutstandingDebt[] {
+    return debtor.debts
+      .map((debt) => ({
+        expenseId: debt.expenseId,
+        amount: this.getDebtAmount(debt),
+      }))
+      .filter((debt) => debt.amount > 0n);
+  }
+
+  /**
+   * Removes `amount` from the front of the `debts` queue.
+   * Returns ids of the expenses the amount has been attributed to.
+   */
+  private consumeOutstandingDebts(debts: OutstandingDebt[], amount: Money) {
+    const expenseIds: ExpenseId[] = [];
+
+    while (amount > 0n && debts.length) {
+      const debt = debts[0];
+      const consumed = minMoney(debt.amount, amount);
+
+      expenseIds.push(debt.expenseId);
+      debt.amount -= consumed;
+      amount -= consumed;
+
+      if (debt.amount <= 0n) {
+        debts.shift();
+      }
+    }
+
+    return expenseIds;
+  }
+
+  /**
+   * Rebuilds both directions of the relation between creditor and debtor,
+   * replaying the recorded expenses, and settlements in the order they have
+   * been recorded in. Entries recorded before sequences go first, expenses
+   * in order of their ids, and then settlements in order of their ids.
+   * The callbacks may alter an entry, or drop it by returning `null`.
+   * The relation is left untouched if the replay fails.
+   */
+  private rewind(
+    creditorId: CreditorId,
+    debtorId: DebtorId,
+    mapExpense: (expense: RecordedExpense) => RecordedExpense | null = identity,
+    mapSettlement: (
+      settlement: RecordedSettlement,
+    ) => RecordedSettlement | null = identity,
+    addedExpenses: RecordedExpense[] = [],
+  ) {
+    const expenses = [
+      ...this.getRecordedExpenses(creditorId, debtorId),
+      ...this.getRecordedExpenses(debtorId, creditorId),
+    ]
+      .map(mapExpense)
+      .concat(addedExpenses)
+      .filter((expense): expense is RecordedExpense => expense !== null);
+    const settlements = [
+      ...this.getRecordedSettlements(creditorId, debtorId),
+      ...this.getRecordedSettlements(debtorId, creditorId),
+    ]
+      .map(mapSettlement)
+      .filter(
+        (settlement): settlement is RecordedSettlement => settlement !== null,
+      );
+    const entries = [
+      ...expenses.map((expense) => ({
+        sequence: expense.sequence ?? 0,
+        kind: 0,
+        id: expense.expenseId,
+        replay: () =>
+          this.addDebt(
+            expense.creditorId,
+            expense.debtorId,
+            expense.debtorOwes,
+            expense.expenseId,
+            expense.sequence,
+          ),
+      })),
+      ...settlements.map((settlement) => ({
+        sequence: settlement.sequence ?? 0,
+        kind: 1,
+        id: settlement.settlementId,
+        replay: () =>
+          this.paySettlement(
+            settlement.creditorId,
+            settlement.debtorId,
+            settlement.amount,
+            settlement.settlementId,
+            settlement.sequence,
+          ),
+      })),
+    ].sort((a, b) => a.sequence - b.sequence || a.kind - b.kind || a.id - b.id);
+
+    const previousA = this.creditors.get(creditorId)?.get(debtorId);
+    const previousB = this.creditors.get(debtorId)?.get(creditorId);
+
+    this.deleteDebtor(creditorId, debtorId);
+    this.deleteDebtor(debtorId, creditorId);
+
+    try {
+      for (const entry of entries) {
+        entry.replay();
+      }
+    } catch (error) {
+      this.restoreRelation(creditorId, debtorId, previousA, previousB);
+      throw error;
+    }
+  }
+
+  /**
+   * Rewinds every relation, or none of them, if any rewind fails.
+   */
+  private rewindAll(
+    relations: [CreditorId, DebtorId][],
+    rewind: (creditorId: CreditorId, debtorId: DebtorId) => void,
+  ) {
+    const previous = relations.map(
+      ([creditorId, debtorId]) =>
+        [
+          creditorId,
+          debtorId,
+          this.creditors.get(creditorId)?.get(debtorId),
+          this.creditors.get(debtorId)?.get(creditorId),
+        ] as const,
+    );
+
+    try {
+      for (const [creditorId, debtorId] of relations) {
+        rewind(creditorId, debtorId);
+      }
+    } catch (error) {
+      for (const [creditorId, debtorId, previousA, previousB] of previous) {
+        this.restoreRelation(creditorId, debtorId, previousA, previousB);
+      }
+      throw error;
+    }
+  }
+
+  private restoreRelation(
+    creditorId: CreditorId,
+    debtorId: DebtorId,
+    previousA: Debtor | undefined,
+    previousB: Debtor | undefined,
+  ) {
+    this.deleteDebtor(creditorId, debtorId);
+    this.deleteDebtor(debtorId, creditorId);
+    if (previousA && previousB) {
+      this.ensureTwoWayRelation(creditorId, debtorId);
+      this.creditors.get(creditorId).set(debtorId, previousA);
+      this.creditors.get(debtorId).set(creditorId, previousB);
+    }
+  }
+
+  private getRecordedExpenses(
+    creditorId: CreditorId,
+    debtorId: DebtorId,
+  ): RecordedExpense[] {
+    const debtor = this.creditors.get(creditorId)?.get(debtorId);
+    if (!debtor) {
+      return [];
+    }
+
+    return this.getAllDebts(debtor).map((debt) => ({
+      creditorId,
+      debtorId,
+      expenseId: debt.expenseId,
+      debtorOwes: sumMoney(this.getGrants(debt).map(({ grants }) => grants)),
+      sequence: this.getDebtSequence(debt),
+    }));
+  }
+
+  /**
+   * Grants of the debt's own expense are the only positive entries, netting
+   * against counterpart expenses always grants a negative amount.
+   */
+  private getGrants(debt: Debt) {
+    return debt.history.filter(
+      (transaction) =>
+        transaction.expenseId === debt.expenseId &&
+        transaction.settlementId === undefined &&
+        transaction.grants > 0n,
+    );
+  }
+
+  private getDebtSequence(debt: Debt) {
+    return this.getGrants(debt).find(({ sequence }) => sequence !== undefined)
+      ?.sequence;
+  }
+
+  /**
+   * What the expenses of the creditor granted, less what the debtor paid back.
+   */
+  private getGrantedAmount(creditorId: CreditorId, debtorId: DebtorId) {
+    const expenses = this.getRecordedExpenses(creditorId, debtorId);
+    const settlements = this.getRecordedSettlements(creditorId, debtorId);
+
+    return (
+      sumMoney(expenses.map(({ debtorOwes }) => debtorOwes)) -
+      sumMoney(settlements.map(({ amount }) => amount))
+    );
+  }
+
+  private getRecordedSettlements(
+    creditorId: CreditorId,
+    debtorId: DebtorId,
+  ): RecordedSettlement[] {
+    const debtor = this.creditors.get(creditorId)?.get(debtorId);
+    if (!debtor) {
+      return [];
+    }
+
+    const settlements = new Map<SettlementId, RecordedSettlement>();
+    for (const debt of this.getAllDebts(debtor)) {
+      for (const { settlementId, sequence, grants } of debt.history) {
+        if (settlementId !== undefined) {
+          const settlement = settlements.get(settlementId) ?? {
+            creditorId,
+            debtorId,
+            amount: 0n,
+            settlementId,
+            sequence,
+          };
+          settlement.amount -= grants;
+          settlements.set(settlementId, settlement);
+        }
+      }
+    }
+
+    return [...settlements.values()];
+  }
+
+  private getExpenseSequence(expenseId: ExpenseId) {
+    for (const [creditorId, debtorId] of this.findExpenseRelations(expenseId)) {
+      const sequence = this.getRecordedExpenses(creditorId, debtorId).find(
+        (expense) => expense.expenseId === expenseId,
+      )?.sequence;
+      if (sequence !== undefined) {
+        return sequence;
+      }
+    }
+    return undefined;
+  }
+
+  private findSettlementRelation(
+    settlementId: SettlementId,
+  ): [CreditorId, DebtorId] | null {
+    for (const [creditorId, debtors] of this.creditors) {
+      for (const [debtorId, debtor] of debtors) {
+        const settled = this.getAllDebts(debtor).some((debt) =>
+          debt.history.some(
+            (transaction) => transaction.settlementId === settlementId,
+          ),
+        );
+        if (settled) {
+          return [creditorId, debtorId];
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private findExpenseRelations(expenseId: ExpenseId) {
+    return [...(this.getExpenseRelations().get(expenseId) ?? [])];
+  }
+
+  private getExpenseRelations() {
+    if (this.expenseRelations) {
+      return this.expenseRelations;
+    }
+
+    this.expenseRelations = new Map();
+    for (const [creditorId, debtors] of this.creditors) {
+      for (const [debtorId, debtor] of debtors) {
+        for (const { expenseId } of this.getAllDebts(debtor)) {
+          this.indexExpense(expenseId, creditorId, debtorId);
+        }
+      }
+    }
+    return this.expenseRelations;
+  }
+
+  private indexExpense(
+    expenseId: ExpenseId,
+    creditorId: CreditorId,
+    debtorId: DebtorId,
+  ) {
+    const relations = this.expenseRelations.get(expenseId) ?? [];
+    relations.push([creditorId, debtorId]);
+    this.expenseRelations.set(expenseId, relations);
+  }
+
+  private deleteDebtor(creditorId: CreditorId, debtorId: DebtorId) {
+    const creditor = this.creditors.get(creditorId);
+    if (!creditor) {
+      return;
+    }
+
+    this.expenseRelations = null;
+    creditor.delete(debtorId);
+    if (!creditor.size) {
+      this.creditors.delete(creditorId);
+    }
   }
 
   private upsertDebtTransaction(
@@ -159,47 +1315,84 @@ export class DebtSimplifier {
     debtorId: DebtorId,
     fromExpenseId: ExpenseId,
     toExpenseId: ExpenseId,
-    grants: number,
+    grants: Money,
+    sequence?: number,
   ) {
     const debtor = this.getDebtor(creditorId, debtorId);
     if (!debtor) {
       throw new Error(`Debtor ${debtorId} has not been created`);
     }
 
-    const getOrCreateDebt = () => {
-      const debt = debtor.debts.find(
-        (element) => element.expenseId === toExpenseId,
-      );
+    const debt =
+      this.findDebt(creditorId, debtorId, debtor, toExpenseId) ??
+      this.createDebt(creditorId, debtorId, toExpenseId);
 
-      if (!debt) {
-        debtor.debts.push({ expenseId: toExpenseId, history: [] });
-        return debtor.debts.at(-1);
-      }
+    const amount = this.getDebtAmount(debt);
+    debt.history.push({
+      expenseId: fromExpenseId,
+      ...(sequence !== undefined && { sequence }),
+      grants,
+      amount: amount + grants,
+    });
+    this.reposition(debtor.debts, [debt]);
 
-      return debt;
-    };
+    debtor.owes += grants;
+  }
+
+  /**
+   * Finds the debt of the expense, bringing it back from the archive.
+   */
+  private findDebt(
+    creditorId: CreditorId,
+    debtorId: DebtorId,
+    debtor: Debtor,
+    expenseId: ExpenseId,
+  ) {
+    // New debts are not indexed yet, which spares going through the others.
+    const isIndexed = this.expenseRelations
+      ?.get(expenseId)
+      ?.some(
+        (relation) => relation[0] === creditorId && relation[1] === debtorId,
+      );
+    if (this.expenseRelations && !isIndexed) {
+      return undefined;
+    }
 
-    const debt = getOrCreateDebt();
-    if (!debt) {
-      throw new Error(`Debt for expense ${toExpenseId} has not been created.`);
+    const debt = debtor.debts.find(
+      (element) => element.expenseId === expenseId,
+    );
+    if (debt) {
+      return debt;
     }
 
-    const previousHistoryEntry = debt.history.at(-1);
-    if (previousHistoryEntry) {
-      debt.history.push({
-        expenseId: fromExpenseId,
-        grants,
-        amount: previousHistoryEntry.amount + grants,
-      });
-    } else {
-      debt.history.push({
-        expenseId: fromExpenseId,
-        grants,
-        amount: grants,
-      });
+    const archivedIndex =
+      debtor.archived?.findIndex(
+        (element) => element.expenseId === expenseId,
+      ) ?? -1;
+    if (archivedIndex < 0) {
+      return undefined;
     }
+    // Archived debts are never changed, so that they are stored only once,
+    // the debt comes back as a copy instead.
+    const [archived] = debtor.archived.splice(archivedIndex, 1);
+    const restored = { ...archived, history: [...archived.history] };
+    debtor.debts.splice(
+      this.findInsertionIndex(debtor.debts, restored),
+      0,
+      restored,
+    );
+    return restored;
+  }
 
-    debtor.owes += grants;
+  private createDebt(
+    creditorId: CreditorId,
+    debtorId: DebtorId,
+    expenseId: ExpenseId,
+  ): Debt {
+    if (this.expenseRelations) {
+      this.indexExpense(expenseId, creditorId, debtorId);
+    }
+    return { expenseId, currencyCode: this.currencyCode, history: [] };
   }
 
   private ensureTwoWayRelation(creditorId: CreditorId, debtorId: DebtorId) {
@@ -230,16 +1423,7 @@ export class DebtSimplifier {
       throw new Error(`Creditor ${creditorId} has not been created.`);
     }
 
-    creditor.set(debtorId, { owes: 0, debts: [] });
-  }
-
-  private sortDebtsAscending(creditorId: CreditorId, debtorId: DebtorId) {
-    this.getDebtor(creditorId, debtorId)?.debts.sort((a, b) => {
-      const amountA = this.getDebtAmount(a);
-      const amountB = this.getDebtAmount(b);
-
-      return amountA <= amountB ? -1 : 1;
-    });
+    creditor.set(debtorId, { owes: 0n, debts: [] });
   }
 
   private hasCreditor(creditorId: CreditorId) {
@@ -247,7 +1431,7 @@ export class DebtSimplifier {
   }
 
   private getDebtAmount(debt: Debt) {
-    return debt.history.at(-1)?.amount ?? 0;
+    return debt.history.at(-1)?.amount ?? 0n;
   }
 
   private getDebtor(creditorId: CreditorId, debtorId: DebtorId) {
@@ -267,9 +1451,9 @@ export class DebtSimplifier {
   }
 
   private findRightmostIndex<T>(
-    value: number,
+    value: Money,
     sortedArray: T[],
-    getValue: (item: T) => number,
+    getValue: (item: T) => Money,
   ) {
     let start = 0;
     let end = sortedArray.length - 1;
@@ -279,8 +1463,8 @@ export class DebtSimplifier {
       return -1;
     }
 
-    if (value > 1) {
-      value -= 1;
+    if (value > 1n) {
+      value -= 1n;
     }
 
     // Extended binary search.
@@ -300,7 +1484,7 @@ export class DebtSimplifier {
     const finalIndex =
       rightmostIndex !== -1 ? rightmostIndex : Math.max(0, end);
 
-    return getValue(sortedArray[finalIndex]) === 0 &&
+    return getValue(sortedArray[finalIndex]) === 0n &&
       finalIndex + 1 < sortedArray.length
       ? finalIndex + 1
       : finalIndex;
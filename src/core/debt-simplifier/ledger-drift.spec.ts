@@ -0,0 +1,59 @@
+import { findDrift } from './ledger-drift';
+import { MultiCurrencyDebtSimplifier } from './multi-currency-debt-simplifier';
+
+describe('findDrift', () => {
+  let stored: MultiCurrencyDebtSimplifier;
+  let replayed: MultiCurrencyDebtSimplifier;
+
+  beforeEach(() => {
+    stored = new MultiCurrencyDebtSimplifier('EUR');
+    replayed = new MultiCurrencyDebtSimplifier('EUR');
+  });
+
+  it('should find no drift between ledgers with the same debts', () => {
+    for (const ledger of [stored, replayed]) {
+      ledger.add('A', 'B', 10n, 0, 'EUR');
+      ledger.add('B', 'A', 4n, 1, 'EUR');
+      ledger.settle('A', 'B', 2n, 100, 'EUR');
+    }
+
+    expect(findDrift(stored, replayed)).toEqual([]);
+  });
+
+  it('should report amounts owed differently', () => {
+    stored.add('A', 'B', 10n, 0, 'EUR');
+    replayed.add('A', 'B', 10n, 0, 'EUR');
+    replayed.add('C', 'A', 5n, 1, 'USD');
+
+    expect(findDrift(stored, replayed)).toEqual([
+      {
+        currencyCode: 'USD',
+        creditorId: 'C',
+        debtorId: 'A',
+        stored: 0n,
+        replayed: 5n,
+        historyDiffers: true,
+      },
+    ]);
+  });
+
+  it('should report histories of expenses netted in another order', () => {
+    stored.add('A', 'B', 10n, 0, 'EUR');
+    stored.add('A', 'B', 5n, 1, 'EUR');
+    stored.add('B', 'A', 5n, 2, 'EUR');
+
+    replayed.add('A', 'B', 10n, 0, 'EUR');
+    replayed.add('B', 'A', 5n, 2, 'EUR');
+    replayed.add('A', 'B', 5n, 1, 'EUR');
+
+    const drift = findDrift(stored, replayed);
+
+    expect(drift.length).toBeGreaterThan(0);
+    expect(
+      drift.every(
+        ({ stored, replayed, historyDiffers }) =>
+          stored === replayed && historyDiffers,
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+import { CurrencyCode } from '../currency/exchange-rates';
+import { Money } from '../currency/money';
+import { bigIntReplacer } from '../../utils/json';
+import { CreditorId, DebtorId, Debtor } from './debt-simplifier';
+import { MultiCurrencyDebtSimplifier } from './multi-currency-debt-simplifier';
+
+export interface RelationDrift {
+  currencyCode: CurrencyCode;
+  creditorId: CreditorId;
+  debtorId: DebtorId;
+  /**
+   * What the debtor owes the creditor according to the stored ledger.
+   */
+  stored: Money;
+  /**
+   * What the debtor owes the creditor according to the replayed ledger.
+   */
+  replayed: Money;
+  /**
+   * Whether debts, or their histories differ, even if the amounts owed
+   * are the same, e.g. when expenses have been netted in another order.
+   */
+  historyDiffers: boolean;
+}
+
+/**
+ * Compares what every debtor owes every creditor, and how, in a stored
+ * ledger, and in a ledger replayed from scratch. Relations without any
+ * debts are the same as missing ones.
+ */
+export function findDrift(
+  stored: MultiCurrencyDebtSimplifier,
+  replayed: MultiCurrencyDebtSimplifier,
+): RelationDrift[] {
+  const drift: RelationDrift[] = [];
+  const currencies = new Set([
+    ...stored.getCurrencies(),
+    ...replayed.getCurrencies(),
+  ]);
+
+  for (const currencyCode of [...currencies].sort()) {
+    const storedCreditors = stored.getSimplifier(currencyCode)?.getCreditors();
+    const replayedCreditors = replayed
+      .getSimplifier(currencyCode)
+      ?.getCreditors();
+
+    const relations = new Map<string, [CreditorId, DebtorId]>();
+    for (const creditors of [storedCreditors, replayedCreditors]) {
+      for (const [creditorId, debtors] of creditors ?? []) {
+        for (const debtorId of debtors.keys()) {
+          relations.set(`${creditorId}:${debtorId}`, [creditorId, debtorId]);
+        }
+      }
+    }
+
+    const sortedRelations = [...relations.values()].sort(
+      ([a, b], [c, d]) => a.localeCompare(c) || b.localeCompare(d),
+    );
+    for (const [creditorId, debtorId] of sortedRelations) {
+      const storedDebtor = storedCreditors?.get(creditorId)?.get(debtorId);
+      const replayedDebtor = replayedCreditors?.get(creditorId)?.get(debtorId);
+
+      const owes = [storedDebtor?.owes ?? 0n, replayedDebtor?.owes ?? 0n];
+      const historyDiffers =
+        toSortedDebts(storedDebtor) !== toSortedDebts(replayedDebtor);
+      if (owes[0] !== owes[1] || historyDiffers) {
+        drift.push({
+          currencyCode,
+          creditorId,
+          debtorId,
+          stored: owes[0],
+          replayed: owes[1],
+          historyDiffers,
+        });
+      }
+    }
+  }
+
+  return drift;
+}
+
+/**
+ * Sequences are left out, as a replay numbers expenses, and settlements
+ * anew, and only their order matters, which shows in the histories anyway.
+ */
+function toSortedDebts(debtor: Debtor | undefined) {
+  return JSON.stringify(
+    [...(debtor?.archived ?? []), ...(debtor?.debts ?? [])].sort(
+      (a, b) => a.expenseId - b.expenseId,
+    ),
+    (key, value) =>
+      key === 'sequence' ? undefined : bigIntReplacer(key, value),
+  );
+}
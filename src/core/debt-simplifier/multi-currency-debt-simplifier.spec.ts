@@ -0,0 +1,144 @@
+import { StaticExchangeRateProvider } from '../currency/exchange-rates';
+import { MultiCurrencyDebtSimplifier } from './multi-currency-debt-simplifier';
+import { SnapshotError } from './snapshot';
+
+describe('MultiCurrencyDebtSimplifier', () => {
+  const exchangeRateProvider = new StaticExchangeRateProvider('EUR', {
+    USD: 1.25,
+    JPY: 160,
+  });
+  let debtSimplifier: MultiCurrencyDebtSimplifier;
+
+  beforeEach(() => {
+    debtSimplifier = new MultiCurrencyDebtSimplifier('EUR');
+  });
+
+  it('should not net debts in different currencies', () => {
+    debtSimplifier.add('A', 'B', 1000n, 0, 'EUR');
+    debtSimplifier.add('B', 'A', 1000n, 1, 'JPY');
+
+    const eur = debtSimplifier.getSimplifier('EUR').getCreditors();
+    const jpy = debtSimplifier.getSimplifier('JPY').getCreditors();
+
+    expect(eur.get('A')?.get('B')?.owes).toBe(1000n);
+    expect(eur.get('A')?.get('B')?.debts[0].currencyCode).toBe('EUR');
+    expect(jpy.get('B')?.get('A')?.owes).toBe(1000n);
+    expect(jpy.get('B')?.get('A')?.debts[0].currencyCode).toBe('JPY');
+  });
+
+  it('should net debts within the same currency', () => {
+    debtSimplifier.add('A', 'B', 1000n, 0, 'USD');
+    debtSimplifier.add('B', 'A', 400n, 1, 'USD');
+
+    const usd = debtSimplifier.getSimplifier('USD').getCreditors();
+
+    expect(usd.get('A')?.get('B')?.owes).toBe(600n);
+    expect(usd.get('B')?.get('A')?.owes).toBe(0n);
+  });
+
+  it('should explain debts in every currency of the relation', () => {
+    debtSimplifier.add('A', 'B', 1000n, 0, 'EUR');
+    debtSimplifier.add('B', 'A', 800n, 1, 'JPY');
+
+    const explanations = debtSimplifier.explain('A', 'B');
+
+    expect([...explanations.keys()]).toEqual(['EUR', 'JPY']);
+    expect(explanations.get('EUR').owes).toBe(1000n);
+    expect(explanations.get('JPY').owes).toBe(0n);
+    expect(explanations.get('JPY').debts).toEqual([]);
+  });
+
+  it('should report net balances in the settlement currency', async () => {
+    debtSimplifier.add('A', 'B', 1000n, 0, 'EUR');
+    debtSimplifier.add('B', 'A', 800n, 1, 'JPY');
+    debtSimplifier.add('A', 'C', 250n, 2, 'USD');
+
+    const snapshot = await exchangeRateProvider.getSnapshot('EUR');
+    const balances = debtSimplifier.getNetBalances(snapshot);
+
+    // 800 JPY = 5 EUR = 500 cents, 250 USD cents = 200 EUR cents.
+    expect(balances.get('A')).toBe(1000n - 500n + 200n);
+    expect(balances.get('B')).toBe(-1000n + 500n);
+    expect(balances.get('C')).toBe(-200n);
+  });
+
+  it('should rebase exchange rates of the static provider', async () => {
+    const snapshot = await exchangeRateProvider.getSnapshot('USD');
+
+    expect(snapshot.baseCurrency).toBe('USD');
+    expect(snapshot.rates.EUR).toBeCloseTo(0.8);
+    expect(snapshot.rates.JPY).toBeCloseTo(128);
+  });
+
+  it('should remove an expense from the ledger of its currency', () => {
+    debtSimplifier.add('A', 'B', 1000n, 0, 'EUR');
+    debtSimplifier.add('A', 'B', 500n, 1, 'USD');
+
+    debtSimplifier.remove(1);
+
+    expect(debtSimplifier.getSimplifier('USD').getCreditors().size).toBe(0);
+    expect(
+      debtSimplifier.getSimplifier('EUR').getCreditors().get('A')?.get('B')
+        ?.owes,
+    ).toBe(1000n);
+  });
+
+  it('should correctly convert to json, and load parsed structure', () => {
+    debtSimplifier.add('A', 'B', 1000n, 0, 'EUR');
+    debtSimplifier.add('B', 'A', 800n, 1, 'JPY');
+
+    const loaded = new MultiCurrencyDebtSimplifier('USD');
+    loaded.fromJSON(debtSimplifier.toJSON());
+
+    expect(loaded.getSettlementCurrency()).toBe('EUR');
+    expect(loaded.getCurrencies()).toEqual(['EUR', 'JPY']);
+    expect(
+      loaded.getSimplifier('JPY').getCreditors().get('B')?.get('A')?.owes,
+    ).toBe(800n);
+  });
+
+  it('should leave archived debts out of the snapshot, and restore them', () => {
+    debtSimplifier.add('A', 'B', 1000n, 0, 'EUR');
+    debtSimplifier.add('A', 'B', 500n, 1, 'EUR');
+    debtSimplifier.settle('A', 'B', 1000n, 100, 'EUR');
+    debtSimplifier.add('B', 'A', 800n, 2, 'JPY');
+    debtSimplifier.compact();
+
+    const archived = debtSimplifier.getArchivedDebts();
+    expect(archived).toEqual([
+      {
+        currencyCode: 'EUR',
+        creditorId: 'A',
+        debtorId: 'B',
+        debt: expect.objectContaining({ expenseId: 0 }),
+      },
+    ]);
+
+    const loaded = new MultiCurrencyDebtSimplifier('EUR');
+    loaded.fromJSON(debtSimplifier.toJSON({ archived: false }));
+    expect(loaded.getArchivedDebts()).toEqual([]);
+
+    loaded.restoreArchivedDebts(archived);
+    expect(loaded.toJSON()).toBe(debtSimplifier.toJSON());
+    expect(loaded.getSimplifier('EUR').hasSettlement(100)).toBe(true);
+  });
+
+  it('should reject archived debts of missing relations, or twice', () => {
+    debtSimplifier.add('A', 'B', 1000n, 0, 'EUR');
+    debtSimplifier.settle('A', 'B', 1000n, 100, 'EUR');
+    debtSimplifier.compact();
+    const [archived] = debtSimplifier.getArchivedDebts();
+
+    expect(() =>
+      debtSimplifier.restoreArchivedDebts([{ ...archived, debtorId: 'C' }]),
+    ).toThrow(SnapshotError);
+    expect(() =>
+      debtSimplifier.restoreArchivedDebts([
+        { ...archived, currencyCode: 'USD' },
+      ]),
+    ).toThrow('Expected a ledger of USD for its archived debts.');
+    expect(() => debtSimplifier.restoreArchivedDebts([archived])).toThrow(
+      'Expected a single debt of expense 0 of B owing A, but got another archived one.',
+    );
+  });
+});
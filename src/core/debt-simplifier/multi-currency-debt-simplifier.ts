@@ -0,0 +1,277 @@
+import { bigIntReplacer } from '../../utils/json';
+import {
+  CurrencyCode,
+  ExchangeRateSnapshot,
+  convert,
+} from '../currency/exchange-rates';
+import { Money } from '../currency/money';
+import {
+  ArchivedDebt,
+  BalanceExplanation,
+  CreditorId,
+  DebtSimplifier,
+  DebtorId,
+  ExpenseDebt,
+  ExpenseId,
+  SettlementId,
+  Transfer,
+} from './debt-simplifier';
+import {
+  MultiCurrencySnapshot,
+  SNAPSHOT_VERSION,
+  SnapshotError,
+  parseMultiCurrencySnapshot,
+  toCreditorSnapshots,
+} from './snapshot';
+
+export interface ArchivedCurrencyDebt extends ArchivedDebt {
+  currencyCode: CurrencyCode;
+}
+
+/**
+ * Keeps a `DebtSimplifier` per currency, so that debts are never netted
+ * across currencies. Balances are reported in the settlement currency
+ * of the group, using the exchange rates of a snapshot.
+ */
+export class MultiCurrencyDebtSimplifier {
+  private simplifiers = new Map<CurrencyCode, DebtSimplifier>();
+
+  constructor(private settlementCurrency: CurrencyCode) {}
+
+  /**
+   * Writes the latest version of `MultiCurrencySnapshot`. Archived debts are
+   * left out when they are stored on their own, see `getArchivedDebts`.
+   */
+  toJSON({ archived = true } = {}) {
+    const snapshot: MultiCurrencySnapshot = {
+      version: SNAPSHOT_VERSION,
+      settlementCurrency: this.settlementCurrency,
+      ledgers: [...this.simplifiers.entries()].map(
+        ([currencyCode, simplifier]) => ({
+          currencyCode,
+          creditors: toCreditorSnapshots(simplifier.getCreditors(), {
+            archived,
+          }),
+        }),
+      ),
+    };
+    return JSON.stringify(snapshot, bigIntReplacer);
+  }
+
+  /**
+   * Loads a snapshot of any supported version, validating it first.
+   *
+   * @throws SnapshotError when the snapshot is malformed, or inconsistent.
+   */
+  fromJSON(json: string) {
+    const { settlementCurrency, ledgers } = parseMultiCurrencySnapshot(json);
+
+    this.settlementCurrency = settlementCurrency;
+    this.simplifiers = new Map();
+    for (const [currencyCode, creditors] of ledgers) {
+      this.simplifiers.set(
+        currencyCode,
+        new DebtSimplifier(currencyCode, creditors),
+      );
+    }
+  }
+
+  getArchivedDebts(): ArchivedCurrencyDebt[] {
+    return [...this.simplifiers.entries()].flatMap(
+      ([currencyCode, simplifier]) =>
+        simplifier
+          .getArchivedDebts()
+          .map((archived) => ({ currencyCode, ...archived })),
+    );
+  }
+
+  /**
+   * Brings back archived debts left out of the snapshot the state has been
+   * loaded from.
+   *
+   * @throws SnapshotError when the relation of a debt is missing, or has
+   * a debt of the same expense already.
+   */
+  restoreArchivedDebts(archived: ArchivedCurrencyDebt[]) {
+    const byCurrency = new Map<CurrencyCode, ArchivedDebt[]>();
+    for (const { currencyCode, ...debt } of archived) {
+      const debts = byCurrency.get(currencyCode) ?? [];
+      debts.push(debt);
+      byCurrency.set(currencyCode, debts);
+    }
+
+    for (const [currencyCode, debts] of byCurrency) {
+      const simplifier = this.simplifiers.get(currencyCode);
+      if (!simplifier) {
+        throw new SnapshotError(
+          `Expected a ledger of ${currencyCode} for its archived debts.`,
+        );
+      }
+      simplifier.restoreArchivedDebts(debts);
+    }
+  }
+
+  getSettlementCurrency() {
+    return this.settlementCurrency;
+  }
+
+  setSettlementCurrency(currencyCode: CurrencyCode) {
+    this.settlementCurrency = currencyCode;
+  }
+
+  getCurrencies() {
+    return [...this.simplifiers.keys()];
+  }
+
+  getSimplifier(currencyCode: CurrencyCode) {
+    return this.simplifiers.get(currencyCode) ?? null;
+  }
+
+  add(
+    creditorId: CreditorId,
+    debtorId: DebtorId,
+    debtorOwes: Money,
+    expenseId: ExpenseId,
+    currencyCode: CurrencyCode,
+  ) {
+    this.getOrCreateSimplifier(currencyCode).add(
+      creditorId,
+      debtorId,
+      debtorOwes,
+      expenseId,
+    );
+  }
+
+  hasExpense(expenseId: ExpenseId) {
+    return this.findExpenseSimplifier(expenseId) !== null;
+  }
+
+  /**
+   * Replaces every debt of the expense, possibly moving it to another currency.
+   */
+  replace(
+    expenseId: ExpenseId,
+    debts: ExpenseDebt[],
+    currencyCode: CurrencyCode,
+  ) {
+    const previous = this.findExpenseSimplifier(expenseId);
+    if (previous && previous.getCurrencyCode() !== currencyCode) {
+      previous.remove(expenseId);
+    }
+    this.getOrCreateSimplifier(currencyCode).replace(expenseId, debts);
+  }
+
+  remove(expenseId: ExpenseId) {
+    this.getExpenseSimplifier(expenseId).remove(expenseId);
+  }
+
+  update(expenseId: ExpenseId, newAmount: Money, debtorId?: DebtorId) {
+    this.getExpenseSimplifier(expenseId).update(expenseId, newAmount, debtorId);
+  }
+
+  settle(
+    creditorId: CreditorId,
+    debtorId: DebtorId,
+    amount: Money,
+    settlementId: SettlementId,
+    currencyCode: CurrencyCode,
+  ) {
+    const simplifier = this.simplifiers.get(currencyCode);
+    if (!simplifier) {
+      throw new Error(`No debts in ${currencyCode} to settle`);
+    }
+    simplifier.settle(creditorId, debtorId, amount, settlementId);
+  }
+
+  unsettle(settlementId: SettlementId) {
+    const simplifier = [...this.simplifiers.values()].find((element) =>
+      element.hasSettlement(settlementId),
+    );
+    if (!simplifier) {
+      throw new Error(`Settlement ${settlementId} not found`);
+    }
+    simplifier.unsettle(settlementId);
+  }
+
+  /**
+   * Transfers settling the group, suggested separately for every currency.
+   */
+  settleGroup() {
+    const transfers = new Map<CurrencyCode, Transfer[]>();
+    for (const [currencyCode, simplifier] of this.simplifiers) {
+      transfers.set(currencyCode, simplifier.settleGroup());
+    }
+    return transfers;
+  }
+
+  /**
+   * Archives fully settled debts in every currency, see `DebtSimplifier.compact`.
+   */
+  compact() {
+    for (const simplifier of this.simplifiers.values()) {
+      simplifier.compact();
+    }
+  }
+
+  /**
+   * Explanations of what the debtor owes the creditor in every currency
+   * they have ever had debts in.
+   */
+  explain(creditorId: CreditorId, debtorId: DebtorId) {
+    const explanations = new Map<CurrencyCode, BalanceExplanation>();
+    for (const [currencyCode, simplifier] of this.simplifiers) {
+      if (simplifier.getCreditors().get(creditorId)?.has(debtorId)) {
+        explanations.set(
+          currencyCode,
+          simplifier.explain(creditorId, debtorId),
+        );
+      }
+    }
+    return explanations;
+  }
+
+  /**
+   * Net balance of every person in the settlement currency.
+   */
+  getNetBalances(snapshot: ExchangeRateSnapshot) {
+    const balances = new Map<CreditorId | DebtorId, Money>();
+
+    for (const [currencyCode, simplifier] of this.simplifiers) {
+      for (const [personId, balance] of simplifier.getNetBalances()) {
+        balances.set(
+          personId,
+          (balances.get(personId) ?? 0n) +
+            convert(balance, currencyCode, this.settlementCurrency, snapshot),
+        );
+      }
+    }
+
+    return balances;
+  }
+
+  getOrCreateSimplifier(currencyCode: CurrencyCode) {
+    let simplifier = this.simplifiers.get(currencyCode);
+    if (!simplifier) {
+      simplifier = new DebtSimplifier(currencyCode);
+      this.simplifiers.set(currencyCode, simplifier);
+    }
+    return simplifier;
+  }
+
+  private getExpenseSimplifier(expenseId: ExpenseId) {
+    const simplifier = this.findExpenseSimplifier(expenseId);
+    if (!simplifier) {
+      throw new Error(`Expense ${expenseId} not found`);
+    }
+    return simplifier;
+  }
+
+  private findExpenseSimplifier(expenseId: ExpenseId) {
+    for (const simplifier of this.simplifiers.values()) {
+      if (simplifier.hasExpense(expenseId)) {
+        return simplifier;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,261 @@
+import { nestedMapReplacer } from '../../utils/json';
+import { DebtSimplifier } from './debt-simplifier';
+import { MultiCurrencyDebtSimplifier } from './multi-currency-debt-simplifier';
+import {
+  SNAPSHOT_VERSION,
+  SnapshotError,
+  parseArchivedDebt,
+  parseDebtSimplifierSnapshot,
+  parseMultiCurrencySnapshot,
+} from './snapshot';
+
+/**
+ * Snapshots written before versioning stored amounts as numbers.
+ */
+const legacyReplacer = (key: string, value: unknown) =>
+  typeof value === 'bigint' ? Number(value) : nestedMapReplacer(key, value);
+
+describe('snapshot', () => {
+  const snapshot = (owes = 3, amount = 3) =>
+    JSON.stringify({
+      version: 2,
+      creditors: [
+        {
+          creditorId: 'A',
+          debtors: [
+            {
+              debtorId: 'B',
+              owes,
+              debts: [
+                {
+                  expenseId: 1,
+                  history: [
+                    { expenseId: 1, grants: 5, amount: 5 },
+                    { expenseId: 1, settlementId: 1, grants: -2, amount },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+        {
+          creditorId: 'B',
+          debtors: [{ debtorId: 'A', owes: 0, debts: [] }],
+        },
+      ],
+    });
+
+  it('should write the current version, and load what it writes', () => {
+    const debtSimplifier = new DebtSimplifier('EUR');
+    debtSimplifier.add('A', 'B', 10n, 1);
+    debtSimplifier.add('B', 'A', 4n, 2);
+    debtSimplifier.settle('A', 'B', 2n, 1);
+
+    const json = debtSimplifier.toJSON();
+    const loaded = new DebtSimplifier();
+    loaded.fromJSON(json);
+
+    expect(JSON.parse(json).version).toBe(SNAPSHOT_VERSION);
+    expect(loaded.getCurrencyCode()).toBe('EUR');
+    expect(loaded.toJSON()).toBe(json);
+  });
+
+  it('should migrate snapshots written before versioning', () => {
+    const debtSimplifier = new DebtSimplifier();
+    debtSimplifier.add('A', 'B', 10n, 1);
+    debtSimplifier.add('C', 'B', 5n, 2);
+    const legacy = JSON.stringify(
+      debtSimplifier.getCreditors(),
+      legacyReplacer,
+    );
+
+    const { creditors } = parseDebtSimplifierSnapshot(legacy);
+
+    expect(creditors).toEqual(debtSimplifier.getCreditors());
+    expect([...creditors.keys()]).toEqual(['A', 'B', 'C']);
+  });
+
+  it('should migrate multi-currency snapshots written before versioning', () => {
+    const debtSimplifier = new MultiCurrencyDebtSimplifier('EUR');
+    debtSimplifier.add('A', 'B', 1000n, 1, 'EUR');
+    debtSimplifier.add('B', 'A', 800n, 2, 'JPY');
+    const ledgers = new Map(
+      debtSimplifier
+        .getCurrencies()
+        .map((currencyCode) => [
+          currencyCode,
+          debtSimplifier.getSimplifier(currencyCode).getCreditors(),
+        ]),
+    );
+    const legacy = JSON.stringify(
+      { settlementCurrency: 'EUR', ledgers },
+      legacyReplacer,
+    );
+
+    const loaded = new MultiCurrencyDebtSimplifier('USD');
+    loaded.fromJSON(legacy);
+
+    expect(loaded.toJSON()).toBe(debtSimplifier.toJSON());
+  });
+
+  it('should write amounts as strings, exact beyond safe integers', () => {
+    const amount = BigInt(Number.MAX_SAFE_INTEGER) * 1000n + 1n;
+    const debtSimplifier = new DebtSimplifier('EUR');
+    debtSimplifier.add('A', 'B', amount, 1);
+
+    const json = debtSimplifier.toJSON();
+    const loaded = new DebtSimplifier();
+    loaded.fromJSON(json);
+
+    expect(json).toContain(`"owes":"${amount}"`);
+    expect(loaded.getCreditors().get('A')?.get('B')?.owes).toBe(amount);
+  });
+
+  it('should reject amounts written as numbers by the current version', () => {
+    const parsed = JSON.parse(snapshot());
+    const json = JSON.stringify({ ...parsed, version: SNAPSHOT_VERSION });
+
+    expect(() => parseDebtSimplifierSnapshot(json)).toThrow(
+      /debtors\[0\]\.owes: expected an integer amount as a string, got 3/,
+    );
+  });
+
+  it('should load a consistent snapshot', () => {
+    const { creditors } = parseDebtSimplifierSnapshot(snapshot());
+
+    expect(creditors.get('A')?.get('B')?.owes).toBe(3n);
+    expect(creditors.get('B')?.get('A')?.debts).toEqual([]);
+  });
+
+  it('should load archived debts', () => {
+    const archived = (amount: number) => ({
+      expenseId: 2,
+      history: [
+        { expenseId: 2, grants: '4', amount: '4' },
+        {
+          expenseId: 2,
+          settlementId: 2,
+          grants: String(amount - 4),
+          amount: String(amount),
+        },
+      ],
+    });
+    const withArchived = (amount: number) => {
+      const parsed = JSON.parse(new DebtSimplifier().toJSON());
+      parsed.creditors = [
+        {
+          creditorId: 'A',
+          debtors: [
+            {
+              debtorId: 'B',
+              owes: '0',
+              debts: [],
+              archived: [archived(amount)],
+            },
+          ],
+        },
+        { creditorId: 'B', debtors: [{ debtorId: 'A', owes: '0', debts: [] }] },
+      ];
+      return JSON.stringify(parsed);
+    };
+
+    const { creditors } = parseDebtSimplifierSnapshot(withArchived(0));
+
+    expect(creditors.get('A')?.get('B')?.archived).toEqual([
+      {
+        expenseId: 2,
+        history: [
+          { expenseId: 2, grants: 4n, amount: 4n },
+          { expenseId: 2, settlementId: 2, grants: -4n, amount: 0n },
+        ],
+      },
+    ]);
+    expect(() => parseDebtSimplifierSnapshot(withArchived(1))).toThrow(
+      /archived\[0\]: expected a fully settled debt/,
+    );
+  });
+
+  it('should load archived debts stored apart from the snapshot', () => {
+    const archived = (amount: number) =>
+      JSON.stringify({
+        expenseId: 2,
+        history: [
+          { expenseId: 2, grants: '4', amount: '4' },
+          { expenseId: 2, grants: String(amount - 4), amount: String(amount) },
+        ],
+      });
+
+    expect(parseArchivedDebt(archived(0)).history.at(-1)).toEqual({
+      expenseId: 2,
+      grants: -4n,
+      amount: 0n,
+    });
+    expect(() => parseArchivedDebt(archived(1))).toThrow(
+      'Invalid snapshot at archived: expected a fully settled debt.',
+    );
+  });
+
+  it.each([
+    ['malformed JSON', '{"version": 2', /not valid JSON/],
+    [
+      'a newer version',
+      `{"version": ${SNAPSHOT_VERSION + 1}}`,
+      /newer than the supported/,
+    ],
+    ['a version of wrong type', '{"version": "2"}', /at version/],
+    ['missing creditors', '{"version": 2}', /at creditors: expected an array/],
+    [
+      'an amount not being a running sum of grants',
+      snapshot(3, 4),
+      /history\[1\]\.amount: expected the running sum of grants 3, got 4/,
+    ],
+    [
+      'negative amounts',
+      snapshot(3, -2).replace('"grants":-2', '"grants":-7'),
+      /history\[1\]\.amount: expected a non-negative amount/,
+    ],
+    [
+      'owes not equal to the sum of debt amounts',
+      snapshot(4),
+      /debtors\[0\]\.owes: expected the sum of debt amounts 3, got 4/,
+    ],
+    [
+      'a relation missing the other way round',
+      JSON.stringify({
+        version: 2,
+        creditors: [
+          {
+            creditorId: 'A',
+            debtors: [{ debtorId: 'B', owes: 0, debts: [] }],
+          },
+        ],
+      }),
+      /B owes A, but there is no relation of A owing B/,
+    ],
+  ])('should reject %s', (_, json, message) => {
+    const load = () => new DebtSimplifier().fromJSON(json);
+
+    expect(load).toThrow(SnapshotError);
+    expect(load).toThrow(message);
+  });
+
+  it('should reject a snapshot of another currency', () => {
+    expect(() => new DebtSimplifier('USD').fromJSON(snapshot())).not.toThrow();
+
+    const eur = new DebtSimplifier('EUR').toJSON();
+    expect(() => new DebtSimplifier('USD').fromJSON(eur)).toThrow(
+      SnapshotError,
+    );
+  });
+
+  it('should report versions with no migration', () => {
+    expect(() => parseDebtSimplifierSnapshot('{"version": 1}', [])).toThrow(
+      'No migration of snapshots from version 1.',
+    );
+    expect(() =>
+      parseMultiCurrencySnapshot('{"version": 1}', [
+        { from: 1, migrate: () => ({ version: 1 }) },
+      ]),
+    ).toThrow('Migration from version 1 produced version 1.');
+  });
+});
@@ -0,0 +1,507 @@
+import { nestedMapReviver } from '../../utils/json';
+import { CurrencyCode } from '../currency/exchange-rates';
+import { Money, sumMoney } from '../currency/money';
+import {
+  CreditorId,
+  CreditorsMap,
+  Debt,
+  DebtTransaction,
+  Debtor,
+  DebtorId,
+} from './debt-simplifier';
+
+/**
+ * Version of snapshots written by `toJSON`. Bump it along with a migration
+ * from the previous version whenever the format changes.
+ */
+export const SNAPSHOT_VERSION = 5;
+
+export interface DebtorSnapshot extends Debtor {
+  debtorId: DebtorId;
+}
+
+export interface CreditorSnapshot {
+  creditorId: CreditorId;
+  debtors: DebtorSnapshot[];
+}
+
+/**
+ * Snapshot of a `DebtSimplifier`. Relations are listed in the order they
+ * have been created, as maps in JSON would lose it. Relations list their
+ * `archived` debts only once they have any. Amounts are strings of digits,
+ * see `Money`. Expenses, and payments carry the `sequence` they have been
+ * recorded in.
+ *
+ * ```json
+ * {
+ *   "version": 5,
+ *   "currencyCode": "EUR",
+ *   "creditors": [
+ *     {
+ *       "creditorId": "1",
+ *       "debtors": [
+ *         {
+ *           "debtorId": "2",
+ *           "owes": "3",
+ *           "debts": [
+ *             {
+ *               "expenseId": 7,
+ *               "history": [
+ *                 { "expenseId": 7, "sequence": 1, "grants": "5", "amount": "5" },
+ *                 { "expenseId": 7, "settlementId": 1, "sequence": 2, "grants": "-2", "amount": "3" }
+ *               ]
+ *             }
+ *           ]
+ *         }
+ *       ]
+ *     },
+ *     { "creditorId": "2", "debtors": [{ "debtorId": "1", "owes": "0", "debts": [] }] }
+ *   ]
+ * }
+ * ```
+ */
+export interface DebtSimplifierSnapshot {
+  version: typeof SNAPSHOT_VERSION;
+  currencyCode?: CurrencyCode;
+  creditors: CreditorSnapshot[];
+}
+
+/**
+ * Snapshot of a `MultiCurrencyDebtSimplifier`, with creditors of every
+ * currency listed the way `DebtSimplifierSnapshot` lists them.
+ */
+export interface MultiCurrencySnapshot {
+  version: typeof SNAPSHOT_VERSION;
+  settlementCurrency: CurrencyCode;
+  ledgers: { currencyCode: CurrencyCode; creditors: CreditorSnapshot[] }[];
+}
+
+/**
+ * Upgrades a snapshot of version `from` to version `from + 1`. The result is
+ * validated once it has been migrated up to the current version.
+ */
+export interface SnapshotMigration {
+  from: number;
+  migrate: (snapshot: Record<string, unknown>) => unknown;
+}
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+const MONEY_KEYS = ['owes', 'grants', 'amount'];
+
+/**
+ * Version 2 had no archived debts, which version 3 does not require.
+ */
+const ARCHIVED_DEBTS_MIGRATION: SnapshotMigration = {
+  from: 2,
+  migrate: (snapshot) => ({ ...snapshot, version: 3 }),
+};
+
+/**
+ * Version 3 stored amounts as numbers, which lose precision past
+ * `Number.MAX_SAFE_INTEGER`.
+ */
+const MONEY_MIGRATION: SnapshotMigration = {
+  from: 3,
+  migrate: (snapshot) => ({
+    ...JSON.parse(JSON.stringify(snapshot), (key, value) =>
+      MONEY_KEYS.includes(key) && typeof value === 'number'
+        ? String(value)
+        : value,
+    ),
+    version: 4,
+  }),
+};
+
+/**
+ * Version 4 did not record the order of expenses, and settlements, which
+ * version 5 does not require. Relations replay such entries first.
+ */
+const SEQUENCE_MIGRATION: SnapshotMigration = {
+  from: 4,
+  migrate: (snapshot) => ({ ...snapshot, version: 5 }),
+};
+
+/**
+ * Version 1 stored the creditors map as `nestedMapReplacer` output.
+ */
+export const DEBT_SIMPLIFIER_MIGRATIONS: SnapshotMigration[] = [
+  {
+    from: 1,
+    migrate: (snapshot) => ({
+      version: 2,
+      creditors: toCreditorSnapshots(reviveMaps(snapshot)),
+    }),
+  },
+  ARCHIVED_DEBTS_MIGRATION,
+  MONEY_MIGRATION,
+  SEQUENCE_MIGRATION,
+];
+
+/**
+ * Version 1 stored ledgers of every currency as `nestedMapReplacer` output.
+ */
+export const MULTI_CURRENCY_MIGRATIONS: SnapshotMigration[] = [
+  {
+    from: 1,
+    migrate: (snapshot) => {
+      const ledgers: Map<CurrencyCode, CreditorsMap> = reviveMaps(
+        snapshot.ledgers,
+      );
+      return {
+        version: 2,
+        settlementCurrency: snapshot.settlementCurrency,
+        ledgers: [...ledgers.entries()].map(([currencyCode, creditors]) => ({
+          currencyCode,
+          creditors: toCreditorSnapshots(creditors),
+        })),
+      };
+    },
+  },
+  ARCHIVED_DEBTS_MIGRATION,
+  MONEY_MIGRATION,
+  SEQUENCE_MIGRATION,
+];
+
+/**
+ * Lists relations of the creditors, leaving their archived debts out when
+ * they are stored on their own, see `parseArchivedDebt`.
+ */
+export function toCreditorSnapshots(
+  creditors: CreditorsMap,
+  { archived: withArchived = true } = {},
+): CreditorSnapshot[] {
+  return [...creditors.entries()].map(([creditorId, debtors]) => ({
+    creditorId,
+    debtors: [...debtors.entries()].map(
+      ([debtorId, { owes, debts, archived }]) => ({
+        debtorId,
+        owes,
+        debts,
+        ...(withArchived && archived?.length && { archived }),
+      }),
+    ),
+  }));
+}
+
+/**
+ * Reads an archived debt stored apart from the snapshot of its relation.
+ *
+ * @throws SnapshotError when the debt is malformed, or not fully settled.
+ */
+export function parseArchivedDebt(json: string) {
+  return toArchivedDebt(parse(json), 'archived');
+}
+
+/**
+ * Reads a snapshot of a `DebtSimplifier`, migrating it from older versions.
+ * Snapshots written before versioning are version 1.
+ *
+ * @throws SnapshotError when the snapshot is malformed, or inconsistent.
+ */
+export function parseDebtSimplifierSnapshot(
+  json: string,
+  migrations = DEBT_SIMPLIFIER_MIGRATIONS,
+) {
+  const snapshot = migrate(parse(json), migrations);
+
+  const currencyCode =
+    snapshot.currencyCode === undefined
+      ? undefined
+      : expectString(snapshot.currencyCode, 'currencyCode');
+
+  return {
+    currencyCode,
+    creditors: toCreditorsMap(snapshot.creditors, 'creditors'),
+  };
+}
+
+/**
+ * Reads a snapshot of a `MultiCurrencyDebtSimplifier`, migrating it from
+ * older versions. Snapshots written before versioning are version 1.
+ *
+ * @throws SnapshotError when the snapshot is malformed, or inconsistent.
+ */
+export function parseMultiCurrencySnapshot(
+  json: string,
+  migrations = MULTI_CURRENCY_MIGRATIONS,
+) {
+  const snapshot = migrate(parse(json), migrations);
+
+  const ledgers = new Map<CurrencyCode, CreditorsMap>();
+  expectArray(snapshot.ledgers, 'ledgers').forEach((ledger, index) => {
+    const path = `ledgers[${index}]`;
+    const { currencyCode, creditors } = expectObject(ledger, path);
+    const code = expectString(currencyCode, `${path}.currencyCode`);
+    if (ledgers.has(code)) {
+      throw invalid(`${path}.currencyCode`, `duplicate currency ${code}`);
+    }
+    ledgers.set(code, toCreditorsMap(creditors, `${path}.creditors`));
+  });
+
+  return {
+    settlementCurrency: expectString(
+      snapshot.settlementCurrency,
+      'settlementCurrency',
+    ),
+    ledgers,
+  };
+}
+
+function parse(json: string) {
+  try {
+    return JSON.parse(json) as unknown;
+  } catch (error) {
+    throw new SnapshotError(`Snapshot is not valid JSON: ${error}`);
+  }
+}
+
+function migrate(
+  value: unknown,
+  migrations: SnapshotMigration[],
+): Record<string, unknown> {
+  let snapshot = expectObject(value, 'snapshot');
+  let version = snapshot.version ?? 1;
+
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    throw invalid('version', `expected a positive integer, got ${version}`);
+  }
+  if ((version as number) > SNAPSHOT_VERSION) {
+    throw new SnapshotError(
+      `Snapshot version ${version} is newer than the supported version ${SNAPSHOT_VERSION}.`,
+    );
+  }
+
+  while (version !== SNAPSHOT_VERSION) {
+    const migration = migrations.find(({ from }) => from === version);
+    if (!migration) {
+      throw new SnapshotError(
+        `No migration of snapshots from version ${version}.`,
+      );
+    }
+
+    try {
+      snapshot = expectObject(migration.migrate(snapshot), 'snapshot');
+    } catch (error) {
+      throw new SnapshotError(
+        `Failed to migrate the snapshot from version ${version}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+    if (snapshot.version !== (version as number) + 1) {
+      throw new SnapshotError(
+        `Migration from version ${version} produced version ${snapshot.version}.`,
+      );
+    }
+    version = snapshot.version;
+  }
+
+  return snapshot;
+}
+
+/**
+ * Validates every relation, and that the debtor of every creditor is
+ * a creditor of theirs as well, as the simplifier nets debts both ways.
+ */
+function toCreditorsMap(value: unknown, path: string): CreditorsMap {
+  const creditors: CreditorsMap = new Map();
+
+  expectArray(value, path).forEach((element, index) => {
+    const creditorPath = `${path}[${index}]`;
+    const { creditorId, debtors } = expectObject(element, creditorPath);
+    const id = expectString(creditorId, `${creditorPath}.creditorId`);
+    if (creditors.has(id)) {
+      throw invalid(`${creditorPath}.creditorId`, `duplicate creditor ${id}`);
+    }
+
+    const debtorsMap = new Map<DebtorId, Debtor>();
+    expectArray(debtors, `${creditorPath}.debtors`).forEach(
+      (debtor, debtorIndex) => {
+        const debtorPath = `${creditorPath}.debtors[${debtorIndex}]`;
+        const [debtorId, parsed] = toDebtor(debtor, debtorPath);
+        if (debtorId === id) {
+          throw invalid(`${debtorPath}.debtorId`, `${id} can't owe themselves`);
+        }
+        if (debtorsMap.has(debtorId)) {
+          throw invalid(
+            `${debtorPath}.debtorId`,
+            `duplicate debtor ${debtorId}`,
+          );
+        }
+        debtorsMap.set(debtorId, parsed);
+      },
+    );
+    creditors.set(id, debtorsMap);
+  });
+
+  for (const [creditorId, debtors] of creditors) {
+    for (const debtorId of debtors.keys()) {
+      if (!creditors.get(debtorId)?.has(creditorId)) {
+        throw invalid(
+          path,
+          `${debtorId} owes ${creditorId}, but there is no relation of ${creditorId} owing ${debtorId}`,
+        );
+      }
+    }
+  }
+
+  return creditors;
+}
+
+function toDebtor(value: unknown, path: string): [DebtorId, Debtor] {
+  const { debtorId, owes, debts, archived } = expectObject(value, path);
+  const id = expectString(debtorId, `${path}.debtorId`);
+  const parsedOwes = expectAmount(owes, `${path}.owes`);
+
+  const parsedDebts = expectArray(debts, `${path}.debts`).map((debt, index) =>
+    toDebt(debt, `${path}.debts[${index}]`),
+  );
+  const parsedArchived =
+    archived === undefined
+      ? undefined
+      : expectArray(archived, `${path}.archived`).map((debt, index) =>
+          toArchivedDebt(debt, `${path}.archived[${index}]`),
+        );
+
+  const expenseIds = new Set(
+    [...(parsedArchived ?? []), ...parsedDebts].map(
+      ({ expenseId }) => expenseId,
+    ),
+  );
+  if (expenseIds.size !== parsedDebts.length + (parsedArchived?.length ?? 0)) {
+    throw invalid(`${path}.debts`, 'duplicate debts of the same expense');
+  }
+
+  const total = sumMoney(
+    parsedDebts.map((debt) => debt.history.at(-1)?.amount ?? 0n),
+  );
+  if (total !== parsedOwes) {
+    throw invalid(
+      `${path}.owes`,
+      `expected the sum of debt amounts ${total}, got ${parsedOwes}`,
+    );
+  }
+
+  return [
+    id,
+    {
+      owes: parsedOwes,
+      debts: parsedDebts,
+      ...(parsedArchived && { archived: parsedArchived }),
+    },
+  ];
+}
+
+function toArchivedDebt(value: unknown, path: string) {
+  const debt = toDebt(value, path);
+  if (debt.history.at(-1)?.amount) {
+    throw invalid(path, 'expected a fully settled debt');
+  }
+  return debt;
+}
+
+function toDebt(value: unknown, path: string): Debt {
+  const { expenseId, currencyCode, history } = expectObject(value, path);
+  const debt: Debt = {
+    expenseId: expectInteger(expenseId, `${path}.expenseId`),
+    ...(currencyCode !== undefined && {
+      currencyCode: expectString(currencyCode, `${path}.currencyCode`),
+    }),
+    history: expectArray(history, `${path}.history`).map((transaction, index) =>
+      toDebtTransaction(transaction, `${path}.history[${index}]`),
+    ),
+  };
+
+  let amount = 0n;
+  debt.history.forEach((transaction, index) => {
+    amount += transaction.grants;
+    if (transaction.amount !== amount) {
+      throw invalid(
+        `${path}.history[${index}].amount`,
+        `expected the running sum of grants ${amount}, got ${transaction.amount}`,
+      );
+    }
+  });
+
+  return debt;
+}
+
+function toDebtTransaction(value: unknown, path: string): DebtTransaction {
+  const { expenseId, settlementId, sequence, grants, amount } = expectObject(
+    value,
+    path,
+  );
+  return {
+    expenseId: expectInteger(expenseId, `${path}.expenseId`),
+    ...(settlementId !== undefined && {
+      settlementId: expectInteger(settlementId, `${path}.settlementId`),
+    }),
+    ...(sequence !== undefined && {
+      sequence: expectInteger(sequence, `${path}.sequence`),
+    }),
+    grants: expectMoney(grants, `${path}.grants`),
+    amount: expectAmount(amount, `${path}.amount`),
+  };
+}
+
+function reviveMaps(value: unknown) {
+  return JSON.parse(JSON.stringify(value), nestedMapReviver);
+}
+
+function invalid(path: string, message: string) {
+  return new SnapshotError(`Invalid snapshot at ${path}: ${message}.`);
+}
+
+function describe(value: unknown) {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+function expectObject(value: unknown, path: string) {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalid(path, `expected an object, got ${describe(value)}`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, path: string) {
+  if (!Array.isArray(value)) {
+    throw invalid(path, `expected an array, got ${describe(value)}`);
+  }
+  return value as unknown[];
+}
+
+function expectString(value: unknown, path: string) {
+  if (typeof value !== 'string' || !value) {
+    throw invalid(path, `expected a non-empty string, got ${describe(value)}`);
+  }
+  return value;
+}
+
+function expectInteger(value: unknown, path: string) {
+  if (!Number.isSafeInteger(value)) {
+    throw invalid(path, `expected an integer, got ${describe(value)}`);
+  }
+  return value as number;
+}
+
+function expectMoney(value: unknown, path: string): Money {
+  if (typeof value !== 'string' || !/^-?\d+$/.test(value)) {
+    throw invalid(
+      path,
+      `expected an integer amount as a string, got ${describe(value)}`,
+    );
+  }
+  return BigInt(value);
+}
+
+function expectAmount(value: unknown, path: string) {
+  const amount = expectMoney(value, path);
+  if (amount < 0n) {
+    throw invalid(path, `expected a non-negative amount, got ${amount}`);
+  }
+  return amount;
+}
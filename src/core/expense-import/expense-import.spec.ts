@@ -0,0 +1,116 @@
+import { stringifyCsv } from '../csv/csv';
+import { formatExpenses, parseExpenses } from './expense-import';
+
+describe('expense import', () => {
+  it('should read paid and share columns of every member', () => {
+    const result = parseExpenses(
+      [
+        'date,name,amount,currency,paid:Alice,paid:Bob,share:Alice,share:Bob',
+        '2024-03-01,Hotel,300.00,EUR,100,200,150,150',
+        '2024-03-02,Taxi,1200,JPY,,1200,600,600',
+      ].join('\n'),
+      'csv',
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.expenses[0]).toEqual({
+      row: 2,
+      date: new Date('2024-03-01'),
+      name: 'Hotel',
+      currencyCode: 'EUR',
+      amount: 30000n,
+      paid: new Map([
+        ['Alice', 10000n],
+        ['Bob', 20000n],
+      ]),
+      shares: new Map([
+        ['Alice', 15000n],
+        ['Bob', 15000n],
+      ]),
+    });
+    expect(result.expenses[1].paid).toEqual(new Map([['Bob', 1200n]]));
+  });
+
+  it('should report errors of every invalid row', () => {
+    const result = parseExpenses(
+      [
+        'date,name,amount,currency,paid:Alice,share:Alice,share:Bob',
+        'yesterday,Hotel,10,EUR,10,5,5',
+        '2024-03-01,Taxi,10,EUR,10,5,4',
+        '2024-03-01,Dinner,10.005,EUR,10,5,5',
+        '2024-03-01,Lunch,10,EUR,10,5,5',
+      ].join('\n'),
+      'csv',
+    );
+
+    expect(result.expenses.map(({ row }) => row)).toEqual([5]);
+    expect(result.errors.map(({ row }) => row)).toEqual([2, 3, 4]);
+  });
+
+  it('should reject a file without required columns', () => {
+    const result = parseExpenses('date,name,paid:Alice\n', 'csv');
+
+    expect(result.errors).toEqual([
+      { row: 1, message: 'Missing columns: amount, currency.' },
+    ]);
+  });
+
+  it('should derive payers and shares from Splitwise net balances', () => {
+    const result = parseExpenses(
+      [
+        'Date,Description,Category,Cost,Currency,Alice,Bob,Carol',
+        '2024-03-01,Groceries,General,90.00,EUR,60.00,-30.00,-30.00',
+        '2024-03-02,Settle up,Payment,30.00,EUR,-30.00,30.00,0.00',
+        ',Total balance,,,EUR,30.00,0.00,-30.00',
+      ].join('\n'),
+      'splitwise',
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings.map(({ row }) => row)).toEqual([3]);
+    expect(result.expenses).toHaveLength(1);
+    expect(result.expenses[0].paid).toEqual(new Map([['Alice', 9000n]]));
+    expect(result.expenses[0].shares).toEqual(
+      new Map([
+        ['Bob', 3000n],
+        ['Carol', 3000n],
+        ['Alice', 3000n],
+      ]),
+    );
+  });
+
+  it('should reject Splitwise rows nobody is owed', () => {
+    const result = parseExpenses(
+      [
+        'Date,Description,Category,Cost,Currency,Alice,Bob',
+        '2024-03-01,Groceries,General,90.00,EUR,0.00,0.00',
+      ].join('\n'),
+      'splitwise',
+    );
+
+    expect(result.expenses).toEqual([]);
+    expect(result.errors.map(({ row }) => row)).toEqual([2]);
+  });
+
+  it('should read what it formats', () => {
+    const expense = {
+      date: new Date('2024-03-01T12:00:00.000Z'),
+      name: 'Dinner, "downtown"',
+      currencyCode: 'USD',
+      amount: 1001n,
+      paid: new Map([['Alice', 1001n]]),
+      shares: new Map([
+        ['Alice', 501n],
+        ['Bob', 500n],
+      ]),
+    };
+
+    const result = parseExpenses(
+      stringifyCsv(formatExpenses([expense])),
+      'csv',
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.expenses).toEqual([{ row: 2, ...expense }]);
+  });
+});
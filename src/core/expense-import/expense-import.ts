@@ -0,0 +1,327 @@
+import { parseCsv } from '../csv/csv';
+import { CurrencyCode } from '../currency/exchange-rates';
+import { formatMinorUnits, parseMinorUnits } from '../currency/minor-units';
+import { Money, sumMoney } from '../currency/money';
+
+export const EXPENSE_IMPORT_FORMATS = ['csv', 'splitwise'] as const;
+
+export type ExpenseImportFormat = (typeof EXPENSE_IMPORT_FORMATS)[number];
+
+/**
+ * Expense read from a file, with members referred to by their names there.
+ */
+export interface ImportedExpense {
+  /**
+   * Line of the file the expense has been read from, the header being 1.
+   */
+  row: number;
+  date: Date;
+  name: string;
+  currencyCode: CurrencyCode;
+  /**
+   * Amounts in minor units of the currency.
+   */
+  amount: Money;
+  paid: Map<string, Money>;
+  shares: Map<string, Money>;
+}
+
+export interface ImportIssue {
+  row: number;
+  message: string;
+}
+
+export interface ExpenseImport {
+  expenses: ImportedExpense[];
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+}
+
+const PAID_PREFIX = 'paid:';
+const SHARE_PREFIX = 'share:';
+const CSV_COLUMNS = ['date', 'name', 'amount', 'currency'];
+const SPLITWISE_COLUMNS = [
+  'Date',
+  'Description',
+  'Category',
+  'Cost',
+  'Currency',
+];
+const SPLITWISE_PAYMENT_CATEGORY = 'Payment';
+const SPLITWISE_TOTAL_BALANCE = 'Total balance';
+
+export function parseExpenses(
+  text: string,
+  format: ExpenseImportFormat,
+): ExpenseImport {
+  let rows: string[][];
+  try {
+    rows = parseCsv(text);
+  } catch (error) {
+    return emptyImport(toIssue(1, error));
+  }
+  if (!rows.length) {
+    return emptyImport({ row: 1, message: 'The file is empty.' });
+  }
+
+  return format === 'splitwise' ? parseSplitwise(rows) : parseOwnCsv(rows);
+}
+
+/**
+ * Formats expenses the way `parseExpenses` reads them in the `csv` format.
+ */
+export function formatExpenses(expenses: Omit<ImportedExpense, 'row'>[]) {
+  const members = new Set<string>();
+  for (const expense of expenses) {
+    [...expense.paid.keys(), ...expense.shares.keys()].forEach((member) =>
+      members.add(member),
+    );
+  }
+
+  const header = [
+    ...CSV_COLUMNS,
+    ...[...members].map((member) => PAID_PREFIX + member),
+    ...[...members].map((member) => SHARE_PREFIX + member),
+  ];
+  const rows = expenses.map((expense) => {
+    const format = (amounts: Map<string, Money>) =>
+      [...members].map((member) =>
+        amounts.has(member)
+          ? formatMinorUnits(amounts.get(member), expense.currencyCode)
+          : '',
+      );
+    return [
+      expense.date.toISOString(),
+      expense.name,
+      formatMinorUnits(expense.amount, expense.currencyCode),
+      expense.currencyCode,
+      ...format(expense.paid),
+      ...format(expense.shares),
+    ];
+  });
+
+  return [header, ...rows];
+}
+
+/**
+ * Reads `date,name,amount,currency` columns, followed by `paid:<member>` and
+ * `share:<member>` columns of every member. Empty cells are zero.
+ */
+function parseOwnCsv([header, ...rows]: string[][]): ExpenseImport {
+  const result = emptyImport();
+  const columns = header.map((column) => column.trim());
+
+  const missing = CSV_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length) {
+    result.errors.push({
+      row: 1,
+      message: `Missing columns: ${missing.join(', ')}.`,
+    });
+    return result;
+  }
+
+  const memberColumns = (prefix: string) =>
+    columns
+      .map((column, index) => [column, index] as const)
+      .filter(([column]) => column.startsWith(prefix))
+      .map(([column, index]) => [column.slice(prefix.length), index] as const);
+  const paidColumns = memberColumns(PAID_PREFIX);
+  const shareColumns = memberColumns(SHARE_PREFIX);
+
+  rows.forEach((cells, index) => {
+    const row = index + 2;
+    const cell = (column: string) =>
+      (cells[columns.indexOf(column)] ?? '').trim();
+
+    try {
+      const currencyCode = parseCurrencyCode(cell('currency'));
+      const amount = parsePositiveAmount(cell('amount'), currencyCode);
+      const readAmounts = (memberColumns: (readonly [string, number])[]) => {
+        const amounts = new Map<string, Money>();
+        for (const [member, column] of memberColumns) {
+          const value = (cells[column] ?? '').trim();
+          if (!value) {
+            continue;
+          }
+          const memberAmount = parseMinorUnits(value, currencyCode);
+          if (memberAmount < 0n) {
+            throw new Error(`Expected a non-negative amount of ${member}.`);
+          }
+          if (memberAmount > 0n) {
+            amounts.set(member, (amounts.get(member) ?? 0n) + memberAmount);
+          }
+        }
+        return amounts;
+      };
+
+      const expense: ImportedExpense = {
+        row,
+        date: parseDate(cell('date')),
+        name: parseName(cell('name')),
+        currencyCode,
+        amount,
+        paid: readAmounts(paidColumns),
+        shares: readAmounts(shareColumns),
+      };
+      assertBalanced(expense);
+      result.expenses.push(expense);
+    } catch (error) {
+      result.errors.push(toIssue(row, error));
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Reads the Splitwise export, where every member column holds what the member
+ * paid less their share. Payers are those with a positive net, and whatever
+ * the debtors didn't consume is the share of the largest payer.
+ */
+function parseSplitwise([header, ...rows]: string[][]): ExpenseImport {
+  const result = emptyImport();
+  const columns = header.map((column) => column.trim());
+
+  if (SPLITWISE_COLUMNS.some((column, index) => columns[index] !== column)) {
+    result.errors.push({
+      row: 1,
+      message: `Expected the first columns to be: ${SPLITWISE_COLUMNS.join(', ')}.`,
+    });
+    return result;
+  }
+  const members = columns.slice(SPLITWISE_COLUMNS.length);
+
+  rows.forEach((cells, index) => {
+    const row = index + 2;
+    const [date, description, category, cost, currency] = cells.map((cell) =>
+      cell.trim(),
+    );
+
+    if (description === SPLITWISE_TOTAL_BALANCE) {
+      return;
+    }
+    if (category === SPLITWISE_PAYMENT_CATEGORY) {
+      result.warnings.push({
+        row,
+        message: `Skipped the payment "${description}", record it as a settlement instead.`,
+      });
+      return;
+    }
+
+    try {
+      const currencyCode = parseCurrencyCode(currency);
+      const amount = parsePositiveAmount(cost, currencyCode);
+      const paid = new Map<string, Money>();
+      const shares = new Map<string, Money>();
+
+      members.forEach((member, memberIndex) => {
+        const value = (cells[SPLITWISE_COLUMNS.length + memberIndex] ?? '')
+          .trim()
+          .replace(/^\+/, '');
+        const net = value ? parseMinorUnits(value, currencyCode) : 0n;
+        if (net > 0n) {
+          paid.set(member, net);
+        } else if (net < 0n) {
+          shares.set(member, -net);
+        }
+      });
+
+      const payers = [...paid.entries()].sort(([, a], [, b]) =>
+        a < b ? 1 : a > b ? -1 : 0,
+      );
+      if (!payers.length) {
+        throw new Error('Expected someone to be owed the expense.');
+      }
+
+      const remainder = amount - sumMoney(paid.values());
+      if (remainder < 0n) {
+        throw new Error(
+          `Expected members to be owed at most ${cost}, but they are owed more.`,
+        );
+      }
+      if (remainder > 0n) {
+        const [largestPayer, largestPaid] = payers[0];
+        paid.set(largestPayer, largestPaid + remainder);
+        shares.set(largestPayer, remainder);
+      }
+
+      const expense: ImportedExpense = {
+        row,
+        date: parseDate(date),
+        name: parseName(description),
+        currencyCode,
+        amount,
+        paid,
+        shares,
+      };
+      assertBalanced(expense);
+      result.expenses.push(expense);
+    } catch (error) {
+      result.errors.push(toIssue(row, error));
+    }
+  });
+
+  return result;
+}
+
+function emptyImport(...errors: ImportIssue[]): ExpenseImport {
+  return { expenses: [], errors, warnings: [] };
+}
+
+function toIssue(row: number, error: unknown): ImportIssue {
+  if (error instanceof Error) {
+    return { row, message: error.message };
+  }
+  throw error;
+}
+
+function assertBalanced(expense: ImportedExpense) {
+  const format = (amount: Money) =>
+    formatMinorUnits(amount, expense.currencyCode);
+  const paid = sumMoney(expense.paid.values());
+  const shared = sumMoney(expense.shares.values());
+  if (!paid) {
+    throw new Error('Expected someone to pay for the expense.');
+  }
+  if (paid !== expense.amount) {
+    throw new Error(
+      `Expected payers to pay ${format(expense.amount)}, but they paid ${format(paid)}.`,
+    );
+  }
+  if (shared !== expense.amount) {
+    throw new Error(
+      `Expected shares to sum up to ${format(expense.amount)}, but got ${format(shared)}.`,
+    );
+  }
+}
+
+function parseDate(value: string) {
+  const date = new Date(value);
+  if (!value || Number.isNaN(date.getTime())) {
+    throw new Error(`Expected a date, but got "${value}".`);
+  }
+  return date;
+}
+
+function parseName(value: string) {
+  if (!value) {
+    throw new Error('Expected a name of the expense.');
+  }
+  return value;
+}
+
+function parseCurrencyCode(value: string) {
+  const currencyCode = value.toUpperCase();
+  if (!/^[A-Z]{3}$/.test(currencyCode)) {
+    throw new Error(`Expected a currency code, but got "${value}".`);
+  }
+  return currencyCode;
+}
+
+function parsePositiveAmount(value: string, currencyCode: CurrencyCode) {
+  const amount = parseMinorUnits(value, currencyCode);
+  if (amount <= 0n) {
+    throw new Error(`Expected a positive amount, but got "${value}".`);
+  }
+  return amount;
+}
@@ -0,0 +1,229 @@
+import { DebtSimplifier } from '../debt-simplifier/debt-simplifier';
+import { ExpenseSplitter } from './expense-splitter';
+
+describe('ExpenseSplitter', () => {
+  let debtSimplifier: DebtSimplifier;
+  let expenseSplitter: ExpenseSplitter;
+
+  beforeEach(() => {
+    debtSimplifier = new DebtSimplifier();
+    expenseSplitter = new ExpenseSplitter(debtSimplifier);
+  });
+
+  it('should split equally, and allocate remainder cents by participants order', () => {
+    const shares = expenseSplitter.split(100n, {
+      type: 'equal',
+      participants: ['A', 'B', 'C'],
+    });
+
+    expect([...shares.entries()]).toEqual([
+      ['A', 34n],
+      ['B', 33n],
+      ['C', 33n],
+    ]);
+  });
+
+  it('should split by exact amounts', () => {
+    const shares = expenseSplitter.split(100n, {
+      type: 'exact',
+      amounts: [
+        { debtorId: 'A', amount: 70n },
+        { debtorId: 'B', amount: 30n },
+      ],
+    });
+
+    expect(shares.get('A')).toBe(70n);
+    expect(shares.get('B')).toBe(30n);
+  });
+
+  it('should reject exact amounts not summing up to the expense amount', () => {
+    expect(() =>
+      expenseSplitter.split(100n, {
+        type: 'exact',
+        amounts: [
+          { debtorId: 'A', amount: 70n },
+          { debtorId: 'B', amount: 20n },
+        ],
+      }),
+    ).toThrow();
+  });
+
+  it('should split by percentages, and allocate remainder by the largest fraction', () => {
+    const shares = expenseSplitter.split(1001n, {
+      type: 'percentage',
+      percentages: [
+        { debtorId: 'A', percentage: 33.33 },
+        { debtorId: 'B', percentage: 33.33 },
+        { debtorId: 'C', percentage: 33.34 },
+      ],
+    });
+
+    expect(shares.get('A')).toBe(334n);
+    expect(shares.get('B')).toBe(333n);
+    expect(shares.get('C')).toBe(334n);
+  });
+
+  it('should reject percentages not summing up to 100', () => {
+    expect(() =>
+      expenseSplitter.split(100n, {
+        type: 'percentage',
+        percentages: [
+          { debtorId: 'A', percentage: 50 },
+          { debtorId: 'B', percentage: 40 },
+        ],
+      }),
+    ).toThrow();
+  });
+
+  it('should reject negative, and non-finite percentages', () => {
+    expect(() =>
+      expenseSplitter.split(100n, {
+        type: 'percentage',
+        percentages: [
+          { debtorId: 'A', percentage: 150 },
+          { debtorId: 'B', percentage: -50 },
+        ],
+      }),
+    ).toThrow('Expected a non-negative percentage, but got -50.');
+    for (const percentage of [NaN, Infinity]) {
+      expect(() =>
+        expenseSplitter.split(100n, {
+          type: 'percentage',
+          percentages: [
+            { debtorId: 'A', percentage: 100 },
+            { debtorId: 'B', percentage },
+          ],
+        }),
+      ).toThrow(`Expected a non-negative percentage, but got ${percentage}.`);
+    }
+  });
+
+  it('should allow zero percentages', () => {
+    const shares = expenseSplitter.split(100n, {
+      type: 'percentage',
+      percentages: [
+        { debtorId: 'A', percentage: 100 },
+        { debtorId: 'B', percentage: 0 },
+      ],
+    });
+
+    expect(shares.get('A')).toBe(100n);
+  });
+
+  it('should split by shares', () => {
+    const shares = expenseSplitter.split(1000n, {
+      type: 'shares',
+      shares: [
+        { debtorId: 'A', shares: 2 },
+        { debtorId: 'B', shares: 1 },
+        { debtorId: 'C', shares: 1 },
+      ],
+    });
+
+    expect(shares.get('A')).toBe(500n);
+    expect(shares.get('B')).toBe(250n);
+    expect(shares.get('C')).toBe(250n);
+  });
+
+  it('should split itemized lines, and spread the leftover proportionally', () => {
+    const shares = expenseSplitter.split(1100n, {
+      type: 'itemized',
+      items: [
+        { amount: 600n, participants: ['A'] },
+        { amount: 400n, participants: ['A', 'B'] },
+      ],
+    });
+
+    expect(shares.get('A')).toBe(880n);
+    expect(shares.get('B')).toBe(220n);
+  });
+
+  it('should reject non-positive, and non-integer amounts', () => {
+    expect(() =>
+      expenseSplitter.split(0n, { type: 'equal', participants: ['A'] }),
+    ).toThrow();
+    expect(() =>
+      expenseSplitter.split(10.5 as unknown as bigint, {
+        type: 'equal',
+        participants: ['A'],
+      }),
+    ).toThrow(/positive integer expense amount/);
+  });
+
+  it('should record debts of every debtor but the creditor under one expense id', () => {
+    expenseSplitter.add({
+      expenseId: 1,
+      creditorId: 'A',
+      amount: 90n,
+      split: { type: 'equal', participants: ['A', 'B', 'C'] },
+    });
+
+    const creditors = debtSimplifier.getCreditors();
+
+    expect(creditors.get('A')?.get('B')?.owes).toBe(30n);
+    expect(creditors.get('A')?.get('C')?.owes).toBe(30n);
+    expect(creditors.get('A')?.has('A')).toBe(false);
+    expect(creditors.get('A')?.get('B')?.debts[0].expenseId).toBe(1);
+  });
+
+  it('should derive debts of an expense paid by many payers proportionally', () => {
+    const debts = expenseSplitter.deriveMultiPayerDebts(
+      [
+        { creditorId: 'A', amount: 300n },
+        { creditorId: 'B', amount: 900n },
+      ],
+      { type: 'equal', participants: ['A', 'B', 'C', 'D'] },
+    );
+
+    expect(debts).toEqual([
+      { creditorId: 'B', debtorId: 'C', amount: 300n },
+      { creditorId: 'B', debtorId: 'D', amount: 300n },
+    ]);
+  });
+
+  it('should split debts between many payers owed money', () => {
+    const debts = expenseSplitter.deriveMultiPayerDebts(
+      [
+        { creditorId: 'A', amount: 500n },
+        { creditorId: 'B', amount: 1000n },
+      ],
+      { type: 'equal', participants: ['A', 'B', 'C'] },
+    );
+
+    expect(debts).toEqual([{ creditorId: 'B', debtorId: 'C', amount: 500n }]);
+
+    const unevenDebts = expenseSplitter.deriveMultiPayerDebts(
+      [
+        { creditorId: 'A', amount: 700n },
+        { creditorId: 'B', amount: 800n },
+      ],
+      { type: 'equal', participants: ['C', 'D', 'E'] },
+    );
+
+    expect(unevenDebts).toEqual([
+      { creditorId: 'A', debtorId: 'C', amount: 233n },
+      { creditorId: 'B', debtorId: 'C', amount: 267n },
+      { creditorId: 'A', debtorId: 'D', amount: 234n },
+      { creditorId: 'B', debtorId: 'D', amount: 266n },
+      { creditorId: 'A', debtorId: 'E', amount: 233n },
+      { creditorId: 'B', debtorId: 'E', amount: 267n },
+    ]);
+  });
+
+  it('should record debts of an expense paid by many payers under one expense id', () => {
+    expenseSplitter.addMultiPayer({
+      expenseId: 7,
+      payers: [
+        { creditorId: 'A', amount: 600n },
+        { creditorId: 'B', amount: 300n },
+      ],
+      split: { type: 'equal', participants: ['A', 'B', 'C'] },
+    });
+
+    const creditors = debtSimplifier.getCreditors();
+
+    expect(creditors.get('A')?.get('C')?.owes).toBe(300n);
+    expect(creditors.get('A')?.get('C')?.debts[0].expenseId).toBe(7);
+    expect(creditors.get('B')?.get('C')).toBeUndefined();
+  });
+});
@@ -0,0 +1,337 @@
+import {
+  CreditorId,
+  DebtSimplifier,
+  DebtorId,
+  ExpenseId,
+} from '../debt-simplifier/debt-simplifier';
+import { Money, compareMoney, sumMoney } from '../currency/money';
+
+export interface EqualSplit {
+  type: 'equal';
+  participants: DebtorId[];
+}
+
+export interface ExactSplit {
+  type: 'exact';
+  amounts: { debtorId: DebtorId; amount: Money }[];
+}
+
+export interface PercentageSplit {
+  type: 'percentage';
+  /**
+   * Percentages with at most 2 decimal places, summing up to 100.
+   */
+  percentages: { debtorId: DebtorId; percentage: number }[];
+}
+
+export interface SharesSplit {
+  type: 'shares';
+  shares: { debtorId: DebtorId; shares: number }[];
+}
+
+export interface ItemizedSplit {
+  type: 'itemized';
+  /**
+   * Whatever is left from the expense amount after paying for the items
+   * (e.g. tax, or tip) is split proportionally to the items each debtor had.
+   */
+  items: { amount: Money; participants: DebtorId[] }[];
+}
+
+export type SplitStrategy =
+  | EqualSplit
+  | ExactSplit
+  | PercentageSplit
+  | SharesSplit
+  | ItemizedSplit;
+
+export interface SplitExpense {
+  expenseId: ExpenseId;
+  creditorId: CreditorId;
+  amount: Money;
+  split: SplitStrategy;
+}
+
+export interface ExpensePayer {
+  creditorId: CreditorId;
+  amount: Money;
+}
+
+export interface MultiPayerSplitExpense {
+  expenseId: ExpenseId;
+  /**
+   * The expense amount is the sum of what every payer contributed.
+   */
+  payers: ExpensePayer[];
+  split: SplitStrategy;
+}
+
+export interface DerivedDebt {
+  creditorId: CreditorId;
+  debtorId: DebtorId;
+  amount: Money;
+}
+
+export type ExpenseShares = Map<DebtorId, Money>;
+
+const PERCENTAGE_PRECISION = 100;
+
+export class ExpenseSplitter {
+  constructor(private debtSimplifier: DebtSimplifier) {}
+
+  /**
+   * Splits the expense, and records what every debtor owes the creditor
+   * under the expense id. The creditor's own share is not a debt.
+   */
+  add(expense: SplitExpense) {
+    const shares = this.split(expense.amount, expense.split);
+
+    for (const [debtorId, amount] of shares) {
+      if (debtorId === expense.creditorId || amount <= 0n) {
+        continue;
+      }
+      this.debtSimplifier.add(
+        expense.creditorId,
+        debtorId,
+        amount,
+        expense.expenseId,
+      );
+    }
+
+    return shares;
+  }
+
+  /**
+   * Splits the expense paid by many payers. Everyone who paid more than their
+   * share is owed the difference, by everyone who paid less than their share,
+   * proportionally to the differences.
+   */
+  addMultiPayer(expense: MultiPayerSplitExpense) {
+    const debts = this.deriveMultiPayerDebts(expense.payers, expense.split);
+
+    for (const { creditorId, debtorId, amount } of debts) {
+      this.debtSimplifier.add(creditorId, debtorId, amount, expense.expenseId);
+    }
+
+    return debts;
+  }
+
+  deriveMultiPayerDebts(
+    payers: ExpensePayer[],
+    strategy: SplitStrategy,
+  ): DerivedDebt[] {
+    if (!payers.length) {
+      throw new Error('Expected at least one payer of the expense.');
+    }
+
+    const paid: ExpenseShares = new Map();
+    for (const { creditorId, amount } of payers) {
+      this.assertAmount(amount, `amount paid by ${creditorId}`);
+      paid.set(creditorId, (paid.get(creditorId) ?? 0n) + amount);
+    }
+
+    const shares = this.split(sumMoney(paid.values()), strategy);
+
+    const balances = new Map<CreditorId | DebtorId, Money>();
+    for (const [creditorId, amount] of paid) {
+      balances.set(creditorId, amount);
+    }
+    for (const [debtorId, share] of shares) {
+      balances.set(debtorId, (balances.get(debtorId) ?? 0n) - share);
+    }
+
+    const surpluses = new Map(
+      [...balances.entries()].filter(([, balance]) => balance > 0n),
+    );
+    const debts: DerivedDebt[] = [];
+
+    // Allocating against the remaining surpluses makes every payer owed
+    // exactly what they paid over their share, despite rounding.
+    for (const [debtorId, balance] of balances) {
+      if (balance >= 0n) {
+        continue;
+      }
+      const owedTo = this.allocate(
+        -balance,
+        [...surpluses.entries()].filter(([, surplus]) => surplus > 0n),
+      );
+      for (const [creditorId, amount] of owedTo) {
+        if (amount > 0n) {
+          debts.push({ creditorId, debtorId, amount });
+          surpluses.set(creditorId, surpluses.get(creditorId) - amount);
+        }
+      }
+    }
+
+    return debts;
+  }
+
+  /**
+   * Calculates integer shares of every participant summing up to `amount`.
+   * Remainder units are allocated deterministically by the largest fractional
+   * part, and then by the order of participants.
+   */
+  split(amount: Money, strategy: SplitStrategy): ExpenseShares {
+    this.assertAmount(amount, 'expense amount');
+
+    switch (strategy.type) {
+      case 'equal':
+        return this.allocate(
+          amount,
+          strategy.participants.map((debtorId) => [debtorId, 1n]),
+        );
+      case 'exact':
+        return this.splitExact(amount, strategy);
+      case 'percentage':
+        return this.splitByPercentage(amount, strategy);
+      case 'shares':
+        return this.allocate(
+          amount,
+          strategy.shares.map(({ debtorId, shares }) => {
+            if (!Number.isSafeInteger(shares) || shares <= 0) {
+              throw new Error(
+                `Expected a positive integer number of shares, but got ${shares}.`,
+              );
+            }
+            return [debtorId, BigInt(shares)];
+          }),
+        );
+      case 'itemized':
+        return this.splitItemized(amount, strategy);
+      default:
+        throw new Error(
+          `Unsupported split strategy ${(strategy as SplitStrategy).type}.`,
+        );
+    }
+  }
+
+  private splitExact(amount: Money, strategy: ExactSplit) {
+    const shares: ExpenseShares = new Map();
+
+    for (const { debtorId, amount: share } of strategy.amounts) {
+      if (typeof share !== 'bigint' || share < 0n) {
+        throw new Error(
+          `Expected a non-negative integer share of ${debtorId}, but got ${share}.`,
+        );
+      }
+      shares.set(debtorId, (shares.get(debtorId) ?? 0n) + share);
+    }
+
+    const total = sumMoney(shares.values());
+    if (total !== amount) {
+      throw new Error(
+        `Expected exact shares to sum up to ${amount}, but got ${total}.`,
+      );
+    }
+
+    return shares;
+  }
+
+  private splitByPercentage(amount: Money, strategy: PercentageSplit) {
+    const weights = strategy.percentages.map(({ debtorId, percentage }) => {
+      if (!Number.isFinite(percentage) || percentage < 0) {
+        throw new Error(
+          `Expected a non-negative percentage, but got ${percentage}.`,
+        );
+      }
+      return [debtorId, Math.round(percentage * PERCENTAGE_PRECISION)] as const;
+    });
+
+    const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+    if (total !== 100 * PERCENTAGE_PRECISION) {
+      throw new Error(
+        `Expected percentages to sum up to 100, but got ${total / PERCENTAGE_PRECISION}.`,
+      );
+    }
+
+    return this.allocate(
+      amount,
+      weights.map(([debtorId, weight]) => [debtorId, BigInt(weight)]),
+    );
+  }
+
+  private splitItemized(amount: Money, strategy: ItemizedSplit) {
+    const shares: ExpenseShares = new Map();
+
+    for (const item of strategy.items) {
+      this.assertAmount(item.amount, 'item amount');
+      const itemShares = this.allocate(
+        item.amount,
+        item.participants.map((debtorId) => [debtorId, 1n]),
+      );
+      for (const [debtorId, share] of itemShares) {
+        shares.set(debtorId, (shares.get(debtorId) ?? 0n) + share);
+      }
+    }
+
+    const itemsTotal = sumMoney(shares.values());
+    if (itemsTotal > amount) {
+      throw new Error(
+        `Expected items to sum up to at most ${amount}, but got ${itemsTotal}.`,
+      );
+    }
+    if (itemsTotal === amount) {
+      return shares;
+    }
+
+    const leftovers = this.allocate(amount - itemsTotal, [...shares.entries()]);
+    for (const [debtorId, leftover] of leftovers) {
+      shares.set(debtorId, shares.get(debtorId) + leftover);
+    }
+
+    return shares;
+  }
+
+  /**
+   * Largest remainder allocation of `amount` proportionally to the weights.
+   */
+  private allocate(
+    amount: Money,
+    weights: (readonly [DebtorId, bigint])[],
+  ): ExpenseShares {
+    if (!weights.length) {
+      throw new Error('Expected at least one participant of the split.');
+    }
+
+    const totalWeight = sumMoney(weights.map(([, weight]) => weight));
+    if (totalWeight <= 0n) {
+      throw new Error(
+        `Expected a positive total weight of the split, but got ${totalWeight}.`,
+      );
+    }
+
+    const allocations = weights.map(([debtorId, weight], index) => {
+      const units = amount * weight;
+      return {
+        debtorId,
+        index,
+        share: units / totalWeight,
+        remainder: units % totalWeight,
+      };
+    });
+
+    let remaining = amount - sumMoney(allocations.map(({ share }) => share));
+    const byRemainderDescending = [...allocations].sort(
+      (a, b) => compareMoney(b.remainder, a.remainder) || a.index - b.index,
+    );
+    for (const allocation of byRemainderDescending) {
+      if (remaining <= 0n) {
+        break;
+      }
+      allocation.share += 1n;
+      remaining -= 1n;
+    }
+
+    const shares: ExpenseShares = new Map();
+    for (const { debtorId, share } of allocations) {
+      shares.set(debtorId, (shares.get(debtorId) ?? 0n) + share);
+    }
+    return shares;
+  }
+
+  private assertAmount(value: Money, name: string) {
+    if (typeof value !== 'bigint' || value <= 0n) {
+      throw new Error(`Expected a positive integer ${name}, but got ${value}.`);
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import {
+  assertSchedule,
+  getFirstOccurrence,
+  getNextOccurrence,
+} from './recurrence';
+
+const date = (value: string) => new Date(value);
+
+describe('recurrence', () => {
+  it('should start on the start date', () => {
+    expect(
+      getFirstOccurrence({
+        frequency: 'weekly',
+        interval: 1,
+        startsAt: date('2024-01-01T09:00:00Z'),
+      }),
+    ).toEqual(date('2024-01-01T09:00:00Z'));
+  });
+
+  it('should recur every n days, and weeks', () => {
+    expect(
+      getNextOccurrence(
+        {
+          frequency: 'daily',
+          interval: 3,
+          startsAt: date('2024-01-01T09:00:00Z'),
+        },
+        date('2024-01-04T09:00:00Z'),
+      ),
+    ).toEqual(date('2024-01-07T09:00:00Z'));
+
+    expect(
+      getNextOccurrence(
+        {
+          frequency: 'weekly',
+          interval: 2,
+          startsAt: date('2024-01-01T09:00:00Z'),
+        },
+        date('2024-01-02T00:00:00Z'),
+      ),
+    ).toEqual(date('2024-01-15T09:00:00Z'));
+  });
+
+  it('should keep the day of the month, falling back to the last day of shorter months', () => {
+    const schedule = {
+      frequency: 'monthly' as const,
+      interval: 1,
+      startsAt: date('2024-01-31T12:00:00Z'),
+    };
+
+    const february = getNextOccurrence(schedule, schedule.startsAt);
+    const march = getNextOccurrence(schedule, february);
+
+    expect(february).toEqual(date('2024-02-29T12:00:00Z'));
+    expect(march).toEqual(date('2024-03-31T12:00:00Z'));
+  });
+
+  it('should recur every n months', () => {
+    expect(
+      getNextOccurrence(
+        {
+          frequency: 'monthly',
+          interval: 3,
+          startsAt: date('2024-01-15T00:00:00Z'),
+        },
+        date('2024-06-20T00:00:00Z'),
+      ),
+    ).toEqual(date('2024-07-15T00:00:00Z'));
+  });
+
+  it('should follow the cron expression, not before the start date', () => {
+    const schedule = {
+      frequency: 'cron' as const,
+      cron: '0 9 1 * *',
+      startsAt: date('2024-03-15T00:00:00Z'),
+    };
+
+    expect(getFirstOccurrence(schedule)).toEqual(date('2024-04-01T09:00:00Z'));
+    expect(getNextOccurrence(schedule, date('2024-04-01T09:00:00Z'))).toEqual(
+      date('2024-05-01T09:00:00Z'),
+    );
+  });
+
+  it('should end after the end date', () => {
+    expect(
+      getNextOccurrence(
+        {
+          frequency: 'daily',
+          interval: 1,
+          startsAt: date('2024-01-01T00:00:00Z'),
+          endsAt: date('2024-01-03T00:00:00Z'),
+        },
+        date('2024-01-03T00:00:00Z'),
+      ),
+    ).toBeNull();
+  });
+
+  it('should reject invalid schedules', () => {
+    expect(() =>
+      assertSchedule({
+        frequency: 'cron',
+        cron: 'every day',
+        startsAt: date('2024-01-01T00:00:00Z'),
+      }),
+    ).toThrow();
+    expect(() =>
+      assertSchedule({
+        frequency: 'daily',
+        interval: 0,
+        startsAt: date('2024-01-01T00:00:00Z'),
+      }),
+    ).toThrow();
+  });
+});
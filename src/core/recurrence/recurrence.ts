@@ -0,0 +1,139 @@
+import { CronTime } from 'cron';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface IntervalSchedule {
+  frequency: RecurrenceFrequency;
+  /**
+   * Every how many days, weeks, or months the expense recurs.
+   */
+  interval: number;
+  startsAt: Date;
+  endsAt?: Date | null;
+}
+
+export interface CronSchedule {
+  frequency: 'cron';
+  /**
+   * Cron expression evaluated in UTC, e.g. `0 9 1 * *`.
+   */
+  cron: string;
+  startsAt: Date;
+  endsAt?: Date | null;
+}
+
+export type RecurrenceSchedule = IntervalSchedule | CronSchedule;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Finds the first occurrence of the schedule strictly after `after`, or null
+ * if the schedule ends before that.
+ *
+ * Monthly schedules keep the day of the month of `startsAt`, falling back to
+ * the last day of shorter months, so an expense starting on the 31st recurs
+ * on Feb 28th, and then on Mar 31st again.
+ */
+export function getNextOccurrence(
+  schedule: RecurrenceSchedule,
+  after: Date,
+): Date | null {
+  const next = findNextOccurrence(schedule, after);
+  if (schedule.endsAt && next > schedule.endsAt) {
+    return null;
+  }
+  return next;
+}
+
+/**
+ * Finds the first occurrence of the schedule, at `startsAt` or later.
+ */
+export function getFirstOccurrence(schedule: RecurrenceSchedule) {
+  return getNextOccurrence(schedule, new Date(schedule.startsAt.getTime() - 1));
+}
+
+export function assertSchedule(schedule: RecurrenceSchedule) {
+  if (Number.isNaN(schedule.startsAt.getTime())) {
+    throw new Error('Expected a valid start of the schedule.');
+  }
+  if (schedule.endsAt && schedule.endsAt < schedule.startsAt) {
+    throw new Error('Expected the schedule to end after it starts.');
+  }
+
+  if (schedule.frequency === 'cron') {
+    try {
+      new CronTime(schedule.cron, 'UTC');
+    } catch {
+      throw new Error(`Invalid cron expression ${schedule.cron}.`);
+    }
+    return;
+  }
+
+  if (!Number.isInteger(schedule.interval) || schedule.interval <= 0) {
+    throw new Error(
+      `Expected a positive integer interval, but got ${schedule.interval}.`,
+    );
+  }
+}
+
+function findNextOccurrence(schedule: RecurrenceSchedule, after: Date) {
+  const { startsAt } = schedule;
+
+  switch (schedule.frequency) {
+    case 'cron': {
+      const from =
+        after < startsAt ? new Date(startsAt.getTime() - 1000) : after;
+      return new CronTime(schedule.cron, 'UTC')
+        .getNextDateFrom(from, 'UTC')
+        .toJSDate();
+    }
+    case 'daily':
+    case 'weekly': {
+      const step =
+        schedule.interval *
+        DAY_IN_MS *
+        (schedule.frequency === 'weekly' ? 7 : 1);
+      if (after < startsAt) {
+        return startsAt;
+      }
+      const steps =
+        Math.floor((after.getTime() - startsAt.getTime()) / step) + 1;
+      return new Date(startsAt.getTime() + steps * step);
+    }
+    case 'monthly': {
+      const months =
+        (after.getUTCFullYear() - startsAt.getUTCFullYear()) * 12 +
+        after.getUTCMonth() -
+        startsAt.getUTCMonth();
+      let count = Math.max(0, Math.floor(months / schedule.interval) - 1);
+      let next = addMonths(startsAt, count * schedule.interval);
+      while (next <= after) {
+        count += 1;
+        next = addMonths(startsAt, count * schedule.interval);
+      }
+      return next;
+    }
+    default:
+      throw new Error(
+        `Unsupported frequency ${(schedule as RecurrenceSchedule).frequency}.`,
+      );
+  }
+}
+
+function addMonths(date: Date, months: number) {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  return new Date(
+    Date.UTC(
+      year,
+      month,
+      Math.min(date.getUTCDate(), daysInMonth),
+      date.getUTCHours(),
+      date.getUTCMinutes(),
+      date.getUTCSeconds(),
+      date.getUTCMilliseconds(),
+    ),
+  );
+}
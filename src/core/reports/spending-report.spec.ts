@@ -0,0 +1,237 @@
+import { ExchangeRateSnapshot } from '../currency/exchange-rates';
+import {
+  ReportedExpense,
+  convertExpense,
+  findTopExpenses,
+  summarizeCategories,
+  summarizeMembers,
+  summarizeMonths,
+  summarizeTrip,
+} from './spending-report';
+
+const snapshot: ExchangeRateSnapshot = {
+  baseCurrency: 'EUR',
+  rates: { USD: 1.1, JPY: 160 },
+  takenAt: new Date('2024-05-01T00:00:00Z'),
+};
+
+const expense = (
+  overrides: Partial<ReportedExpense> = {},
+): ReportedExpense => ({
+  id: 1,
+  name: 'Dinner',
+  category: 'restaurants',
+  createdAt: new Date('2024-05-10T18:00:00Z'),
+  currencyCode: 'EUR',
+  amount: 3000n,
+  creditorId: 1,
+  debtors: [
+    { userId: 2, amount: 1000n },
+    { userId: 3, amount: 1000n },
+  ],
+  payers: [],
+  snapshot: null,
+  ...overrides,
+});
+
+describe('convertExpense', () => {
+  it('should credit the creditor alone, and their unshared part', () => {
+    const converted = convertExpense(expense(), 'EUR');
+
+    expect(converted.amount).toBe(3000n);
+    expect([...converted.paid]).toEqual([[1, 3000n]]);
+    expect([...converted.consumed]).toEqual([
+      [2, 1000n],
+      [3, 1000n],
+      [1, 1000n],
+    ]);
+  });
+
+  it('should split what was paid between payers', () => {
+    const converted = convertExpense(
+      expense({
+        payers: [
+          { userId: 1, amount: 1000n },
+          { userId: 2, amount: 2000n },
+        ],
+      }),
+      'EUR',
+    );
+
+    expect(converted.paid).toEqual(
+      new Map([
+        [2, 2000n],
+        [1, 1000n],
+      ]),
+    );
+  });
+
+  it('should leave the rounding of converted shares to the creditor', () => {
+    const converted = convertExpense(
+      expense({
+        currencyCode: 'JPY',
+        amount: 1000n,
+        debtors: [
+          { userId: 2, amount: 333n },
+          { userId: 3, amount: 333n },
+        ],
+        snapshot,
+      }),
+      'EUR',
+    );
+
+    // 333 JPY is 2.08125 EUR, and 1000 JPY is 6.25 EUR.
+    expect(converted.amount).toBe(625n);
+    expect(converted.consumed).toEqual(
+      new Map([
+        [2, 208n],
+        [3, 208n],
+        [1, 209n],
+      ]),
+    );
+    expect(converted.paid).toEqual(new Map([[1, 625n]]));
+  });
+
+  it('should reject expenses in another currency without exchange rates', () => {
+    expect(() =>
+      convertExpense(expense({ currencyCode: 'USD' }), 'EUR'),
+    ).toThrow('Expected exchange rates to convert expense 1 from USD to EUR.');
+  });
+});
+
+describe('summarizeMembers', () => {
+  it('should total what every member paid, and consumed', () => {
+    const expenses = [
+      convertExpense(expense(), 'EUR'),
+      convertExpense(
+        expense({
+          id: 2,
+          amount: 1200n,
+          creditorId: 2,
+          debtors: [{ userId: 1, amount: 1200n }],
+        }),
+        'EUR',
+      ),
+    ];
+
+    expect(summarizeMembers(expenses, [1, 2, 3, 4])).toEqual([
+      { userId: 1, paid: 3000n, consumed: 2200n, net: 800n },
+      { userId: 2, paid: 1200n, consumed: 1000n, net: 200n },
+      { userId: 3, paid: 0n, consumed: 1000n, net: -1000n },
+      { userId: 4, paid: 0n, consumed: 0n, net: 0n },
+    ]);
+  });
+
+  it('should list former members who took part in expenses', () => {
+    const expenses = [convertExpense(expense(), 'EUR')];
+
+    expect(
+      summarizeMembers(expenses, [1, 2]).map(({ userId }) => userId),
+    ).toEqual([1, 2, 3]);
+  });
+});
+
+describe('summarizeCategories', () => {
+  it('should total every category, the largest first', () => {
+    const expenses = [
+      expense({ id: 1, amount: 1000n, debtors: [] }),
+      expense({ id: 2, category: 'transport', amount: 5000n, debtors: [] }),
+      expense({ id: 3, amount: 2500n, debtors: [] }),
+      expense({ id: 4, category: null, amount: 100n, debtors: [] }),
+    ].map((e) => convertExpense(e, 'EUR'));
+
+    expect(summarizeCategories(expenses)).toEqual([
+      { category: 'transport', total: 5000n, expenseCount: 1 },
+      { category: 'restaurants', total: 3500n, expenseCount: 2 },
+      { category: null, total: 100n, expenseCount: 1 },
+    ]);
+  });
+});
+
+describe('summarizeMonths', () => {
+  it('should total every month in UTC, including months without expenses', () => {
+    const expenses = [
+      expense({ id: 1, createdAt: new Date('2024-04-30T23:30:00Z') }),
+      expense({ id: 2, createdAt: new Date('2024-07-01T00:00:00Z') }),
+      expense({ id: 3, createdAt: new Date('2024-04-01T00:00:00Z') }),
+    ].map((e) => convertExpense(e, 'EUR'));
+
+    expect(summarizeMonths(expenses)).toEqual([
+      { month: '2024-04', total: 6000n, expenseCount: 2 },
+      { month: '2024-05', total: 0n, expenseCount: 0 },
+      { month: '2024-06', total: 0n, expenseCount: 0 },
+      { month: '2024-07', total: 3000n, expenseCount: 1 },
+    ]);
+  });
+
+  it('should cross years', () => {
+    const expenses = [
+      expense({ id: 1, createdAt: new Date('2023-12-31T12:00:00Z') }),
+      expense({ id: 2, createdAt: new Date('2024-01-01T12:00:00Z') }),
+    ].map((e) => convertExpense(e, 'EUR'));
+
+    expect(summarizeMonths(expenses).map(({ month }) => month)).toEqual([
+      '2023-12',
+      '2024-01',
+    ]);
+  });
+
+  it('should be empty without expenses', () => {
+    expect(summarizeMonths([])).toEqual([]);
+  });
+});
+
+describe('findTopExpenses', () => {
+  it('should find the most expensive expenses, the earlier first', () => {
+    const expenses = [
+      expense({ id: 1, amount: 1000n, debtors: [] }),
+      expense({ id: 2, amount: 5000n, debtors: [] }),
+      expense({
+        id: 3,
+        amount: 5000n,
+        debtors: [],
+        createdAt: new Date('2024-05-01T00:00:00Z'),
+      }),
+    ].map((e) => convertExpense(e, 'EUR'));
+
+    expect(findTopExpenses(expenses, 2).map(({ id }) => id)).toEqual([3, 2]);
+  });
+});
+
+describe('summarizeTrip', () => {
+  it('should total the trip, and average it per day, and member', () => {
+    const expenses = [
+      expense({ id: 1, createdAt: new Date('2024-05-10T23:00:00Z') }),
+      expense({
+        id: 2,
+        amount: 1000n,
+        debtors: [],
+        createdAt: new Date('2024-05-12T01:00:00Z'),
+      }),
+    ].map((e) => convertExpense(e, 'EUR'));
+
+    expect(summarizeTrip(expenses, 3)).toEqual({
+      total: 4000n,
+      expenseCount: 2,
+      memberCount: 3,
+      from: new Date('2024-05-10T23:00:00Z'),
+      to: new Date('2024-05-12T01:00:00Z'),
+      days: 3,
+      perDay: 1333n,
+      perMember: 1333n,
+    });
+  });
+
+  it('should report an empty trip', () => {
+    expect(summarizeTrip([], 2)).toEqual({
+      total: 0n,
+      expenseCount: 0,
+      memberCount: 2,
+      from: null,
+      to: null,
+      days: 0,
+      perDay: 0n,
+      perMember: 0n,
+    });
+  });
+});
@@ -0,0 +1,322 @@
+import {
+  CurrencyCode,
+  ExchangeRateSnapshot,
+  convert,
+} from '../currency/exchange-rates';
+import {
+  Money,
+  compareMoney,
+  divideRounded,
+  sumMoney,
+} from '../currency/money';
+
+export type MemberId = number;
+
+export interface ExpenseParticipant {
+  userId: MemberId;
+  amount: Money;
+}
+
+export interface ReportedExpense {
+  id: number;
+  name: string;
+  category: string | null;
+  createdAt: Date;
+  currencyCode: CurrencyCode;
+  amount: Money;
+  creditorId: MemberId;
+  /**
+   * Shares of the expense. Whatever is not shared is the creditor's share.
+   */
+  debtors: ExpenseParticipant[];
+  /**
+   * Contributions of every payer, or none when the creditor paid alone.
+   */
+  payers: ExpenseParticipant[];
+  /**
+   * Rates to convert the expense with, required by expenses in a currency
+   * other than the currency of the report.
+   */
+  snapshot: ExchangeRateSnapshot | null;
+}
+
+/**
+ * Expense in the currency of the report, with what every member paid, and
+ * consumed of it.
+ */
+export interface ConvertedExpense {
+  id: number;
+  name: string;
+  category: string | null;
+  createdAt: Date;
+  amount: Money;
+  paid: Map<MemberId, Money>;
+  consumed: Map<MemberId, Money>;
+}
+
+export interface MemberSpending {
+  userId: MemberId;
+  paid: Money;
+  consumed: Money;
+  /**
+   * What the member paid for others, negative when others paid for them.
+   */
+  net: Money;
+}
+
+export interface CategorySpending {
+  category: string | null;
+  total: Money;
+  expenseCount: number;
+}
+
+export interface MonthSpending {
+  /**
+   * Month in UTC, e.g. `2024-05`.
+   */
+  month: string;
+  total: Money;
+  expenseCount: number;
+}
+
+export interface TopExpense {
+  id: number;
+  name: string;
+  category: string | null;
+  createdAt: Date;
+  amount: Money;
+}
+
+export interface TripSummary {
+  total: Money;
+  expenseCount: number;
+  memberCount: number;
+  /**
+   * Dates of the first, and the last expense, or null without expenses.
+   */
+  from: Date | null;
+  to: Date | null;
+  /**
+   * Calendar days in UTC from the first expense to the last one, inclusive.
+   */
+  days: number;
+  perDay: Money;
+  perMember: Money;
+}
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Converts the expense to `currencyCode`. Shares of debtors, and
+ * contributions of payers other than the creditor are converted one by one,
+ * and the creditor gets whatever is left of the converted amount, so that
+ * rounding never makes them add up to more, or less than the expense.
+ */
+export function convertExpense(
+  expense: ReportedExpense,
+  currencyCode: CurrencyCode,
+): ConvertedExpense {
+  const toReportCurrency = (amount: Money) => {
+    if (expense.currencyCode === currencyCode) {
+      return amount;
+    }
+    if (!expense.snapshot) {
+      throw new Error(
+        `Expected exchange rates to convert expense ${expense.id} from ${expense.currencyCode} to ${currencyCode}.`,
+      );
+    }
+    return convert(
+      amount,
+      expense.currencyCode,
+      currencyCode,
+      expense.snapshot,
+    );
+  };
+
+  const amount = toReportCurrency(expense.amount);
+  const toShares = (participants: ExpenseParticipant[]) => {
+    const shares = new Map<MemberId, Money>();
+    for (const { userId, amount } of participants) {
+      if (userId !== expense.creditorId) {
+        shares.set(
+          userId,
+          (shares.get(userId) ?? 0n) + toReportCurrency(amount),
+        );
+      }
+    }
+    const shared = sumMoney(shares.values());
+    if (shared > amount) {
+      throw new Error(
+        `Expected shares of expense ${expense.id} of at most ${amount}, but got ${shared}.`,
+      );
+    }
+    if (shared < amount) {
+      shares.set(expense.creditorId, amount - shared);
+    }
+    return shares;
+  };
+
+  return {
+    id: expense.id,
+    name: expense.name,
+    category: expense.category,
+    createdAt: expense.createdAt,
+    amount,
+    paid: toShares(expense.payers),
+    consumed: toShares(expense.debtors),
+  };
+}
+
+/**
+ * What every member paid, and consumed. Members are listed in the given
+ * order, followed by former members who took part in any of the expenses.
+ */
+export function summarizeMembers(
+  expenses: ConvertedExpense[],
+  memberIds: MemberId[],
+): MemberSpending[] {
+  const members = new Map<MemberId, MemberSpending>();
+  const getMember = (userId: MemberId) => {
+    let member = members.get(userId);
+    if (!member) {
+      member = { userId, paid: 0n, consumed: 0n, net: 0n };
+      members.set(userId, member);
+    }
+    return member;
+  };
+  memberIds.forEach(getMember);
+
+  for (const expense of expenses) {
+    for (const [userId, amount] of expense.paid) {
+      getMember(userId).paid += amount;
+    }
+    for (const [userId, amount] of expense.consumed) {
+      getMember(userId).consumed += amount;
+    }
+  }
+
+  return [...members.values()].map((member) => ({
+    ...member,
+    net: member.paid - member.consumed,
+  }));
+}
+
+/**
+ * Spending per category, the largest first. Expenses without a category
+ * are reported under a null category.
+ */
+export function summarizeCategories(
+  expenses: ConvertedExpense[],
+): CategorySpending[] {
+  const categories = new Map<string | null, CategorySpending>();
+  for (const { category, amount } of expenses) {
+    const spending = categories.get(category) ?? {
+      category,
+      total: 0n,
+      expenseCount: 0,
+    };
+    spending.total += amount;
+    spending.expenseCount++;
+    categories.set(category, spending);
+  }
+
+  return [...categories.values()].sort(
+    (a, b) =>
+      compareMoney(b.total, a.total) ||
+      (a.category ?? '').localeCompare(b.category ?? ''),
+  );
+}
+
+/**
+ * Spending per month in UTC, from the month of the first expense to the
+ * month of the last one, including months without any expenses.
+ */
+export function summarizeMonths(expenses: ConvertedExpense[]): MonthSpending[] {
+  if (!expenses.length) {
+    return [];
+  }
+
+  const toMonthIndex = (date: Date) =>
+    date.getUTCFullYear() * 12 + date.getUTCMonth();
+  const indexes = expenses.map(({ createdAt }) => toMonthIndex(createdAt));
+  const first = indexes.reduce((a, b) => Math.min(a, b));
+  const last = indexes.reduce((a, b) => Math.max(a, b));
+
+  const months: MonthSpending[] = [];
+  for (let index = first; index <= last; index++) {
+    const year = Math.floor(index / 12);
+    const month = String((index % 12) + 1).padStart(2, '0');
+    months.push({ month: `${year}-${month}`, total: 0n, expenseCount: 0 });
+  }
+  expenses.forEach(({ amount }, i) => {
+    const spending = months[indexes[i] - first];
+    spending.total += amount;
+    spending.expenseCount++;
+  });
+
+  return months;
+}
+
+/**
+ * The most expensive expenses, the earlier first among equal ones.
+ */
+export function findTopExpenses(
+  expenses: ConvertedExpense[],
+  limit: number,
+): TopExpense[] {
+  return [...expenses]
+    .sort(
+      (a, b) =>
+        compareMoney(b.amount, a.amount) ||
+        a.createdAt.getTime() - b.createdAt.getTime() ||
+        a.id - b.id,
+    )
+    .slice(0, limit)
+    .map(({ id, name, category, createdAt, amount }) => ({
+      id,
+      name,
+      category,
+      createdAt,
+      amount,
+    }));
+}
+
+/**
+ * Totals of the group over the time of its expenses, with averages per day,
+ * and per member rounded to the closest minor unit.
+ */
+export function summarizeTrip(
+  expenses: ConvertedExpense[],
+  memberCount: number,
+): TripSummary {
+  const total = sumMoney(expenses.map(({ amount }) => amount));
+  if (!expenses.length) {
+    return {
+      total,
+      expenseCount: 0,
+      memberCount,
+      from: null,
+      to: null,
+      days: 0,
+      perDay: 0n,
+      perMember: 0n,
+    };
+  }
+
+  const times = expenses.map(({ createdAt }) => createdAt.getTime());
+  const from = new Date(times.reduce((a, b) => Math.min(a, b)));
+  const to = new Date(times.reduce((a, b) => Math.max(a, b)));
+  const toDay = (date: Date) => Math.floor(date.getTime() / DAY_IN_MS);
+  const days = toDay(to) - toDay(from) + 1;
+
+  return {
+    total,
+    expenseCount: expenses.length,
+    memberCount,
+    from,
+    to,
+    days,
+    perDay: divideRounded(total, BigInt(days)),
+    perMember: memberCount ? divideRounded(total, BigInt(memberCount)) : 0n,
+  };
+}
@@ -0,0 +1,49 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import {
+  CurrencyCode,
+  StaticExchangeRateProvider,
+} from '../core/currency/exchange-rates';
+import { EXCHANGE_RATE_PROVIDER } from './currency.constants';
+import { ExchangeRatesService } from './exchange-rates.service';
+
+/**
+ * Reads a JSON object of currency codes, and how many units of the currency
+ * one unit of the base currency is worth.
+ */
+function parseExchangeRates(json: string): Record<CurrencyCode, number> {
+  const rates: unknown = JSON.parse(json);
+  if (
+    typeof rates !== 'object' ||
+    rates === null ||
+    Array.isArray(rates) ||
+    !Object.values(rates).every(
+      (rate) => typeof rate === 'number' && Number.isFinite(rate) && rate > 0,
+    )
+  ) {
+    throw new Error(
+      'Expected EXCHANGE_RATES to be a JSON object of positive rates.',
+    );
+  }
+  return rates as Record<CurrencyCode, number>;
+}
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: EXCHANGE_RATE_PROVIDER,
+      inject: [ConfigService],
+      // Without rates, nothing but the settlement currency of each group
+      // could be used, so the app does not start without them.
+      useFactory: (config: ConfigService) =>
+        new StaticExchangeRateProvider(
+          config.get<string>('EXCHANGE_RATES_BASE') ?? 'EUR',
+          parseExchangeRates(config.getOrThrow<string>('EXCHANGE_RATES')),
+        ),
+    },
+    ExchangeRatesService,
+  ],
+  exports: [ExchangeRatesService],
+})
+export class CurrencyModule {}
@@ -0,0 +1,37 @@
+import { applyDecorators } from '@nestjs/common';
+import { Transform } from 'class-transformer';
+import { ValidateBy, ValidationOptions, buildMessage } from 'class-validator';
+import { Money, toMoney } from '../../core/currency/money';
+
+/**
+ * Amount in minor units of the currency, sent as a string of digits, like
+ * `"1250"` for 12.50 EUR, and transformed to `Money`. Numbers, fractions,
+ * and negative amounts are rejected, as JSON numbers lose precision past
+ * `Number.MAX_SAFE_INTEGER`.
+ */
+export function IsMoney(validationOptions?: ValidationOptions) {
+  return applyDecorators(
+    Transform(({ value }) => {
+      try {
+        return typeof value === 'string' ? toMoney(value) : value;
+      } catch {
+        return value;
+      }
+    }),
+    ValidateBy(
+      {
+        name: 'isMoney',
+        validator: {
+          validate: (value: unknown) =>
+            typeof value === 'bigint' && (value as Money) >= 0n,
+          defaultMessage: buildMessage(
+            (eachPrefix) =>
+              `${eachPrefix}$property must be a non-negative integer amount in minor units, as a string of digits`,
+            validationOptions,
+          ),
+        },
+      },
+      validationOptions,
+    ),
+  );
+}
@@ -0,0 +1,50 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  Prisma,
+  ExchangeRateSnapshot as StoredExchangeRateSnapshot,
+} from '@prisma/client';
+import {
+  CurrencyCode,
+  ExchangeRateProvider,
+  ExchangeRateSnapshot,
+} from '../core/currency/exchange-rates';
+import { PrismaService } from '../prisma/prisma.service';
+import { EXCHANGE_RATE_PROVIDER } from './currency.constants';
+
+@Injectable()
+export class ExchangeRatesService {
+  constructor(
+    @Inject(EXCHANGE_RATE_PROVIDER)
+    private exchangeRateProvider: ExchangeRateProvider,
+    private prisma: PrismaService,
+  ) {}
+
+  getSnapshot(baseCurrency: CurrencyCode, at?: Date) {
+    return this.exchangeRateProvider.getSnapshot(baseCurrency, at);
+  }
+
+  /**
+   * Takes a snapshot of the current rates, and stores it for later reports.
+   */
+  async storeSnapshot(
+    baseCurrency: CurrencyCode,
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    const snapshot = await this.getSnapshot(baseCurrency);
+    return tx.exchangeRateSnapshot.create({
+      data: {
+        baseCurrency: snapshot.baseCurrency,
+        rates: snapshot.rates,
+        takenAt: snapshot.takenAt,
+      },
+    });
+  }
+
+  toSnapshot(stored: StoredExchangeRateSnapshot): ExchangeRateSnapshot {
+    return {
+      baseCurrency: stored.baseCurrency,
+      rates: stored.rates as Record<CurrencyCode, number>,
+      takenAt: stored.takenAt,
+    };
+  }
+}
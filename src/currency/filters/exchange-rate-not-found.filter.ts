@@ -0,0 +1,18 @@
+import {
+  ArgumentsHost,
+  Catch,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { BaseExceptionFilter } from '@nestjs/core';
+import { ExchangeRateNotFoundError } from '../../core/currency/exchange-rates';
+
+/**
+ * Amounts in currencies the rates provider does not know can not be
+ * converted, which is up to the request, rather than a server error.
+ */
+@Catch(ExchangeRateNotFoundError)
+export class ExchangeRateNotFoundFilter extends BaseExceptionFilter {
+  catch(error: ExchangeRateNotFoundError, host: ArgumentsHost) {
+    super.catch(new UnprocessableEntityException(error.message), host);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { GroupEventsGateway } from './group-events.gateway';
+import { GroupEventsService } from './group-events.service';
+
+@Module({
+  imports: [ConfigModule, JwtModule.register({})],
+  providers: [GroupEventsService, GroupEventsGateway],
+  exports: [GroupEventsService],
+})
+export class EventsModule {}
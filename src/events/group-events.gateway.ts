@@ -0,0 +1,138 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayInit,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+  WsException,
+} from '@nestjs/websockets';
+import { Subscription } from 'rxjs';
+import { Namespace, Socket } from 'socket.io';
+import { AuthenticatedUser } from '../auth/authenticated-user';
+import { AccessTokenPayload } from '../auth/strategies/jwt.strategy';
+import { PrismaService } from '../prisma/prisma.service';
+import { GroupEvent, GroupEventsService } from './group-events.service';
+
+interface GroupSubscription {
+  groupId: number;
+}
+
+const getRoom = (groupId: number) => `group:${groupId}`;
+
+/**
+ * Members connect with their access token (`auth.token` of the handshake,
+ * or the `Authorization` header), subscribe to their groups, and receive
+ * `GroupEvent`s of these groups as they happen.
+ */
+@WebSocketGateway({ namespace: 'groups', cors: true })
+export class GroupEventsGateway
+  implements OnGatewayInit, OnGatewayConnection, OnModuleDestroy
+{
+  private logger = new Logger(GroupEventsGateway.name);
+
+  private subscription?: Subscription;
+
+  @WebSocketServer()
+  private server: Namespace;
+
+  constructor(
+    private jwtService: JwtService,
+    private config: ConfigService,
+    private prisma: PrismaService,
+    private groupEventsService: GroupEventsService,
+  ) {}
+
+  afterInit() {
+    this.subscription = this.groupEventsService.events$.subscribe((event) =>
+      this.broadcast(event).catch((error) =>
+        this.logger.error(`Failed to broadcast ${event.type}`, error),
+      ),
+    );
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  async handleConnection(client: Socket) {
+    try {
+      client.data.user = await this.authenticate(client);
+    } catch {
+      client.emit('error', { message: 'Unauthorized' });
+      client.disconnect(true);
+    }
+  }
+
+  @SubscribeMessage('subscribe')
+  async subscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() { groupId }: GroupSubscription,
+  ) {
+    // Messages may arrive before the connection has been authenticated,
+    // or after it has failed to.
+    const user: AuthenticatedUser | undefined = client.data.user;
+    if (!user) {
+      throw new WsException('Unauthorized');
+    }
+
+    const member = Number.isInteger(groupId)
+      ? await this.prisma.groupMember.findUnique({
+          where: { groupId_userId: { groupId, userId: user.id } },
+        })
+      : null;
+    if (!member) {
+      throw new WsException(`Group ${groupId} not found`);
+    }
+
+    await client.join(getRoom(groupId));
+    return { event: 'subscribed', data: { groupId } };
+  }
+
+  @SubscribeMessage('unsubscribe')
+  async unsubscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() { groupId }: GroupSubscription,
+  ) {
+    await client.leave(getRoom(groupId));
+    return { event: 'unsubscribed', data: { groupId } };
+  }
+
+  private async broadcast(event: GroupEvent) {
+    const room = getRoom(event.groupId);
+    this.server.to(room).emit(event.type, event);
+
+    // Those who left the group stop receiving its events.
+    if (event.type === 'member.removed' || event.type === 'member.left') {
+      const { userId } = event.payload as { userId: number };
+      const sockets = await this.server.in(room).fetchSockets();
+      sockets
+        .filter((socket) => socket.data.user?.id === userId)
+        .forEach((socket) => socket.leave(room));
+    }
+  }
+
+  private async authenticate(client: Socket): Promise<AuthenticatedUser> {
+    const token =
+      client.handshake.auth?.token ??
+      client.handshake.headers.authorization?.replace(/^Bearer /, '');
+
+    const payload = await this.jwtService.verifyAsync<AccessTokenPayload>(
+      token,
+      { secret: this.config.get<string>('JWT_ACCESS_SECRET') },
+    );
+
+    const session = await this.prisma.session.findUnique({
+      where: { id: payload.sid },
+    });
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new Error('Session has been revoked');
+    }
+
+    return { id: payload.sub, email: payload.email, sessionId: payload.sid };
+  }
+}
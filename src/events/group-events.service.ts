@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import { Subject } from 'rxjs';
+import { bigIntReplacer } from '../utils/json';
+
+export type GroupEventType =
+  | 'expense.created'
+  | 'expense.updated'
+  | 'expense.deleted'
+  | 'expenses.imported'
+  | 'settlement.created'
+  | 'settlement.reversed'
+  | 'member.added'
+  | 'member.joined'
+  | 'member.removed'
+  | 'member.left'
+  | 'balances.changed';
+
+export interface GroupEvent {
+  groupId: number;
+  type: GroupEventType;
+  payload: unknown;
+}
+
+/**
+ * Publishes changes of groups to whoever listens, e.g. `GroupEventsGateway`.
+ * Emit only once the change has been committed.
+ */
+@Injectable()
+export class GroupEventsService {
+  private events = new Subject<GroupEvent>();
+
+  readonly events$ = this.events.asObservable();
+
+  emit(groupId: number, type: GroupEventType, payload: unknown = {}) {
+    this.events.next({
+      groupId,
+      type,
+      // Payloads are sent as JSON, which can not represent `bigint`.
+      payload: JSON.parse(JSON.stringify(payload, bigIntReplacer)),
+    });
+  }
+}
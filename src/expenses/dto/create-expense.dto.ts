@@ -0,0 +1,59 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Length,
+  ValidateNested,
+} from 'class-validator';
+import { Money } from '../../core/currency/money';
+import { IsMoney } from '../../currency/decorators/is-money.decorator';
+import { ExpenseCategory, EXPENSE_CATEGORIES } from '../expense-categories';
+import { ExpenseParticipantDto } from './expense-participant.dto';
+
+export class CreateExpenseDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  /**
+   * Amount in minor units of the currency.
+   */
+  @IsMoney()
+  amount: Money;
+
+  @Length(3, 3)
+  currencyCode: string;
+
+  @IsOptional()
+  @IsIn(EXPENSE_CATEGORIES)
+  category?: ExpenseCategory;
+
+  @IsInt()
+  @IsPositive()
+  creditorId: number;
+
+  /**
+   * Shares of the expense. Whatever is not shared is the creditor's share.
+   */
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ExpenseParticipantDto)
+  debtors: ExpenseParticipantDto[];
+
+  /**
+   * Contributions of every payer, when the creditor didn't pay alone.
+   */
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ExpenseParticipantDto)
+  payers?: ExpenseParticipantDto[];
+}
@@ -0,0 +1,15 @@
+import { IsInt, IsPositive } from 'class-validator';
+import { Money } from '../../core/currency/money';
+import { IsMoney } from '../../currency/decorators/is-money.decorator';
+
+export class ExpenseParticipantDto {
+  @IsInt()
+  @IsPositive()
+  userId: number;
+
+  /**
+   * Amount in minor units of the expense currency.
+   */
+  @IsMoney()
+  amount: Money;
+}
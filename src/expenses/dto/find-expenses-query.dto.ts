@@ -0,0 +1,54 @@
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  Length,
+  Max,
+  Min,
+} from 'class-validator';
+import { ExpenseCategory, EXPENSE_CATEGORIES } from '../expense-categories';
+
+export class FindExpensesQueryDto {
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  /**
+   * Expenses the member paid for, or shares.
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @IsPositive()
+  memberId?: number;
+
+  @IsOptional()
+  @Length(3, 3)
+  currencyCode?: string;
+
+  @IsOptional()
+  @IsIn(EXPENSE_CATEGORIES)
+  category?: ExpenseCategory;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  skip: number = 0;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  take: number = 20;
+}
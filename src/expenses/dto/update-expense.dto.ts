@@ -0,0 +1,58 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Length,
+  ValidateNested,
+} from 'class-validator';
+import { Money } from '../../core/currency/money';
+import { IsMoney } from '../../currency/decorators/is-money.decorator';
+import { ExpenseCategory, EXPENSE_CATEGORIES } from '../expense-categories';
+import { ExpenseParticipantDto } from './expense-participant.dto';
+
+export class UpdateExpenseDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @IsOptional()
+  @IsMoney()
+  amount?: Money;
+
+  @IsOptional()
+  @Length(3, 3)
+  currencyCode?: string;
+
+  /**
+   * Null removes the category.
+   */
+  @IsOptional()
+  @IsIn(EXPENSE_CATEGORIES)
+  category?: ExpenseCategory | null;
+
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  creditorId?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ExpenseParticipantDto)
+  debtors?: ExpenseParticipantDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ExpenseParticipantDto)
+  payers?: ExpenseParticipantDto[];
+}
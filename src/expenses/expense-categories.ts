@@ -0,0 +1,13 @@
+export const EXPENSE_CATEGORIES = [
+  'accommodation',
+  'entertainment',
+  'groceries',
+  'health',
+  'restaurants',
+  'shopping',
+  'transport',
+  'utilities',
+  'other',
+] as const;
+
+export type ExpenseCategory = (typeof EXPENSE_CATEGORIES)[number];
@@ -0,0 +1,84 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthenticatedUser } from '../auth/authenticated-user';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequireGroupPermissions } from '../groups/decorators/require-group-permissions.decorator';
+import { GroupPermissionsGuard } from '../groups/guards/group-permissions.guard';
+import { CreateExpenseDto } from './dto/create-expense.dto';
+import { FindExpensesQueryDto } from './dto/find-expenses-query.dto';
+import { UpdateExpenseDto } from './dto/update-expense.dto';
+import { ExpensesService } from './expenses.service';
+
+@Controller('groups/:groupId/expenses')
+@UseGuards(GroupPermissionsGuard)
+export class ExpensesController {
+  constructor(private expensesService: ExpensesService) {}
+
+  @Post()
+  @RequireGroupPermissions('canAddExpenses')
+  create(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Body() dto: CreateExpenseDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.expensesService.create(groupId, dto, user.id);
+  }
+
+  @Get()
+  findAll(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Query() query: FindExpensesQueryDto,
+  ) {
+    return this.expensesService.findAll(groupId, query);
+  }
+
+  @Get(':expenseId')
+  findOne(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Param('expenseId', ParseIntPipe) expenseId: number,
+  ) {
+    return this.expensesService.findOne(groupId, expenseId);
+  }
+
+  @Get(':expenseId/history')
+  findHistory(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Param('expenseId', ParseIntPipe) expenseId: number,
+  ) {
+    return this.expensesService.findHistory(groupId, expenseId);
+  }
+
+  @Patch(':expenseId')
+  @RequireGroupPermissions('canAddExpenses')
+  update(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Param('expenseId', ParseIntPipe) expenseId: number,
+    @Body() dto: UpdateExpenseDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.expensesService.update(groupId, expenseId, dto, user.id);
+  }
+
+  @Delete(':expenseId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireGroupPermissions('canAddExpenses')
+  remove(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Param('expenseId', ParseIntPipe) expenseId: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.expensesService.remove(groupId, expenseId, user.id);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { ActivityModule } from '../activity/activity.module';
+import { CurrencyModule } from '../currency/currency.module';
+import { EventsModule } from '../events/events.module';
+import { GroupsModule } from '../groups/groups.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { ExpensesController } from './expenses.controller';
+import { ExpensesService } from './expenses.service';
+
+@Module({
+  imports: [
+    LedgerModule,
+    GroupsModule,
+    CurrencyModule,
+    ActivityModule,
+    EventsModule,
+  ],
+  providers: [ExpensesService],
+  controllers: [ExpensesController],
+  exports: [ExpensesService],
+})
+export class ExpensesModule {}
@@ -0,0 +1,149 @@
+import { Prisma, Settlement } from '@prisma/client';
+import { ActivityService } from '../activity/activity.service';
+import { findDrift } from '../core/debt-simplifier/ledger-drift';
+import { MultiCurrencyDebtSimplifier } from '../core/debt-simplifier/multi-currency-debt-simplifier';
+import { ExchangeRatesService } from '../currency/exchange-rates.service';
+import { GroupEventsService } from '../events/group-events.service';
+import { LedgerReplayService } from '../ledger/ledger-replay.service';
+import { GroupLedger, LedgerRepository } from '../ledger/ledger.repository';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateExpenseDto } from './dto/create-expense.dto';
+import { ExpensesService } from './expenses.service';
+
+const GROUP_ID = 1;
+const ACTOR_ID = 1;
+
+type Expense = Prisma.GroupExpenseGetPayload<{
+  include: { GroupExpenseDebtor: true; GroupExpensePayer: true };
+}>;
+
+describe('ExpensesService', () => {
+  let expenses: Expense[];
+  let settlements: Settlement[];
+  let ledger: GroupLedger;
+  let ledgerReplayService: LedgerReplayService;
+  let service: ExpensesService;
+
+  const dto = (
+    creditorId: number,
+    amount: bigint,
+    debtors: CreateExpenseDto['debtors'],
+  ): CreateExpenseDto => ({
+    name: 'Dinner',
+    amount,
+    currencyCode: 'EUR',
+    creditorId,
+    debtors,
+  });
+
+  beforeEach(() => {
+    expenses = [];
+    settlements = [];
+    ledger = {
+      groupId: GROUP_ID,
+      version: 1,
+      simplifier: new MultiCurrencyDebtSimplifier('EUR'),
+    };
+
+    const prisma = {
+      group: {
+        findUnique: jest.fn(async () => ({
+          id: GROUP_ID,
+          settlementCurrencyCode: 'EUR',
+        })),
+      },
+      groupMember: {
+        count: jest.fn(async ({ where }) => where.userId.in.length),
+      },
+      currency: {
+        findUnique: jest.fn(async ({ where }) => ({ code: where.code })),
+      },
+      groupExpense: {
+        create: jest.fn(async ({ data }) => {
+          const id = expenses.length + 1;
+          const toParticipants = ({ create }) =>
+            create.map((participant) => ({
+              ...participant,
+              groupExpenseId: id,
+            }));
+          const expense = {
+            ...data,
+            id,
+            createdAt: data.createdAt ?? new Date(),
+            GroupExpenseDebtor: toParticipants(data.GroupExpenseDebtor),
+            GroupExpensePayer: toParticipants(data.GroupExpensePayer),
+          };
+          expenses.push(expense);
+          return expense;
+        }),
+        findMany: jest.fn(async () => expenses),
+      },
+      settlement: {
+        findMany: jest.fn(async () => settlements),
+      },
+    };
+    const ledgerRepository = {
+      update: (
+        groupId: number,
+        update: (ledger: GroupLedger, tx: PrismaService) => Promise<unknown>,
+      ) => update(ledger, prisma as unknown as PrismaService),
+    } as unknown as LedgerRepository;
+
+    ledgerReplayService = new LedgerReplayService(
+      prisma as unknown as PrismaService,
+      ledgerRepository,
+    );
+    service = new ExpensesService(
+      prisma as unknown as PrismaService,
+      ledgerRepository,
+      ledgerReplayService,
+      {} as ExchangeRatesService,
+      { record: jest.fn() } as unknown as ActivityService,
+      { emit: jest.fn() } as unknown as GroupEventsService,
+    );
+  });
+
+  describe('createMany', () => {
+    it('should leave no drift when importing expenses before settlements', async () => {
+      await service.createMany(
+        GROUP_ID,
+        [
+          {
+            dto: dto(1, 100n, [{ userId: 2, amount: 100n }]),
+            createdAt: new Date('2024-03-10'),
+          },
+        ],
+        ACTOR_ID,
+      );
+      settlements.push({
+        id: 1,
+        groupId: GROUP_ID,
+        payerId: 2,
+        payeeId: 1,
+        amount: 40n,
+        currencyCode: 'EUR',
+        createdAt: new Date('2024-03-12'),
+        reversedAt: null,
+      });
+      ledger.simplifier.settle('1', '2', 40n, 1, 'EUR');
+
+      await service.createMany(
+        GROUP_ID,
+        [
+          {
+            dto: dto(2, 30n, [{ userId: 1, amount: 30n }]),
+            createdAt: new Date('2024-03-01'),
+          },
+        ],
+        ACTOR_ID,
+      );
+
+      expect(
+        findDrift(
+          ledger.simplifier,
+          await ledgerReplayService.replay(GROUP_ID),
+        ),
+      ).toEqual([]);
+    });
+  });
+});
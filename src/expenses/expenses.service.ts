@@ -0,0 +1,500 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { ActivityService, diff } from '../activity/activity.service';
+import { Money } from '../core/currency/money';
+import { ExchangeRatesService } from '../currency/exchange-rates.service';
+import { GroupEventsService } from '../events/group-events.service';
+import { applyLedgerOperation } from '../ledger/apply-ledger-operation';
+import { LedgerReplayService } from '../ledger/ledger-replay.service';
+import { GroupLedger, LedgerRepository } from '../ledger/ledger.repository';
+import { LedgerExpense, recordExpense } from '../ledger/record-expense';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateExpenseDto } from './dto/create-expense.dto';
+import { ExpenseParticipantDto } from './dto/expense-participant.dto';
+import { FindExpensesQueryDto } from './dto/find-expenses-query.dto';
+import { UpdateExpenseDto } from './dto/update-expense.dto';
+
+const expenseInclude = {
+  GroupExpenseDebtor: true,
+  GroupExpensePayer: true,
+} satisfies Prisma.GroupExpenseInclude;
+
+type Expense = Prisma.GroupExpenseGetPayload<{
+  include: typeof expenseInclude;
+}>;
+
+/**
+ * Occurrence of a recurring expense the expense has been posted for.
+ */
+export interface ExpenseOccurrence {
+  recurringExpenseId: number;
+  occurrenceAt: Date;
+}
+
+/**
+ * Expense which happened before it has been created, e.g. an imported one.
+ */
+export interface BackdatedExpense {
+  dto: CreateExpenseDto;
+  createdAt: Date;
+}
+
+interface ExpenseInput extends LedgerExpense {
+  name: string;
+  category: string | null;
+}
+
+const CREATE_MANY_TIMEOUT_MS = 60_000;
+
+@Injectable()
+export class ExpensesService {
+  constructor(
+    private prisma: PrismaService,
+    private ledgerRepository: LedgerRepository,
+    private ledgerReplayService: LedgerReplayService,
+    private exchangeRatesService: ExchangeRatesService,
+    private activityService: ActivityService,
+    private groupEventsService: GroupEventsService,
+  ) {}
+
+  async create(
+    groupId: number,
+    dto: CreateExpenseDto,
+    actorId: number | null,
+    occurrence?: ExpenseOccurrence,
+  ) {
+    const input = this.toExpenseInput(dto);
+    await this.assertParticipants(groupId, input);
+
+    const created = await this.ledgerRepository.update(
+      groupId,
+      async (ledger, tx) => {
+        const expense = await this.insert(ledger, tx, input, {
+          exchangeRateSnapshotId: await this.storeExchangeRateSnapshot(
+            ledger,
+            input.currencyCode,
+            tx,
+          ),
+          recurringExpenseId: occurrence?.recurringExpenseId,
+          occurrenceAt: occurrence?.occurrenceAt,
+        });
+        await this.activityService.record(
+          {
+            groupId,
+            actorId,
+            action: 'expense.created',
+            targetType: 'expense',
+            targetId: expense.id,
+            after: this.toExpenseActivity(expense),
+          },
+          tx,
+        );
+        return expense;
+      },
+    );
+
+    this.groupEventsService.emit(groupId, 'expense.created', created);
+    return created;
+  }
+
+  /**
+   * Creates every expense dated when it happened, or none of them. The ledger
+   * is replayed afterwards, as the expenses may have happened before others
+   * already in it.
+   */
+  async createMany(
+    groupId: number,
+    expenses: BackdatedExpense[],
+    actorId: number,
+  ) {
+    const inputs = expenses
+      .map(({ dto, createdAt }) => ({
+        input: this.toExpenseInput(dto),
+        createdAt,
+      }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    for (const { input } of inputs) {
+      await this.assertParticipants(groupId, input);
+    }
+
+    const created = await this.ledgerRepository.update(
+      groupId,
+      async (ledger, tx) => {
+        // Imported expenses share exchange rates of the time of the import.
+        const snapshotIds = new Map<string, number | null>();
+        const created: Expense[] = [];
+        for (const { input, createdAt } of inputs) {
+          if (!snapshotIds.has(input.currencyCode)) {
+            snapshotIds.set(
+              input.currencyCode,
+              await this.storeExchangeRateSnapshot(
+                ledger,
+                input.currencyCode,
+                tx,
+              ),
+            );
+          }
+          created.push(
+            await this.insert(ledger, tx, input, {
+              exchangeRateSnapshotId: snapshotIds.get(input.currencyCode),
+              createdAt,
+            }),
+          );
+        }
+        ledger.simplifier = await this.ledgerReplayService.replay(
+          groupId,
+          undefined,
+          tx,
+        );
+        await this.activityService.record(
+          {
+            groupId,
+            actorId,
+            action: 'expenses.imported',
+            targetType: 'group',
+            targetId: groupId,
+            after: { expenseIds: created.map(({ id }) => id) },
+          },
+          tx,
+        );
+        return created;
+      },
+      { timeout: CREATE_MANY_TIMEOUT_MS },
+    );
+
+    this.groupEventsService.emit(groupId, 'expenses.imported', {
+      expenseIds: created.map(({ id }) => id),
+    });
+    return created;
+  }
+
+  /**
+   * Validates the expense as if it was created now, without creating it.
+   */
+  async assertValid(groupId: number, dto: CreateExpenseDto) {
+    await this.assertParticipants(groupId, this.toExpenseInput(dto));
+  }
+
+  async findAll(groupId: number, query: FindExpensesQueryDto) {
+    const where: Prisma.GroupExpenseWhereInput = {
+      groupId,
+      currencyCode: query.currencyCode,
+      category: query.category,
+      createdAt: { gte: query.from, lte: query.to },
+    };
+    if (query.memberId) {
+      where.OR = [
+        { creditorId: query.memberId },
+        { GroupExpenseDebtor: { some: { userId: query.memberId } } },
+        { GroupExpensePayer: { some: { userId: query.memberId } } },
+      ];
+    }
+
+    const [data, total] = await this.prisma.$transaction([
+      this.prisma.groupExpense.findMany({
+        where,
+        include: expenseInclude,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: query.skip,
+        take: query.take,
+      }),
+      this.prisma.groupExpense.count({ where }),
+    ]);
+
+    return { data, total, skip: query.skip, take: query.take };
+  }
+
+  async findOne(groupId: number, expenseId: number) {
+    const expense = await this.prisma.groupExpense.findFirst({
+      where: { id: expenseId, groupId },
+      include: expenseInclude,
+    });
+    if (!expense) {
+      throw new NotFoundException(`Expense ${expenseId} not found`);
+    }
+    return expense;
+  }
+
+  async update(
+    groupId: number,
+    expenseId: number,
+    dto: UpdateExpenseDto,
+    actorId: number,
+  ) {
+    const expense = await this.findOne(groupId, expenseId);
+
+    // Contributions of many payers are kept, unless replaced altogether.
+    const paidAlone = expense.GroupExpensePayer.length <= 1;
+    const input = this.toExpenseInput({
+      name: dto.name ?? expense.name,
+      amount: dto.amount ?? expense.amount,
+      currencyCode: dto.currencyCode ?? expense.currencyCode,
+      category: dto.category !== undefined ? dto.category : expense.category,
+      creditorId: dto.creditorId ?? expense.creditorId,
+      debtors:
+        dto.debtors ??
+        expense.GroupExpenseDebtor.map(({ userId, amount }) => ({
+          userId,
+          amount,
+        })),
+      payers:
+        dto.payers ??
+        (paidAlone
+          ? undefined
+          : expense.GroupExpensePayer.map(({ userId, amount }) => ({
+              userId,
+              amount,
+            }))),
+    });
+    await this.assertParticipants(groupId, input);
+
+    const updatedExpense = await this.ledgerRepository.update(
+      groupId,
+      async (ledger, tx) => {
+        const exchangeRateSnapshotId =
+          input.currencyCode === expense.currencyCode
+            ? expense.exchangeRateSnapshotId
+            : await this.storeExchangeRateSnapshot(
+                ledger,
+                input.currencyCode,
+                tx,
+              );
+
+        await tx.groupExpenseDebtor.deleteMany({
+          where: { groupExpenseId: expenseId },
+        });
+        await tx.groupExpensePayer.deleteMany({
+          where: { groupExpenseId: expenseId },
+        });
+        const updated = await tx.groupExpense.update({
+          where: { id: expenseId },
+          data: {
+            name: input.name,
+            amount: input.amount,
+            currencyCode: input.currencyCode,
+            category: input.category,
+            creditorId: input.creditorId,
+            exchangeRateSnapshotId,
+            GroupExpenseDebtor: { create: input.debtors },
+            GroupExpensePayer: { create: input.payers },
+          },
+          include: expenseInclude,
+        });
+
+        this.applyToLedger(ledger, expenseId, input);
+        await this.activityService.record(
+          {
+            groupId,
+            actorId,
+            action: 'expense.updated',
+            targetType: 'expense',
+            targetId: expenseId,
+            ...diff(
+              this.toExpenseActivity(expense),
+              this.toExpenseActivity(updated),
+            ),
+          },
+          tx,
+        );
+        return updated;
+      },
+    );
+
+    this.groupEventsService.emit(groupId, 'expense.updated', updatedExpense);
+    return updatedExpense;
+  }
+
+  async remove(groupId: number, expenseId: number, actorId: number) {
+    const expense = await this.findOne(groupId, expenseId);
+
+    await this.ledgerRepository.update(groupId, async (ledger, tx) => {
+      if (ledger.simplifier.hasExpense(expenseId)) {
+        applyLedgerOperation(() => ledger.simplifier.remove(expenseId));
+      }
+      await tx.groupExpense.delete({ where: { id: expenseId } });
+      await this.activityService.record(
+        {
+          groupId,
+          actorId,
+          action: 'expense.deleted',
+          targetType: 'expense',
+          targetId: expenseId,
+          before: this.toExpenseActivity(expense),
+        },
+        tx,
+      );
+    });
+
+    this.groupEventsService.emit(groupId, 'expense.deleted', { expenseId });
+  }
+
+  findHistory(groupId: number, expenseId: number) {
+    return this.activityService.findForTarget(groupId, 'expense', expenseId);
+  }
+
+  private toExpenseActivity(expense: Expense) {
+    const toParticipants = (
+      participants: { userId: number; amount: Money }[],
+    ) => participants.map(({ userId, amount }) => ({ userId, amount }));
+
+    return {
+      name: expense.name,
+      amount: expense.amount,
+      currencyCode: expense.currencyCode,
+      category: expense.category,
+      creditorId: expense.creditorId,
+      debtors: toParticipants(expense.GroupExpenseDebtor),
+      payers: toParticipants(expense.GroupExpensePayer),
+    };
+  }
+
+  private async insert(
+    ledger: GroupLedger,
+    tx: Prisma.TransactionClient,
+    input: ExpenseInput,
+    data: Pick<
+      Prisma.GroupExpenseUncheckedCreateInput,
+      | 'exchangeRateSnapshotId'
+      | 'createdAt'
+      | 'recurringExpenseId'
+      | 'occurrenceAt'
+    >,
+  ) {
+    const expense = await tx.groupExpense.create({
+      data: {
+        ...data,
+        groupId: ledger.groupId,
+        name: input.name,
+        amount: input.amount,
+        currencyCode: input.currencyCode,
+        category: input.category,
+        creditorId: input.creditorId,
+        GroupExpenseDebtor: { create: input.debtors },
+        GroupExpensePayer: { create: input.payers },
+      },
+      include: expenseInclude,
+    });
+
+    this.applyToLedger(ledger, expense.id, input);
+    return expense;
+  }
+
+  private applyToLedger(
+    ledger: GroupLedger,
+    expenseId: number,
+    input: ExpenseInput,
+  ) {
+    applyLedgerOperation(() =>
+      recordExpense(ledger.simplifier, expenseId, input),
+    );
+  }
+
+  private toExpenseInput(
+    dto: Omit<CreateExpenseDto, 'payers' | 'category'> & {
+      category?: string | null;
+      payers?: ExpenseParticipantDto[];
+    },
+  ): ExpenseInput {
+    const amount = dto.amount;
+    if (amount <= 0n) {
+      throw new BadRequestException('Expense amount must be positive');
+    }
+
+    const toParticipants = (participants: ExpenseParticipantDto[]) => {
+      const userIds = new Set(participants.map(({ userId }) => userId));
+      if (userIds.size !== participants.length) {
+        throw new BadRequestException('Every user may be listed only once');
+      }
+      return participants.map(({ userId, amount }) => {
+        if (amount <= 0n) {
+          throw new BadRequestException(
+            `Amount of user ${userId} must be positive`,
+          );
+        }
+        return { userId, amount };
+      });
+    };
+
+    const debtors = toParticipants(dto.debtors);
+    const shared = debtors.reduce((sum, debtor) => sum + debtor.amount, 0n);
+    if (shared > amount) {
+      throw new BadRequestException(
+        `Debtors share ${shared}, which exceeds the expense amount ${amount}`,
+      );
+    }
+
+    const payers = dto.payers
+      ? toParticipants(dto.payers)
+      : [{ userId: dto.creditorId, amount }];
+    const paid = payers.reduce((sum, payer) => sum + payer.amount, 0n);
+    if (paid !== amount) {
+      throw new BadRequestException(
+        `Payers paid ${paid}, but the expense amount is ${amount}`,
+      );
+    }
+    if (!payers.some(({ userId }) => userId === dto.creditorId)) {
+      throw new BadRequestException('Creditor must be one of the payers');
+    }
+
+    return {
+      name: dto.name,
+      amount,
+      currencyCode: dto.currencyCode,
+      category: dto.category ?? null,
+      creditorId: dto.creditorId,
+      debtors,
+      payers,
+    };
+  }
+
+  private async assertParticipants(groupId: number, input: ExpenseInput) {
+    const userIds = new Set([
+      input.creditorId,
+      ...input.debtors.map(({ userId }) => userId),
+      ...input.payers.map(({ userId }) => userId),
+    ]);
+
+    const members = await this.prisma.groupMember.count({
+      where: { groupId, userId: { in: [...userIds] } },
+    });
+    if (members !== userIds.size) {
+      throw new BadRequestException(
+        'Every participant of the expense must be a member of the group',
+      );
+    }
+
+    const currency = await this.prisma.currency.findUnique({
+      where: { code: input.currencyCode },
+    });
+    if (!currency) {
+      throw new BadRequestException(
+        `Currency ${input.currencyCode} is not supported`,
+      );
+    }
+  }
+
+  /**
+   * Expenses in a foreign currency keep the exchange rates from the time
+   * they were added, to report them in the settlement currency.
+   */
+  private async storeExchangeRateSnapshot(
+    ledger: GroupLedger,
+    currencyCode: string,
+    tx: Prisma.TransactionClient,
+  ) {
+    const settlementCurrency = ledger.simplifier.getSettlementCurrency();
+    if (currencyCode === settlementCurrency) {
+      return null;
+    }
+
+    const snapshot = await this.exchangeRatesService.storeSnapshot(
+      settlementCurrency,
+      tx,
+    );
+    return snapshot.id;
+  }
+}
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { GroupPermission } from '../group-roles';
+
+export const GROUP_PERMISSIONS_KEY = 'groupPermissions';
+
+/**
+ * Permissions of the member's `GroupRole` required by the route.
+ * Used along with `GroupPermissionsGuard`.
+ */
+export const RequireGroupPermissions = (...permissions: GroupPermission[]) =>
+  SetMetadata(GROUP_PERMISSIONS_KEY, permissions);
@@ -0,0 +1,15 @@
+import { IsInt, IsOptional, IsPositive } from 'class-validator';
+
+export class AddMemberDto {
+  @IsInt()
+  @IsPositive()
+  userId: number;
+
+  /**
+   * Defaults to the `member` role.
+   */
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  roleId?: number;
+}
@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsOptional, IsString, Length } from 'class-validator';
+
+export class CreateGroupDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @Length(3, 3)
+  settlementCurrencyCode?: string;
+}
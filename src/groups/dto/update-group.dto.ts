@@ -0,0 +1,16 @@
+import { IsNotEmpty, IsOptional, IsString, Length } from 'class-validator';
+
+export class UpdateGroupDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @Length(3, 3)
+  settlementCurrencyCode?: string;
+}
@@ -0,0 +1,72 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthenticatedUser } from '../auth/authenticated-user';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequireGroupPermissions } from './decorators/require-group-permissions.decorator';
+import { AddMemberDto } from './dto/add-member.dto';
+import { UpdateMemberDto } from './dto/update-member.dto';
+import { GroupsService } from './groups.service';
+import { GroupPermissionsGuard } from './guards/group-permissions.guard';
+
+@Controller('groups/:groupId/members')
+@UseGuards(GroupPermissionsGuard)
+export class GroupMembersController {
+  constructor(private groupsService: GroupsService) {}
+
+  @Get()
+  findAll(@Param('groupId', ParseIntPipe) groupId: number) {
+    return this.groupsService.findMembers(groupId);
+  }
+
+  @Post()
+  @RequireGroupPermissions('canAddMembers')
+  add(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Body() dto: AddMemberDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.groupsService.addMember(groupId, dto, user.id);
+  }
+
+  @Delete('me')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  leave(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.groupsService.removeMember(groupId, user.id, user.id);
+  }
+
+  @Patch(':userId')
+  @RequireGroupPermissions('canEditGroup')
+  update(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @Body() dto: UpdateMemberDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.groupsService.updateMember(groupId, userId, dto, user.id);
+  }
+
+  @Delete(':userId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireGroupPermissions('canRemoveMembers')
+  remove(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.groupsService.removeMember(groupId, userId, user.id);
+  }
+}
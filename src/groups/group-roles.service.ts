@@ -0,0 +1,29 @@
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { DEFAULT_GROUP_ROLES, DefaultGroupRole } from './group-roles';
+
+@Injectable()
+export class GroupRolesService implements OnApplicationBootstrap {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Seeds the default roles, keeping their permissions up to date.
+   */
+  async onApplicationBootstrap() {
+    for (const role of DEFAULT_GROUP_ROLES) {
+      await this.prisma.groupRole.upsert({
+        where: { name: role.name },
+        create: role,
+        update: role,
+      });
+    }
+  }
+
+  findAll() {
+    return this.prisma.groupRole.findMany({ orderBy: { id: 'asc' } });
+  }
+
+  getByName(name: DefaultGroupRole) {
+    return this.prisma.groupRole.findUniqueOrThrow({ where: { name } });
+  }
+}
@@ -0,0 +1,47 @@
+import { Prisma } from '@prisma/client';
+
+export const GROUP_PERMISSIONS = [
+  'canRemoveMembers',
+  'canAddMembers',
+  'canDestroyGroup',
+  'canEditGroup',
+  'canAddExpenses',
+] as const;
+
+export type GroupPermission = (typeof GROUP_PERMISSIONS)[number];
+
+export enum DefaultGroupRole {
+  Owner = 'owner',
+  Admin = 'admin',
+  Member = 'member',
+}
+
+export const DEFAULT_GROUP_ROLES: Prisma.GroupRoleCreateInput[] = [
+  {
+    name: DefaultGroupRole.Owner,
+    description: 'Manages the group, and can destroy it',
+    canRemoveMembers: true,
+    canAddMembers: true,
+    canDestroyGroup: true,
+    canEditGroup: true,
+    canAddExpenses: true,
+  },
+  {
+    name: DefaultGroupRole.Admin,
+    description: 'Manages the group, and its members',
+    canRemoveMembers: true,
+    canAddMembers: true,
+    canDestroyGroup: false,
+    canEditGroup: true,
+    canAddExpenses: true,
+  },
+  {
+    name: DefaultGroupRole.Member,
+    description: 'Adds expenses to the group',
+    canRemoveMembers: false,
+    canAddMembers: false,
+    canDestroyGroup: false,
+    canEditGroup: false,
+    canAddExpenses: true,
+  },
+];
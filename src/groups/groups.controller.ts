@@ -0,0 +1,69 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthenticatedUser } from '../auth/authenticated-user';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequireGroupPermissions } from './decorators/require-group-permissions.decorator';
+import { CreateGroupDto } from './dto/create-group.dto';
+import { UpdateGroupDto } from './dto/update-group.dto';
+import { GroupRolesService } from './group-roles.service';
+import { GroupsService } from './groups.service';
+import { GroupPermissionsGuard } from './guards/group-permissions.guard';
+
+@Controller('groups')
+export class GroupsController {
+  constructor(
+    private groupsService: GroupsService,
+    private groupRolesService: GroupRolesService,
+  ) {}
+
+  @Post()
+  create(@CurrentUser() user: AuthenticatedUser, @Body() dto: CreateGroupDto) {
+    return this.groupsService.create(user.id, dto);
+  }
+
+  @Get()
+  findAll(@CurrentUser() user: AuthenticatedUser) {
+    return this.groupsService.findAllForUser(user.id);
+  }
+
+  @Get('roles')
+  findRoles() {
+    return this.groupRolesService.findAll();
+  }
+
+  @Get(':groupId')
+  @UseGuards(GroupPermissionsGuard)
+  findOne(@Param('groupId', ParseIntPipe) groupId: number) {
+    return this.groupsService.findOne(groupId);
+  }
+
+  @Patch(':groupId')
+  @UseGuards(GroupPermissionsGuard)
+  @RequireGroupPermissions('canEditGroup')
+  update(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Body() dto: UpdateGroupDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.groupsService.update(groupId, dto, user.id);
+  }
+
+  @Delete(':groupId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(GroupPermissionsGuard)
+  @RequireGroupPermissions('canDestroyGroup')
+  remove(@Param('groupId', ParseIntPipe) groupId: number) {
+    return this.groupsService.remove(groupId);
+  }
+}
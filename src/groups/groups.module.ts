@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { ActivityModule } from '../activity/activity.module';
+import { EventsModule } from '../events/events.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { GroupMembersController } from './group-members.controller';
+import { GroupRolesService } from './group-roles.service';
+import { GroupsController } from './groups.controller';
+import { GroupsService } from './groups.service';
+import { GroupPermissionsGuard } from './guards/group-permissions.guard';
+
+@Module({
+  imports: [LedgerModule, ActivityModule, EventsModule],
+  providers: [GroupsService, GroupRolesService, GroupPermissionsGuard],
+  controllers: [GroupsController, GroupMembersController],
+  exports: [GroupsService, GroupRolesService, GroupPermissionsGuard],
+})
+export class GroupsModule {}
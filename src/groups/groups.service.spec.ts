@@ -0,0 +1,336 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ActivityService } from '../activity/activity.service';
+import { MultiCurrencyDebtSimplifier } from '../core/debt-simplifier/multi-currency-debt-simplifier';
+import { GroupEventsService } from '../events/group-events.service';
+import { GroupLedger, LedgerRepository } from '../ledger/ledger.repository';
+import { PrismaService } from '../prisma/prisma.service';
+import { DEFAULT_GROUP_ROLES, DefaultGroupRole } from './group-roles';
+import { GroupRolesService } from './group-roles.service';
+import { GroupsService } from './groups.service';
+
+const GROUP_ID = 1;
+const CURRENCY_CODES = ['EUR', 'USD'];
+
+const roles = DEFAULT_GROUP_ROLES.map((role, i) => ({ ...role, id: i + 1 }));
+const getRole = (name: DefaultGroupRole) =>
+  roles.find((role) => role.name === name)!;
+
+describe('GroupsService', () => {
+  let members: Map<number, DefaultGroupRole>;
+  let simplifier: MultiCurrencyDebtSimplifier;
+  let prisma: {
+    group: Record<'create' | 'findUnique' | 'update', jest.Mock>;
+    currency: Record<'findUnique', jest.Mock>;
+    user: Record<'findUnique', jest.Mock>;
+    groupRole: Record<'findUnique', jest.Mock>;
+    groupMember: Record<
+      'findUnique' | 'count' | 'create' | 'update' | 'delete',
+      jest.Mock
+    >;
+    $transaction: jest.Mock;
+  };
+  let ledgerRepository: { update: jest.Mock };
+  let activityService: { record: jest.Mock };
+  let groupEventsService: { emit: jest.Mock };
+  let service: GroupsService;
+
+  beforeEach(() => {
+    members = new Map([
+      [1, DefaultGroupRole.Owner],
+      [2, DefaultGroupRole.Member],
+      [3, DefaultGroupRole.Member],
+    ]);
+    simplifier = new MultiCurrencyDebtSimplifier('EUR');
+
+    const setRole = ({ groupId, userId, roleId }) => {
+      const { name } = roles.find(({ id }) => id === roleId)!;
+      members.set(userId, name as DefaultGroupRole);
+      return { groupId, userId, roleId };
+    };
+    prisma = {
+      group: {
+        create: jest.fn(async ({ data }) => ({ id: GROUP_ID, ...data })),
+        findUnique: jest.fn(async ({ where }) => ({
+          id: where.id,
+          name: 'Trip',
+          description: null,
+          settlementCurrencyCode: 'EUR',
+        })),
+        update: jest.fn(async ({ where, data }) => ({ id: where.id, ...data })),
+      },
+      currency: {
+        findUnique: jest.fn(async ({ where }) =>
+          CURRENCY_CODES.includes(where.code) ? { code: where.code } : null,
+        ),
+      },
+      user: {
+        findUnique: jest.fn(async ({ where }) => ({ id: where.id })),
+      },
+      groupRole: {
+        findUnique: jest.fn(
+          async ({ where }) => roles.find(({ id }) => id === where.id) ?? null,
+        ),
+      },
+      groupMember: {
+        findUnique: jest.fn(async ({ where: { groupId_userId } }) => {
+          const name = members.get(groupId_userId.userId);
+          return name
+            ? {
+                ...groupId_userId,
+                roleId: getRole(name).id,
+                role: getRole(name),
+              }
+            : null;
+        }),
+        count: jest.fn(
+          async ({ where }) =>
+            [...members.values()].filter((name) => name === where.role.name)
+              .length,
+        ),
+        create: jest.fn(async ({ data }) => setRole(data)),
+        update: jest.fn(async ({ where: { groupId_userId }, data }) =>
+          setRole({ ...groupId_userId, ...data }),
+        ),
+        delete: jest.fn(async ({ where: { groupId_userId } }) =>
+          members.delete(groupId_userId.userId),
+        ),
+      },
+      $transaction: jest.fn((update) => update(prisma)),
+    };
+    ledgerRepository = {
+      update: jest.fn(
+        (
+          groupId: number,
+          update: (ledger: GroupLedger, tx: PrismaService) => Promise<unknown>,
+        ) =>
+          update(
+            { groupId, version: 1, simplifier },
+            prisma as unknown as PrismaService,
+          ),
+      ),
+    };
+    activityService = { record: jest.fn() };
+    groupEventsService = { emit: jest.fn() };
+
+    service = new GroupsService(
+      prisma as unknown as PrismaService,
+      {
+        getByName: async (name: DefaultGroupRole) => getRole(name),
+      } as unknown as GroupRolesService,
+      ledgerRepository as unknown as LedgerRepository,
+      activityService as unknown as ActivityService,
+      groupEventsService as unknown as GroupEventsService,
+    );
+  });
+
+  describe('create', () => {
+    it('should create a group settled in the currency', async () => {
+      const group = await service.create(1, {
+        name: 'Trip',
+        settlementCurrencyCode: 'USD',
+      });
+
+      expect(group).toMatchObject({ settlementCurrencyCode: 'USD' });
+    });
+
+    it('should reject unsupported settlement currencies', async () => {
+      await expect(
+        service.create(1, { name: 'Trip', settlementCurrencyCode: 'XXX' }),
+      ).rejects.toThrow(
+        new BadRequestException('Currency XXX is not supported'),
+      );
+      expect(prisma.group.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should reject unsupported settlement currencies', async () => {
+      await expect(
+        service.update(GROUP_ID, { settlementCurrencyCode: 'XXX' }, 1),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.group.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addMember', () => {
+    it('should add a member with the member role by default', async () => {
+      await service.addMember(GROUP_ID, { userId: 4 }, 1);
+
+      expect(members.get(4)).toBe(DefaultGroupRole.Member);
+    });
+
+    it('should let owners add other owners', async () => {
+      await service.addMember(
+        GROUP_ID,
+        { userId: 4, roleId: getRole(DefaultGroupRole.Owner).id },
+        1,
+      );
+
+      expect(members.get(4)).toBe(DefaultGroupRole.Owner);
+    });
+
+    it('should refuse to let admins add owners', async () => {
+      members.set(2, DefaultGroupRole.Admin);
+
+      await expect(
+        service.addMember(
+          GROUP_ID,
+          { userId: 4, roleId: getRole(DefaultGroupRole.Owner).id },
+          2,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      expect(members.has(4)).toBe(false);
+    });
+
+    it('should refuse to grant permissions the actor lacks', async () => {
+      await expect(
+        service.addMember(
+          GROUP_ID,
+          { userId: 4, roleId: getRole(DefaultGroupRole.Admin).id },
+          2,
+        ),
+      ).rejects.toThrow(
+        'Role member can not manage role admin, as it lacks permissions: canRemoveMembers, canAddMembers, canEditGroup',
+      );
+    });
+  });
+
+  describe('updateMember', () => {
+    const update = (userId: number, role: DefaultGroupRole, actorId: number) =>
+      service.updateMember(
+        GROUP_ID,
+        userId,
+        { roleId: getRole(role).id },
+        actorId,
+      );
+
+    it('should let owners promote members to owners', async () => {
+      await update(2, DefaultGroupRole.Owner, 1);
+
+      expect(members.get(2)).toBe(DefaultGroupRole.Owner);
+      expect(activityService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'member.updated',
+          before: { role: 'member' },
+          after: { role: 'owner' },
+        }),
+        prisma,
+      );
+    });
+
+    it('should let admins promote members to admins', async () => {
+      members.set(2, DefaultGroupRole.Admin);
+
+      await update(3, DefaultGroupRole.Admin, 2);
+
+      expect(members.get(3)).toBe(DefaultGroupRole.Admin);
+    });
+
+    it('should refuse to let admins promote members to owners', async () => {
+      members.set(2, DefaultGroupRole.Admin);
+
+      await expect(update(3, DefaultGroupRole.Owner, 2)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(members.get(3)).toBe(DefaultGroupRole.Member);
+    });
+
+    it('should refuse to let admins promote themselves', async () => {
+      members.set(2, DefaultGroupRole.Admin);
+
+      await expect(update(2, DefaultGroupRole.Owner, 2)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(members.get(2)).toBe(DefaultGroupRole.Admin);
+    });
+
+    it('should refuse to let admins demote owners', async () => {
+      members.set(2, DefaultGroupRole.Owner);
+      members.set(3, DefaultGroupRole.Admin);
+
+      await expect(update(2, DefaultGroupRole.Member, 3)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(members.get(2)).toBe(DefaultGroupRole.Owner);
+    });
+
+    it('should let owners step down while another owner is left', async () => {
+      members.set(2, DefaultGroupRole.Owner);
+
+      await update(1, DefaultGroupRole.Admin, 1);
+
+      expect(members.get(1)).toBe(DefaultGroupRole.Admin);
+    });
+
+    it('should refuse to demote the last owner', async () => {
+      await expect(update(1, DefaultGroupRole.Admin, 1)).rejects.toThrow(
+        'Group 1 must have at least one owner',
+      );
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should remove a member who has settled up', async () => {
+      simplifier.add('1', '2', 1000n, 1, 'EUR');
+      simplifier.settle('1', '2', 1000n, 1, 'EUR');
+
+      await service.removeMember(GROUP_ID, 2, 1);
+
+      expect(members.has(2)).toBe(false);
+      expect(ledgerRepository.update).toHaveBeenCalledWith(
+        GROUP_ID,
+        expect.any(Function),
+      );
+      expect(activityService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'member.removed', targetId: 2 }),
+        prisma,
+      );
+      expect(groupEventsService.emit).toHaveBeenCalledWith(
+        GROUP_ID,
+        'member.removed',
+        { userId: 2 },
+      );
+    });
+
+    it('should let a member without any expenses leave', async () => {
+      simplifier.add('1', '2', 1000n, 1, 'EUR');
+
+      await service.removeMember(GROUP_ID, 3, 3);
+
+      expect(members.has(3)).toBe(false);
+      expect(groupEventsService.emit).toHaveBeenCalledWith(
+        GROUP_ID,
+        'member.left',
+        { userId: 3 },
+      );
+    });
+
+    it('should refuse to remove a member who owes money', async () => {
+      simplifier.add('1', '2', 1000n, 1, 'EUR');
+      simplifier.settle('1', '2', 400n, 1, 'EUR');
+
+      await expect(service.removeMember(GROUP_ID, 2, 1)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(members.has(2)).toBe(true);
+    });
+
+    it('should refuse to remove a member who is owed money', async () => {
+      simplifier.add('2', '3', 1000n, 1, 'USD');
+
+      await expect(service.removeMember(GROUP_ID, 2, 2)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should refuse to remove the last owner', async () => {
+      await expect(service.removeMember(GROUP_ID, 1, 1)).rejects.toThrow(
+        'Group 1 must have at least one owner',
+      );
+    });
+  });
+});
@@ -0,0 +1,351 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { ActivityService, diff } from '../activity/activity.service';
+import { GroupEventsService } from '../events/group-events.service';
+import { LedgerRepository } from '../ledger/ledger.repository';
+import { PrismaService } from '../prisma/prisma.service';
+import { AddMemberDto } from './dto/add-member.dto';
+import { CreateGroupDto } from './dto/create-group.dto';
+import { UpdateGroupDto } from './dto/update-group.dto';
+import { UpdateMemberDto } from './dto/update-member.dto';
+import { DefaultGroupRole, GROUP_PERMISSIONS } from './group-roles';
+import { GroupRolesService } from './group-roles.service';
+
+type MemberWithRole = Prisma.GroupMemberGetPayload<{
+  include: { role: true };
+}>;
+
+const memberInclude = {
+  user: { select: { id: true, name: true, email: true, photoUrl: true } },
+  role: true,
+} satisfies Prisma.GroupMemberInclude;
+
+@Injectable()
+export class GroupsService {
+  constructor(
+    private prisma: PrismaService,
+    private groupRolesService: GroupRolesService,
+    private ledgerRepository: LedgerRepository,
+    private activityService: ActivityService,
+    private groupEventsService: GroupEventsService,
+  ) {}
+
+  async create(userId: number, dto: CreateGroupDto) {
+    await this.assertCurrency(dto.settlementCurrencyCode);
+    const owner = await this.groupRolesService.getByName(
+      DefaultGroupRole.Owner,
+    );
+
+    return this.prisma.$transaction(async (tx) => {
+      const group = await tx.group.create({
+        data: {
+          name: dto.name,
+          description: dto.description,
+          settlementCurrencyCode: dto.settlementCurrencyCode,
+          GroupMember: { create: { userId, roleId: owner.id } },
+        },
+      });
+
+      await this.activityService.record(
+        {
+          groupId: group.id,
+          actorId: userId,
+          action: 'group.created',
+          targetType: 'group',
+          targetId: group.id,
+          after: this.toGroupActivity(group),
+        },
+        tx,
+      );
+      return group;
+    });
+  }
+
+  findAllForUser(userId: number) {
+    return this.prisma.group.findMany({
+      where: { GroupMember: { some: { userId } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findOne(groupId: number) {
+    const group = await this.prisma.group.findUnique({
+      where: { id: groupId },
+    });
+    if (!group) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+    return group;
+  }
+
+  async update(groupId: number, dto: UpdateGroupDto, actorId: number) {
+    const group = await this.findOne(groupId);
+    await this.assertCurrency(dto.settlementCurrencyCode);
+
+    return this.prisma.$transaction(async (tx) => {
+      const updated = await tx.group.update({
+        where: { id: groupId },
+        data: dto,
+      });
+
+      await this.activityService.record(
+        {
+          groupId,
+          actorId,
+          action: 'group.updated',
+          targetType: 'group',
+          targetId: groupId,
+          ...diff(this.toGroupActivity(group), this.toGroupActivity(updated)),
+        },
+        tx,
+      );
+      return updated;
+    });
+  }
+
+  async remove(groupId: number) {
+    await this.prisma.group.delete({ where: { id: groupId } });
+  }
+
+  findMembers(groupId: number) {
+    return this.prisma.groupMember.findMany({
+      where: { groupId },
+      include: memberInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async addMember(groupId: number, dto: AddMemberDto, actorId: number) {
+    const roleId =
+      dto.roleId ??
+      (await this.groupRolesService.getByName(DefaultGroupRole.Member)).id;
+
+    const existing = await this.prisma.groupMember.findUnique({
+      where: { groupId_userId: { groupId, userId: dto.userId } },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `User ${dto.userId} is already a member of group ${groupId}`,
+      );
+    }
+
+    const [user, role] = await Promise.all([
+      this.prisma.user.findUnique({ where: { id: dto.userId } }),
+      this.prisma.groupRole.findUnique({ where: { id: roleId } }),
+    ]);
+    if (!user) {
+      throw new NotFoundException(`User ${dto.userId} not found`);
+    }
+    if (!role) {
+      throw new NotFoundException(`Role ${roleId} not found`);
+    }
+    await this.assertCanGrant(groupId, actorId, role);
+
+    const added = await this.prisma.$transaction(async (tx) => {
+      const member = await tx.groupMember.create({
+        data: { groupId, userId: dto.userId, roleId },
+        include: memberInclude,
+      });
+
+      await this.activityService.record(
+        {
+          groupId,
+          actorId,
+          action: 'member.added',
+          targetType: 'member',
+          targetId: dto.userId,
+          after: { role: role.name },
+        },
+        tx,
+      );
+      return member;
+    });
+
+    this.groupEventsService.emit(groupId, 'member.added', {
+      userId: dto.userId,
+    });
+    return added;
+  }
+
+  async updateMember(
+    groupId: number,
+    userId: number,
+    dto: UpdateMemberDto,
+    actorId: number,
+  ) {
+    const member = await this.getMember(groupId, userId);
+
+    const role = await this.prisma.groupRole.findUnique({
+      where: { id: dto.roleId },
+    });
+    if (!role) {
+      throw new NotFoundException(`Role ${dto.roleId} not found`);
+    }
+    await this.assertCanGrant(groupId, actorId, role, member);
+    if (role.name !== DefaultGroupRole.Owner) {
+      await this.assertNotLastOwner(member);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updated = await tx.groupMember.update({
+        where: { groupId_userId: { groupId, userId } },
+        data: { roleId: role.id },
+        include: memberInclude,
+      });
+
+      await this.activityService.record(
+        {
+          groupId,
+          actorId,
+          action: 'member.updated',
+          targetType: 'member',
+          targetId: userId,
+          ...diff({ role: member.role.name }, { role: role.name }),
+        },
+        tx,
+      );
+      return updated;
+    });
+  }
+
+  async removeMember(groupId: number, userId: number, actorId: number) {
+    const member = await this.getMember(groupId, userId);
+    await this.assertNotLastOwner(member);
+
+    // The ledger is stored again along with the removal, so that expenses,
+    // or settlements of the member stored meanwhile conflict with it.
+    await this.ledgerRepository.update(groupId, async ({ simplifier }, tx) => {
+      const hasOutstandingDebts = simplifier
+        .getCurrencies()
+        .some(
+          (currencyCode) =>
+            (simplifier
+              .getSimplifier(currencyCode)
+              .getNetBalances()
+              .get(String(userId)) ?? 0n) !== 0n,
+        );
+      if (hasOutstandingDebts) {
+        throw new ConflictException(
+          `User ${userId} has to settle up before leaving group ${groupId}`,
+        );
+      }
+
+      await tx.groupMember.delete({
+        where: { groupId_userId: { groupId, userId } },
+      });
+
+      await this.activityService.record(
+        {
+          groupId,
+          actorId,
+          action: actorId === userId ? 'member.left' : 'member.removed',
+          targetType: 'member',
+          targetId: userId,
+          before: { role: member.role.name },
+        },
+        tx,
+      );
+    });
+
+    this.groupEventsService.emit(
+      groupId,
+      actorId === userId ? 'member.left' : 'member.removed',
+      { userId },
+    );
+  }
+
+  private toGroupActivity(group: Prisma.GroupGetPayload<object>) {
+    return {
+      name: group.name,
+      description: group.description,
+      settlementCurrencyCode: group.settlementCurrencyCode,
+    };
+  }
+
+  private async assertCurrency(currencyCode: string | undefined) {
+    if (currencyCode === undefined) {
+      return;
+    }
+
+    const currency = await this.prisma.currency.findUnique({
+      where: { code: currencyCode },
+    });
+    if (!currency) {
+      throw new BadRequestException(
+        `Currency ${currencyCode} is not supported`,
+      );
+    }
+  }
+
+  private async getMember(groupId: number, userId: number) {
+    const member = await this.prisma.groupMember.findUnique({
+      where: { groupId_userId: { groupId, userId } },
+      include: { role: true },
+    });
+    if (!member) {
+      throw new NotFoundException(
+        `User ${userId} is not a member of group ${groupId}`,
+      );
+    }
+    return member;
+  }
+
+  /**
+   * Members can only grant roles, and change roles of members, whose
+   * permissions they have themselves, and only owners can grant ownership.
+   * As their own role is what they have, no one can promote themselves.
+   */
+  private async assertCanGrant(
+    groupId: number,
+    actorId: number,
+    role: Prisma.GroupRoleGetPayload<object>,
+    member?: MemberWithRole,
+  ) {
+    const actor = await this.getMember(groupId, actorId);
+    const isOwner = actor.role.name === DefaultGroupRole.Owner;
+    if (
+      !isOwner &&
+      (role.name === DefaultGroupRole.Owner ||
+        member?.role.name === DefaultGroupRole.Owner)
+    ) {
+      throw new ForbiddenException(
+        `Only owners can grant, or take away ownership of group ${groupId}`,
+      );
+    }
+
+    for (const granted of member ? [role, member.role] : [role]) {
+      const missing = GROUP_PERMISSIONS.filter(
+        (permission) => granted[permission] && !actor.role[permission],
+      );
+      if (missing.length) {
+        throw new ForbiddenException(
+          `Role ${actor.role.name} can not manage role ${granted.name}, as it lacks permissions: ${missing.join(', ')}`,
+        );
+      }
+    }
+  }
+
+  private async assertNotLastOwner(member: MemberWithRole) {
+    if (member.role.name !== DefaultGroupRole.Owner) {
+      return;
+    }
+
+    const owners = await this.prisma.groupMember.count({
+      where: {
+        groupId: member.groupId,
+        role: { name: DefaultGroupRole.Owner },
+      },
+    });
+    if (owners <= 1) {
+      throw new ConflictException(
+        `Group ${member.groupId} must have at least one owner`,
+      );
+    }
+  }
+}
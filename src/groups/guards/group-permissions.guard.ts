@@ -0,0 +1,62 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthenticatedUser } from '../../auth/authenticated-user';
+import { PrismaService } from '../../prisma/prisma.service';
+import { GROUP_PERMISSIONS_KEY } from '../decorators/require-group-permissions.decorator';
+import { GroupPermission } from '../group-roles';
+
+/**
+ * Lets through members of the group from the `groupId` route param,
+ * whose role grants every permission required by the route.
+ */
+@Injectable()
+export class GroupPermissionsGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private prisma: PrismaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext) {
+    const request = context.switchToHttp().getRequest();
+    const user: AuthenticatedUser | undefined = request.user;
+    if (!user) {
+      throw new UnauthorizedException('Unauthorized');
+    }
+
+    const groupId = Number(request.params.groupId);
+    if (!Number.isInteger(groupId)) {
+      throw new NotFoundException(`Group ${request.params.groupId} not found`);
+    }
+
+    const member = await this.prisma.groupMember.findUnique({
+      where: { groupId_userId: { groupId, userId: user.id } },
+      include: { role: true },
+    });
+    if (!member) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+
+    const permissions =
+      this.reflector.getAllAndOverride<GroupPermission[]>(
+        GROUP_PERMISSIONS_KEY,
+        [context.getHandler(), context.getClass()],
+      ) ?? [];
+    const missing = permissions.filter(
+      (permission) => !member.role[permission],
+    );
+    if (missing.length) {
+      throw new ForbiddenException(
+        `Role ${member.role.name} lacks permissions: ${missing.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+}
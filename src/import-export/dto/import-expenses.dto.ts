@@ -0,0 +1,38 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsIn, IsObject, IsOptional } from 'class-validator';
+import {
+  EXPENSE_IMPORT_FORMATS,
+  ExpenseImportFormat,
+} from '../../core/expense-import/expense-import';
+
+/**
+ * Fields of the multipart form the file is uploaded with.
+ */
+export class ImportExpensesDto {
+  @IsOptional()
+  @IsIn(EXPENSE_IMPORT_FORMATS)
+  format: ExpenseImportFormat = 'csv';
+
+  /**
+   * Validates the file, and previews the expenses without creating them.
+   */
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  dryRun: boolean = false;
+
+  /**
+   * JSON object of member names used in the file, and user ids of group
+   * members they are. Names not mapped are matched with member names.
+   */
+  @IsOptional()
+  @Transform(({ value }) => {
+    try {
+      return typeof value === 'string' ? JSON.parse(value) : value;
+    } catch {
+      return value;
+    }
+  })
+  @IsObject()
+  members?: Record<string, number>;
+}
@@ -0,0 +1,199 @@
+import { BadRequestException } from '@nestjs/common';
+import { ExpensesService } from '../expenses/expenses.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { ImportExpensesDto } from './dto/import-expenses.dto';
+import { ExpenseImportService } from './expense-import.service';
+
+const GROUP_ID = 1;
+const ACTOR_ID = 1;
+
+const toFile = (...lines: string[]) =>
+  ({ buffer: Buffer.from(lines.join('\n')) }) as Express.Multer.File;
+
+const HEADER =
+  'date,name,amount,currency,paid:Alice,paid:Bob,share:Alice,share:Bob';
+
+describe('ExpenseImportService', () => {
+  let members: { id: number; name: string }[];
+  let expensesService: { createMany: jest.Mock };
+  let service: ExpenseImportService;
+
+  const importFile = (
+    file: Express.Multer.File | undefined,
+    dto: Partial<ImportExpensesDto> = {},
+  ) =>
+    service.import(
+      GROUP_ID,
+      file,
+      { format: 'csv', dryRun: false, ...dto },
+      ACTOR_ID,
+    );
+
+  beforeEach(() => {
+    members = [
+      { id: 1, name: 'Alice' },
+      { id: 2, name: 'Bob' },
+    ];
+    expensesService = {
+      createMany: jest.fn(async (groupId, inputs) =>
+        inputs.map(({ dto }, i) => ({ id: i + 1, ...dto })),
+      ),
+    };
+
+    const prisma = {
+      groupMember: {
+        findMany: jest.fn(async () => members.map((user) => ({ user }))),
+      },
+      currency: {
+        findMany: jest.fn(async ({ where }) =>
+          ['EUR', 'JPY']
+            .filter((code) => where.code.in.includes(code))
+            .map((code) => ({ code })),
+        ),
+      },
+    };
+    service = new ExpenseImportService(
+      prisma as unknown as PrismaService,
+      expensesService as unknown as ExpensesService,
+    );
+  });
+
+  it('should credit expenses to whoever paid the most', async () => {
+    const result = await importFile(
+      toFile(
+        HEADER,
+        '2024-03-01,Hotel,300.00,EUR,100,200,150,150',
+        '2024-03-02,Taxi,1200,JPY,,1200,600,600',
+      ),
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(expensesService.createMany).toHaveBeenCalledWith(
+      GROUP_ID,
+      [
+        {
+          row: 2,
+          createdAt: new Date('2024-03-01'),
+          dto: {
+            name: 'Hotel',
+            amount: 30000n,
+            currencyCode: 'EUR',
+            creditorId: 2,
+            debtors: [{ userId: 1, amount: 15000n }],
+            payers: [
+              { userId: 1, amount: 10000n },
+              { userId: 2, amount: 20000n },
+            ],
+          },
+        },
+        {
+          row: 3,
+          createdAt: new Date('2024-03-02'),
+          dto: {
+            name: 'Taxi',
+            amount: 1200n,
+            currencyCode: 'JPY',
+            creditorId: 2,
+            debtors: [{ userId: 1, amount: 600n }],
+            payers: undefined,
+          },
+        },
+      ],
+      ACTOR_ID,
+    );
+  });
+
+  it('should preview expenses, and every error on a dry run', async () => {
+    const result = await importFile(
+      toFile(
+        HEADER,
+        '2024-03-01,Hotel,300.00,EUR,100,200,150,150',
+        '2024-03-02,Museum,10,CHF,10,,5,5',
+      ),
+      { dryRun: true },
+    );
+
+    expect(result).toMatchObject({
+      dryRun: true,
+      expenses: [{ row: 2, name: 'Hotel', creditorId: 2 }],
+      errors: [{ row: 3, message: 'Currency CHF is not supported.' }],
+    });
+    expect(expensesService.createMany).not.toHaveBeenCalled();
+  });
+
+  it('should import nothing when any row has errors', async () => {
+    await expect(
+      importFile(
+        toFile(
+          HEADER,
+          '2024-03-01,Hotel,300.00,EUR,100,200,150,150',
+          '2024-03-02,Museum,10,CHF,10,,5,5',
+        ),
+      ),
+    ).rejects.toThrow(BadRequestException);
+    expect(expensesService.createMany).not.toHaveBeenCalled();
+  });
+
+  it('should match member names ignoring case, or by the mapping', async () => {
+    members = [
+      { id: 1, name: 'alice' },
+      { id: 2, name: 'Robert' },
+    ];
+
+    const result = await importFile(
+      toFile(HEADER, '2024-03-01,Hotel,300.00,EUR,100,200,150,150'),
+      { dryRun: true, members: { Bob: 2 } },
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.expenses).toMatchObject([
+      { creditorId: 2, debtors: [{ userId: 1, amount: 15000n }] },
+    ]);
+  });
+
+  it('should report names matching no member, or many of them', async () => {
+    members = [
+      { id: 1, name: 'Alice' },
+      { id: 2, name: 'alice' },
+      { id: 3, name: 'Carol' },
+    ];
+
+    const result = await importFile(
+      toFile(HEADER, '2024-03-01,Hotel,300.00,EUR,100,200,150,150'),
+      { dryRun: true },
+    );
+
+    expect(result.expenses).toEqual([]);
+    expect(result.errors).toEqual([
+      {
+        row: 1,
+        message:
+          '"Alice" matches many members of the group, map it to one of them.',
+      },
+      {
+        row: 1,
+        message: '"Bob" matches no member of the group, map it to one of them.',
+      },
+    ]);
+  });
+
+  it('should report names mapped to non-members', async () => {
+    const result = await importFile(
+      toFile(HEADER, '2024-03-01,Hotel,300.00,EUR,100,200,150,150'),
+      { dryRun: true, members: { Bob: 4 } },
+    );
+
+    expect(result.errors).toEqual([
+      {
+        row: 1,
+        message: '"Bob" is mapped to 4, who is not a member of the group.',
+      },
+    ]);
+  });
+
+  it('should reject a missing file', async () => {
+    await expect(importFile(undefined)).rejects.toThrow(
+      'File to import is missing',
+    );
+  });
+});
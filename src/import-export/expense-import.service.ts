@@ -0,0 +1,225 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Money } from '../core/currency/money';
+import {
+  ImportIssue,
+  ImportedExpense,
+  parseExpenses,
+} from '../core/expense-import/expense-import';
+import { CreateExpenseDto } from '../expenses/dto/create-expense.dto';
+import { ExpenseParticipantDto } from '../expenses/dto/expense-participant.dto';
+import { ExpensesService } from '../expenses/expenses.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { ImportExpensesDto } from './dto/import-expenses.dto';
+
+const MAX_IMPORTED_EXPENSES = 1000;
+
+interface ExpensePreview {
+  row: number;
+  createdAt: Date;
+  dto: CreateExpenseDto;
+}
+
+@Injectable()
+export class ExpenseImportService {
+  constructor(
+    private prisma: PrismaService,
+    private expensesService: ExpensesService,
+  ) {}
+
+  /**
+   * Creates expenses read from the file, unless any row of it is invalid,
+   * or previews them along with every error when it is a dry run.
+   */
+  async import(
+    groupId: number,
+    file: Express.Multer.File | undefined,
+    dto: ImportExpensesDto,
+    actorId: number,
+  ) {
+    if (!file) {
+      throw new BadRequestException('File to import is missing');
+    }
+
+    const parsed = parseExpenses(file.buffer.toString('utf8'), dto.format);
+    const errors = [...parsed.errors];
+    if (parsed.expenses.length > MAX_IMPORTED_EXPENSES) {
+      errors.push({
+        row: 1,
+        message: `Expected at most ${MAX_IMPORTED_EXPENSES} expenses, but got ${parsed.expenses.length}.`,
+      });
+    }
+
+    const members = await this.resolveMembers(
+      groupId,
+      parsed.expenses,
+      dto.members ?? {},
+      errors,
+    );
+    const currencies = await this.prisma.currency.findMany({
+      where: {
+        code: { in: [...new Set(parsed.expenses.map((e) => e.currencyCode))] },
+      },
+      select: { code: true },
+    });
+    const supported = new Set(currencies.map(({ code }) => code));
+
+    const previews: ExpensePreview[] = [];
+    for (const expense of parsed.expenses) {
+      if (!supported.has(expense.currencyCode)) {
+        errors.push({
+          row: expense.row,
+          message: `Currency ${expense.currencyCode} is not supported.`,
+        });
+        continue;
+      }
+      const expenseDto = this.toExpenseDto(expense, members);
+      if (expenseDto) {
+        previews.push({
+          row: expense.row,
+          createdAt: expense.date,
+          dto: expenseDto,
+        });
+      }
+    }
+    errors.sort((a, b) => a.row - b.row);
+
+    if (dto.dryRun) {
+      return {
+        dryRun: true,
+        expenses: previews.map(({ row, createdAt, dto }) => ({
+          row,
+          createdAt,
+          ...dto,
+        })),
+        errors,
+        warnings: parsed.warnings,
+      };
+    }
+    if (errors.length) {
+      throw new BadRequestException({
+        message: 'Nothing has been imported, as the file has errors',
+        errors,
+      });
+    }
+
+    const expenses = await this.expensesService.createMany(
+      groupId,
+      previews,
+      actorId,
+    );
+    return {
+      dryRun: false,
+      expenses,
+      errors,
+      warnings: parsed.warnings,
+    };
+  }
+
+  /**
+   * Resolves names used in the file to user ids of group members, by the
+   * mapping, or else by the member name, ignoring case.
+   */
+  private async resolveMembers(
+    groupId: number,
+    expenses: ImportedExpense[],
+    mapping: Record<string, number>,
+    errors: ImportIssue[],
+  ) {
+    const groupMembers = await this.prisma.groupMember.findMany({
+      where: { groupId },
+      select: { user: { select: { id: true, name: true } } },
+    });
+    const memberIds = new Set(groupMembers.map(({ user }) => user.id));
+
+    const names = new Set<string>();
+    for (const expense of expenses) {
+      [...expense.paid.keys(), ...expense.shares.keys()].forEach((name) =>
+        names.add(name),
+      );
+    }
+
+    const members = new Map<string, number>();
+    for (const name of names) {
+      if (Object.hasOwn(mapping, name)) {
+        const userId = mapping[name];
+        if (memberIds.has(userId)) {
+          members.set(name, userId);
+        } else {
+          errors.push({
+            row: 1,
+            message: `"${name}" is mapped to ${userId}, who is not a member of the group.`,
+          });
+        }
+        continue;
+      }
+
+      const matches = groupMembers.filter(
+        ({ user }) => user.name.toLowerCase() === name.toLowerCase(),
+      );
+      if (matches.length === 1) {
+        members.set(name, matches[0].user.id);
+      } else {
+        errors.push({
+          row: 1,
+          message: matches.length
+            ? `"${name}" matches many members of the group, map it to one of them.`
+            : `"${name}" matches no member of the group, map it to one of them.`,
+        });
+      }
+    }
+
+    return members;
+  }
+
+  /**
+   * The expense is credited to whoever paid the most. Expenses of members
+   * who could not be resolved are left out, as their names are reported.
+   */
+  private toExpenseDto(
+    expense: ImportedExpense,
+    members: Map<string, number>,
+  ): CreateExpenseDto | null {
+    const toParticipants = (amounts: Map<string, Money>) => {
+      const byUserId = new Map<number, Money>();
+      for (const [name, amount] of amounts) {
+        const userId = members.get(name);
+        if (userId === undefined) {
+          return null;
+        }
+        byUserId.set(userId, (byUserId.get(userId) ?? 0n) + amount);
+      }
+      return [...byUserId.entries()].map(([userId, amount]) => ({
+        userId,
+        amount,
+      }));
+    };
+
+    const payers = toParticipants(expense.paid);
+    const shares = toParticipants(expense.shares);
+    if (!payers || !shares) {
+      return null;
+    }
+
+    const [creditor] = [...payers].sort((a, b) =>
+      a.amount < b.amount ? 1 : a.amount > b.amount ? -1 : 0,
+    );
+    const toDto = ({
+      userId,
+      amount,
+    }: {
+      userId: number;
+      amount: Money;
+    }): ExpenseParticipantDto => ({ userId, amount });
+
+    return {
+      name: expense.name,
+      amount: expense.amount,
+      currencyCode: expense.currencyCode,
+      creditorId: creditor.userId,
+      debtors: shares
+        .filter(({ userId }) => userId !== creditor.userId)
+        .map(toDto),
+      payers: payers.length > 1 ? payers.map(toDto) : undefined,
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { GroupExportService } from './group-export.service';
+
+const GROUP_ID = 1;
+
+type Expense = Prisma.GroupExpenseGetPayload<{
+  include: { GroupExpenseDebtor: true; GroupExpensePayer: true };
+}>;
+
+describe('GroupExportService', () => {
+  let expenses: Expense[];
+  let service: GroupExportService;
+
+  const expense = (
+    id: number,
+    payers: Expense['GroupExpensePayer'],
+  ): Expense => ({
+    id,
+    name: 'Dinner',
+    amount: 3000n,
+    category: null,
+    createdAt: new Date('2024-03-01'),
+    updatedAt: new Date('2024-03-01'),
+    groupId: GROUP_ID,
+    creditorId: 1,
+    currencyCode: 'EUR',
+    exchangeRateSnapshotId: null,
+    recurringExpenseId: null,
+    occurrenceAt: null,
+    GroupExpenseDebtor: [
+      { groupExpenseId: id, userId: 2, amount: 1000n, resolved: false },
+    ],
+    GroupExpensePayer: payers,
+  });
+
+  beforeEach(() => {
+    expenses = [];
+
+    const prisma = {
+      groupExpense: {
+        findMany: jest.fn(async () => expenses),
+      },
+      settlement: {
+        findMany: jest.fn(async () => []),
+      },
+      user: {
+        findMany: jest.fn(async () => [
+          { id: 1, name: 'Alice' },
+          { id: 2, name: 'Bob' },
+        ]),
+      },
+      $transaction: jest.fn((queries) => Promise.all(queries)),
+    };
+    service = new GroupExportService(prisma as unknown as PrismaService);
+  });
+
+  it('should credit the creditor with expenses without payers', async () => {
+    expenses = [expense(1, [])];
+
+    const { balances } = await service.export(GROUP_ID, {});
+
+    expect(balances).toEqual([
+      { userId: 2, currencyCode: 'EUR', balance: -1000n },
+      { userId: 1, currencyCode: 'EUR', balance: 1000n },
+    ]);
+    expect(await service.exportCsv(GROUP_ID, 'expenses', {})).toContain(
+      '2024-03-01T00:00:00.000Z,Dinner,30.00,EUR,30.00,,20.00,10.00',
+    );
+  });
+
+  it('should credit the payers of expenses', async () => {
+    expenses = [
+      expense(1, [
+        { groupExpenseId: 1, userId: 1, amount: 1000n },
+        { groupExpenseId: 1, userId: 2, amount: 2000n },
+      ]),
+    ];
+
+    const { balances } = await service.export(GROUP_ID, {});
+
+    expect(balances).toEqual([
+      { userId: 2, currencyCode: 'EUR', balance: 1000n },
+      { userId: 1, currencyCode: 'EUR', balance: -1000n },
+    ]);
+  });
+});
@@ -0,0 +1,220 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { CsvValue, stringifyCsv } from '../core/csv/csv';
+import { formatMinorUnits } from '../core/currency/minor-units';
+import { Money } from '../core/currency/money';
+import { formatExpenses } from '../core/expense-import/expense-import';
+import { PrismaService } from '../prisma/prisma.service';
+import { ExportQueryDto } from './dto/export-query.dto';
+
+export const EXPORT_TABLES = ['expenses', 'settlements', 'balances'] as const;
+
+export type ExportTable = (typeof EXPORT_TABLES)[number];
+
+const expenseInclude = {
+  GroupExpenseDebtor: true,
+  GroupExpensePayer: true,
+} satisfies Prisma.GroupExpenseInclude;
+
+type Expense = Prisma.GroupExpenseGetPayload<{
+  include: typeof expenseInclude;
+}>;
+
+@Injectable()
+export class GroupExportService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Expenses and settlements of the date range, along with the balances
+   * of every member resulting from them alone.
+   */
+  async export(groupId: number, query: ExportQueryDto) {
+    const createdAt = { gte: query.from, lte: query.to };
+
+    const [expenses, settlements] = await this.prisma.$transaction([
+      this.prisma.groupExpense.findMany({
+        where: { groupId, createdAt },
+        include: expenseInclude,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      }),
+      this.prisma.settlement.findMany({
+        where: { groupId, createdAt },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      }),
+    ]);
+
+    const balances = new Map<number, Map<string, Money>>();
+    const addBalance = (
+      userId: number,
+      currencyCode: string,
+      amount: Money,
+    ) => {
+      const userBalances = balances.get(userId) ?? new Map<string, Money>();
+      userBalances.set(
+        currencyCode,
+        (userBalances.get(currencyCode) ?? 0n) + amount,
+      );
+      balances.set(userId, userBalances);
+    };
+    for (const expense of expenses) {
+      for (const [userId, amount] of this.getShares(expense)) {
+        addBalance(userId, expense.currencyCode, -amount);
+      }
+      for (const { userId, amount } of this.getPayers(expense)) {
+        addBalance(userId, expense.currencyCode, amount);
+      }
+    }
+    for (const settlement of settlements) {
+      if (!settlement.reversedAt) {
+        addBalance(
+          settlement.payerId,
+          settlement.currencyCode,
+          settlement.amount,
+        );
+        addBalance(
+          settlement.payeeId,
+          settlement.currencyCode,
+          -settlement.amount,
+        );
+      }
+    }
+
+    // Former members of the group are named as well.
+    const members = await this.prisma.user.findMany({
+      where: {
+        OR: [
+          { GroupMember: { some: { groupId } } },
+          { id: { in: [...balances.keys()] } },
+        ],
+      },
+      select: { id: true, name: true },
+      orderBy: { id: 'asc' },
+    });
+
+    return {
+      from: query.from ?? null,
+      to: query.to ?? null,
+      members,
+      expenses,
+      settlements,
+      balances: [...balances.entries()].flatMap(([userId, userBalances]) =>
+        [...userBalances.entries()].map(([currencyCode, balance]) => ({
+          userId,
+          currencyCode,
+          balance,
+        })),
+      ),
+    };
+  }
+
+  /**
+   * Formats the table of the export as CSV, with amounts in major units,
+   * and members by their names. Expenses can be imported back.
+   */
+  async exportCsv(groupId: number, table: string, query: ExportQueryDto) {
+    if (!EXPORT_TABLES.includes(table as ExportTable)) {
+      throw new NotFoundException(`Table ${table} not found`);
+    }
+
+    const data = await this.export(groupId, query);
+    const names = this.getMemberNames(data.members);
+    const name = (userId: number) => names.get(userId) ?? `#${userId}`;
+
+    let rows: CsvValue[][];
+    switch (table as ExportTable) {
+      case 'expenses':
+        rows = formatExpenses(
+          data.expenses.map((expense) => ({
+            date: expense.createdAt,
+            name: expense.name,
+            currencyCode: expense.currencyCode,
+            amount: expense.amount,
+            paid: new Map(
+              this.getPayers(expense).map(({ userId, amount }) => [
+                name(userId),
+                amount,
+              ]),
+            ),
+            shares: new Map(
+              [...this.getShares(expense)].map(([userId, amount]) => [
+                name(userId),
+                amount,
+              ]),
+            ),
+          })),
+        );
+        break;
+      case 'settlements':
+        rows = [
+          ['date', 'payer', 'payee', 'amount', 'currency', 'reversed_at'],
+          ...data.settlements.map((settlement) => [
+            settlement.createdAt.toISOString(),
+            name(settlement.payerId),
+            name(settlement.payeeId),
+            formatMinorUnits(settlement.amount, settlement.currencyCode),
+            settlement.currencyCode,
+            settlement.reversedAt?.toISOString(),
+          ]),
+        ];
+        break;
+      case 'balances':
+        rows = [
+          ['member', 'currency', 'balance'],
+          ...data.balances.map(({ userId, currencyCode, balance }) => [
+            name(userId),
+            currencyCode,
+            formatMinorUnits(balance, currencyCode),
+          ]),
+        ];
+        break;
+    }
+
+    return stringifyCsv(rows);
+  }
+
+  /**
+   * Expenses created before many payers were supported are paid by the
+   * creditor alone.
+   */
+  private getPayers(expense: Expense): { userId: number; amount: Money }[] {
+    return expense.GroupExpensePayer.length
+      ? expense.GroupExpensePayer
+      : [{ userId: expense.creditorId, amount: expense.amount }];
+  }
+
+  /**
+   * Share of every participant, the creditor's being whatever is not shared.
+   */
+  private getShares(expense: Expense) {
+    const shares = new Map<number, Money>();
+    let shared = 0n;
+    for (const { userId, amount } of expense.GroupExpenseDebtor) {
+      shares.set(userId, (shares.get(userId) ?? 0n) + amount);
+      shared += amount;
+    }
+    if (expense.amount > shared) {
+      shares.set(
+        expense.creditorId,
+        (shares.get(expense.creditorId) ?? 0n) + expense.amount - shared,
+      );
+    }
+    return shares;
+  }
+
+  /**
+   * Members sharing a name are told apart by their user ids.
+   */
+  private getMemberNames(members: { id: number; name: string }[]) {
+    const counts = new Map<string, number>();
+    members.forEach(({ name }) =>
+      counts.set(name, (counts.get(name) ?? 0) + 1),
+    );
+
+    return new Map(
+      members.map(({ id, name }) => [
+        id,
+        counts.get(name) > 1 ? `${name} #${id}` : name,
+      ]),
+    );
+  }
+}
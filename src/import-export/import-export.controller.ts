@@ -0,0 +1,68 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { AuthenticatedUser } from '../auth/authenticated-user';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequireGroupPermissions } from '../groups/decorators/require-group-permissions.decorator';
+import { GroupPermissionsGuard } from '../groups/guards/group-permissions.guard';
+import { ExportQueryDto } from './dto/export-query.dto';
+import { ImportExpensesDto } from './dto/import-expenses.dto';
+import { ExpenseImportService } from './expense-import.service';
+import { GroupExportService } from './group-export.service';
+
+const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+
+@Controller('groups/:groupId')
+@UseGuards(GroupPermissionsGuard)
+export class ImportExportController {
+  constructor(
+    private expenseImportService: ExpenseImportService,
+    private groupExportService: GroupExportService,
+  ) {}
+
+  @Post('expenses/import')
+  @RequireGroupPermissions('canAddExpenses')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_SIZE } }),
+  )
+  import(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() dto: ImportExpensesDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.expenseImportService.import(groupId, file, dto, user.id);
+  }
+
+  @Get('export')
+  export(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Query() query: ExportQueryDto,
+  ) {
+    return this.groupExportService.export(groupId, query);
+  }
+
+  @Get('export/:table')
+  async exportCsv(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Param('table') table: string,
+    @Query() query: ExportQueryDto,
+  ) {
+    const csv = await this.groupExportService.exportCsv(groupId, table, query);
+    return new StreamableFile(Buffer.from(csv), {
+      type: 'text/csv; charset=utf-8',
+      disposition: `attachment; filename="group-${groupId}-${table}.csv"`,
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ExpensesModule } from '../expenses/expenses.module';
+import { GroupsModule } from '../groups/groups.module';
+import { ExpenseImportService } from './expense-import.service';
+import { GroupExportService } from './group-export.service';
+import { ImportExportController } from './import-export.controller';
+
+@Module({
+  imports: [ExpensesModule, GroupsModule],
+  providers: [ExpenseImportService, GroupExportService],
+  controllers: [ImportExportController],
+})
+export class ImportExportModule {}
@@ -0,0 +1,62 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthenticatedUser } from '../auth/authenticated-user';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequireGroupPermissions } from '../groups/decorators/require-group-permissions.decorator';
+import { GroupPermissionsGuard } from '../groups/guards/group-permissions.guard';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { InvitationsService } from './invitations.service';
+
+@Controller('groups/:groupId')
+@UseGuards(GroupPermissionsGuard)
+@RequireGroupPermissions('canAddMembers')
+export class GroupInvitationsController {
+  constructor(private invitationsService: InvitationsService) {}
+
+  @Post('invitations')
+  invite(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Body() dto: CreateInvitationDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.invitationsService.invite(groupId, dto.email, user.id);
+  }
+
+  @Get('invitations')
+  findPending(@Param('groupId', ParseIntPipe) groupId: number) {
+    return this.invitationsService.findPending(groupId);
+  }
+
+  @Delete('invitations/:email')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  revoke(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Param('email') email: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.invitationsService.revoke(groupId, email, user.id);
+  }
+
+  @Get('join-link')
+  findJoinLink(@Param('groupId', ParseIntPipe) groupId: number) {
+    return this.invitationsService.findJoinLink(groupId);
+  }
+
+  @Post('join-link')
+  rotateJoinLink(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.invitationsService.rotateJoinLink(groupId, user.id);
+  }
+}
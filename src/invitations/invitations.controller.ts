@@ -0,0 +1,35 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+} from '@nestjs/common';
+import { AuthenticatedUser } from '../auth/authenticated-user';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JoinGroupDto } from './dto/join-group.dto';
+import { InvitationsService } from './invitations.service';
+
+@Controller('invitations')
+export class InvitationsController {
+  constructor(private invitationsService: InvitationsService) {}
+
+  @Get()
+  findPending(@CurrentUser() user: AuthenticatedUser) {
+    return this.invitationsService.findPendingForUser(user);
+  }
+
+  @Post('join')
+  join(@CurrentUser() user: AuthenticatedUser, @Body() dto: JoinGroupDto) {
+    return this.invitationsService.joinByLink(dto.joinLink, user);
+  }
+
+  @Post(':groupId/accept')
+  accept(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseIntPipe) groupId: number,
+  ) {
+    return this.invitationsService.accept(groupId, user);
+  }
+}
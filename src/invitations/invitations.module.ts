@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { ActivityModule } from '../activity/activity.module';
+import { EventsModule } from '../events/events.module';
+import { GroupsModule } from '../groups/groups.module';
+import { MailerModule } from '../mailer/mailer.module';
+import { GroupInvitationsController } from './group-invitations.controller';
+import { InvitationsController } from './invitations.controller';
+import { InvitationsService } from './invitations.service';
+
+@Module({
+  imports: [
+    ConfigModule,
+    GroupsModule,
+    ActivityModule,
+    EventsModule,
+    MailerModule,
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      // Without the secret no join link could be issued, or verified.
+      useFactory: (config: ConfigService) => ({
+        secret: config.getOrThrow<string>('JOIN_LINK_SECRET'),
+      }),
+    }),
+  ],
+  providers: [InvitationsService],
+  controllers: [GroupInvitationsController, InvitationsController],
+  exports: [InvitationsService],
+})
+export class InvitationsModule {}
@@ -0,0 +1,87 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { ActivityService } from '../activity/activity.service';
+import { GroupEventsService } from '../events/group-events.service';
+import { GroupRolesService } from '../groups/group-roles.service';
+import { Mailer } from '../mailer/mailer';
+import { PrismaService } from '../prisma/prisma.service';
+import { InvitationsService } from './invitations.service';
+
+const GROUP_ID = 1;
+const ACTOR_ID = 1;
+
+describe('InvitationsService', () => {
+  let memberEmails: string[];
+  let prisma: {
+    group: Record<'findUniqueOrThrow', jest.Mock>;
+    groupMember: Record<'findFirst', jest.Mock>;
+    groupInvitation: Record<'upsert', jest.Mock>;
+    $transaction: jest.Mock;
+  };
+  let mailer: { send: jest.Mock };
+  let service: InvitationsService;
+
+  beforeEach(() => {
+    memberEmails = ['alice@example.com'];
+    prisma = {
+      group: {
+        findUniqueOrThrow: jest.fn(async ({ where }) => ({
+          id: where.id,
+          name: 'Trip to Rome',
+        })),
+      },
+      groupMember: {
+        findFirst: jest.fn(async ({ where }) =>
+          memberEmails.includes(where.user.email)
+            ? { groupId: where.groupId }
+            : null,
+        ),
+      },
+      groupInvitation: {
+        upsert: jest.fn(async ({ create }) => create),
+      },
+      $transaction: jest.fn((update) => update(prisma)),
+    };
+    mailer = { send: jest.fn() };
+
+    service = new InvitationsService(
+      prisma as unknown as PrismaService,
+      new JwtService({ secret: 'secret' }),
+      new ConfigService({
+        INVITATIONS_URL: 'https://app.example.com/invitations',
+      }),
+      {} as GroupRolesService,
+      { record: jest.fn() } as unknown as ActivityService,
+      { emit: jest.fn() } as unknown as GroupEventsService,
+      mailer as Mailer,
+    );
+  });
+
+  describe('invite', () => {
+    it('should email the invitee a link to the invitations', async () => {
+      const invitation = await service.invite(
+        GROUP_ID,
+        'Bob@Example.com',
+        ACTOR_ID,
+      );
+
+      expect(invitation).toMatchObject({
+        groupId: GROUP_ID,
+        userEmail: 'bob@example.com',
+      });
+      expect(mailer.send).toHaveBeenCalledWith({
+        to: 'bob@example.com',
+        subject: 'Join Trip to Rome on Split Buddy',
+        text: expect.stringContaining('https://app.example.com/invitations'),
+      });
+    });
+
+    it('should not email members of the group', async () => {
+      await expect(
+        service.invite(GROUP_ID, 'alice@example.com', ACTOR_ID),
+      ).rejects.toThrow(ConflictException);
+      expect(mailer.send).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import {
+  ConflictException,
+  GoneException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { randomUUID } from 'crypto';
+import { ActivityService } from '../activity/activity.service';
+import { AuthenticatedUser } from '../auth/authenticated-user';
+import { GroupEventsService } from '../events/group-events.service';
+import { DefaultGroupRole } from '../groups/group-roles';
+import { GroupRolesService } from '../groups/group-roles.service';
+import { MAILER } from '../mailer/mailer.constants';
+import { Mailer } from '../mailer/mailer';
+import { PrismaService } from '../prisma/prisma.service';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+interface JoinLinkPayload {
+  groupId: number;
+  nonce: string;
+}
+
+@Injectable()
+export class InvitationsService {
+  constructor(
+    private prisma: PrismaService,
+    private jwtService: JwtService,
+    private config: ConfigService,
+    private groupRolesService: GroupRolesService,
+    private activityService: ActivityService,
+    private groupEventsService: GroupEventsService,
+    @Inject(MAILER) private mailer: Mailer,
+  ) {}
+
+  /**
+   * Invites the email to the group, and emails a link to the invitations
+   * of the app, where the invitee can accept it once signed in.
+   */
+  async invite(groupId: number, email: string, actorId: number) {
+    const userEmail = email.toLowerCase();
+
+    const member = await this.prisma.groupMember.findFirst({
+      where: { groupId, user: { email: userEmail } },
+    });
+    if (member) {
+      throw new ConflictException(
+        `${userEmail} is already a member of group ${groupId}`,
+      );
+    }
+
+    const expirationTime = this.getExpirationTime('INVITATION_TTL_DAYS', 7);
+    const invitation = await this.prisma.$transaction(async (tx) => {
+      const invitation = await tx.groupInvitation.upsert({
+        where: { groupId_userEmail: { groupId, userEmail } },
+        create: { groupId, userEmail, expirationTime },
+        update: { expirationTime },
+      });
+
+      await this.activityService.record(
+        {
+          groupId,
+          actorId,
+          action: 'invitation.created',
+          targetType: 'invitation',
+          after: { userEmail, expirationTime },
+        },
+        tx,
+      );
+      return invitation;
+    });
+
+    const group = await this.prisma.group.findUniqueOrThrow({
+      where: { id: groupId },
+    });
+    const link =
+      this.config.get<string>('INVITATIONS_URL') ??
+      'http://localhost:8080/invitations';
+    await this.mailer.send({
+      to: userEmail,
+      subject: `Join ${group.name} on Split Buddy`,
+      text: `You have been invited to split expenses in ${group.name}. Sign in as ${userEmail} to accept the invitation: ${link}\n\nThe invitation expires on ${expirationTime.toUTCString()}.`,
+    });
+
+    return invitation;
+  }
+
+  findPending(groupId: number) {
+    return this.prisma.groupInvitation.findMany({
+      where: { groupId, expirationTime: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  findPendingForUser(user: AuthenticatedUser) {
+    return this.prisma.groupInvitation.findMany({
+      where: {
+        userEmail: user.email.toLowerCase(),
+        expirationTime: { gt: new Date() },
+      },
+      include: { group: true },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revoke(groupId: number, email: string, actorId: number) {
+    const userEmail = email.toLowerCase();
+
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.groupInvitation.deleteMany({
+        where: { groupId, userEmail },
+      });
+      if (!count) {
+        throw new NotFoundException(`Invitation of ${email} not found`);
+      }
+
+      await this.activityService.record(
+        {
+          groupId,
+          actorId,
+          action: 'invitation.revoked',
+          targetType: 'invitation',
+          before: { userEmail },
+        },
+        tx,
+      );
+    });
+  }
+
+  async accept(groupId: number, user: AuthenticatedUser) {
+    const userEmail = user.email.toLowerCase();
+    const invitation = await this.prisma.groupInvitation.findUnique({
+      where: { groupId_userEmail: { groupId, userEmail } },
+    });
+    if (!invitation) {
+      throw new NotFoundException(`Invitation to group ${groupId} not found`);
+    }
+    if (invitation.expirationTime <= new Date()) {
+      throw new GoneException(`Invitation to group ${groupId} has expired`);
+    }
+
+    return this.join(groupId, user.id);
+  }
+
+  /**
+   * Turns pending invitations of a newly signed up user into memberships.
+   */
+  async acceptPendingInvitations(user: AuthenticatedUser) {
+    const invitations = await this.findPendingForUser(user);
+    for (const invitation of invitations) {
+      await this.join(invitation.groupId, user.id);
+    }
+    return invitations.length;
+  }
+
+  findJoinLink(groupId: number) {
+    return this.prisma.groupInvitationLink.findUnique({ where: { groupId } });
+  }
+
+  /**
+   * Issues a new join link of the group, invalidating the previous one.
+   */
+  async rotateJoinLink(groupId: number, actorId: number) {
+    const payload: JoinLinkPayload = { groupId, nonce: randomUUID() };
+    const expirationTime = this.getExpirationTime('JOIN_LINK_TTL_DAYS', 30);
+    const joinLink = await this.jwtService.signAsync(payload, {
+      expiresIn: Math.floor((expirationTime.getTime() - Date.now()) / 1000),
+    });
+
+    return this.prisma.$transaction(async (tx) => {
+      const link = await tx.groupInvitationLink.upsert({
+        where: { groupId },
+        create: { groupId, joinLink, expirationTime },
+        update: { joinLink, expirationTime, createdAt: new Date() },
+      });
+
+      await this.activityService.record(
+        {
+          groupId,
+          actorId,
+          action: 'join_link.rotated',
+          targetType: 'join_link',
+          after: { expirationTime },
+        },
+        tx,
+      );
+      return link;
+    });
+  }
+
+  async joinByLink(joinLink: string, user: AuthenticatedUser) {
+    let payload: JoinLinkPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JoinLinkPayload>(joinLink);
+    } catch {
+      throw new GoneException('Join link is invalid or has expired');
+    }
+
+    const current = await this.findJoinLink(payload.groupId);
+    if (current?.joinLink !== joinLink) {
+      throw new GoneException('Join link has been rotated');
+    }
+
+    return this.join(payload.groupId, user.id);
+  }
+
+  private async join(groupId: number, userId: number) {
+    const member = await this.prisma.groupMember.findUnique({
+      where: { groupId_userId: { groupId, userId } },
+    });
+    if (member) {
+      return member;
+    }
+
+    const role = await this.groupRolesService.getByName(
+      DefaultGroupRole.Member,
+    );
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+    });
+
+    const joined = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.groupMember.create({
+        data: { groupId, userId, roleId: role.id },
+      });
+      await tx.groupInvitation.deleteMany({
+        where: { groupId, userEmail: user.email.toLowerCase() },
+      });
+
+      await this.activityService.record(
+        {
+          groupId,
+          actorId: userId,
+          action: 'member.joined',
+          targetType: 'member',
+          targetId: userId,
+          after: { role: role.name },
+        },
+        tx,
+      );
+      return created;
+    });
+
+    this.groupEventsService.emit(groupId, 'member.joined', { userId });
+    return joined;
+  }
+
+  private getExpirationTime(key: string, defaultDays: number) {
+    const days = Number(this.config.get<string>(key) ?? defaultDays);
+    return new Date(Date.now() + days * DAY_IN_MS);
+  }
+}
@@ -0,0 +1,16 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Runs an operation of the debt simplifier, reporting the debts it would
+ * break as a client error.
+ */
+export function applyLedgerOperation<T>(operation: () => T) {
+  try {
+    return operation();
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new BadRequestException(error.message);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,35 @@
+import { Money } from '../core/currency/money';
+import { MultiCurrencyDebtSimplifier } from '../core/debt-simplifier/multi-currency-debt-simplifier';
+
+export interface LedgerBalance {
+  creditorId: number;
+  debtorId: number;
+  currencyCode: string;
+  amount: Money;
+}
+
+/**
+ * What every debtor owes every creditor, in every currency, leaving out
+ * relations which have been settled.
+ */
+export function getLedgerBalances(simplifier: MultiCurrencyDebtSimplifier) {
+  const balances: LedgerBalance[] = [];
+
+  for (const currencyCode of simplifier.getCurrencies()) {
+    const creditors = simplifier.getSimplifier(currencyCode).getCreditors();
+    for (const [creditorId, debtors] of creditors) {
+      for (const [debtorId, debtor] of debtors) {
+        if (debtor.owes > 0n) {
+          balances.push({
+            creditorId: Number(creditorId),
+            debtorId: Number(debtorId),
+            currencyCode,
+            amount: debtor.owes,
+          });
+        }
+      }
+    }
+  }
+
+  return balances;
+}
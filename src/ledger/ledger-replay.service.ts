@@ -0,0 +1,160 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Money } from '../core/currency/money';
+import { RelationDrift, findDrift } from '../core/debt-simplifier/ledger-drift';
+import { MultiCurrencyDebtSimplifier } from '../core/debt-simplifier/multi-currency-debt-simplifier';
+import { PrismaService } from '../prisma/prisma.service';
+import { LedgerRepository } from './ledger.repository';
+import { recordExpense } from './record-expense';
+
+export interface LedgerRebuild {
+  groupId: number;
+  /**
+   * Version of the stored ledger the replay has been compared with.
+   */
+  version: number | null;
+  drift: RelationDrift[];
+  rebuilt: boolean;
+}
+
+const REBUILD_TIMEOUT_MS = 60_000;
+
+interface ReplayEvent {
+  createdAt: Date;
+  /**
+   * Expenses happening at the same time as settlements are replayed first.
+   */
+  type: 'expense' | 'settlement';
+  id: number;
+  apply: (simplifier: MultiCurrencyDebtSimplifier) => void;
+}
+
+/**
+ * Rebuilds ledgers from expenses, and settlements in the order they happened,
+ * so that the result does not depend on the order they have been added in.
+ */
+@Injectable()
+export class LedgerReplayService {
+  constructor(
+    private prisma: PrismaService,
+    private ledgerRepository: LedgerRepository,
+  ) {}
+
+  /**
+   * Replays the ledger of the group as it was at the given time, or now.
+   * Expenses are replayed as they are now, so edits, and deletions apply
+   * to the past as well. Settlements reversed since count as not reversed.
+   */
+  async replay(
+    groupId: number,
+    at?: Date,
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    const group = await tx.group.findUnique({ where: { id: groupId } });
+    if (!group) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+
+    const [expenses, settlements] = await Promise.all([
+      tx.groupExpense.findMany({
+        where: { groupId, createdAt: { lte: at } },
+        include: { GroupExpenseDebtor: true, GroupExpensePayer: true },
+      }),
+      tx.settlement.findMany({
+        where: {
+          groupId,
+          createdAt: { lte: at },
+          ...(at
+            ? { OR: [{ reversedAt: null }, { reversedAt: { gt: at } }] }
+            : { reversedAt: null }),
+        },
+      }),
+    ]);
+
+    const toParticipants = (
+      participants: { userId: number; amount: Money }[],
+    ) => participants.map(({ userId, amount }) => ({ userId, amount }));
+    const events: ReplayEvent[] = [
+      ...expenses.map((expense) => ({
+        createdAt: expense.createdAt,
+        type: 'expense' as const,
+        id: expense.id,
+        apply: (simplifier: MultiCurrencyDebtSimplifier) =>
+          recordExpense(simplifier, expense.id, {
+            amount: expense.amount,
+            currencyCode: expense.currencyCode,
+            creditorId: expense.creditorId,
+            debtors: toParticipants(expense.GroupExpenseDebtor),
+            // Expenses created before many payers were supported are paid
+            // by the creditor alone.
+            payers: expense.GroupExpensePayer.length
+              ? toParticipants(expense.GroupExpensePayer)
+              : [{ userId: expense.creditorId, amount: expense.amount }],
+          }),
+      })),
+      ...settlements.map((settlement) => ({
+        createdAt: settlement.createdAt,
+        type: 'settlement' as const,
+        id: settlement.id,
+        apply: (simplifier: MultiCurrencyDebtSimplifier) =>
+          simplifier.settle(
+            String(settlement.payeeId),
+            String(settlement.payerId),
+            settlement.amount,
+            settlement.id,
+            settlement.currencyCode,
+          ),
+      })),
+    ].sort(
+      (a, b) =>
+        a.createdAt.getTime() - b.createdAt.getTime() ||
+        Number(a.type === 'settlement') - Number(b.type === 'settlement') ||
+        a.id - b.id,
+    );
+
+    const simplifier = new MultiCurrencyDebtSimplifier(
+      group.settlementCurrencyCode,
+    );
+    for (const event of events) {
+      try {
+        event.apply(simplifier);
+      } catch (error) {
+        if (error instanceof Error) {
+          throw new ConflictException(
+            `Ledger of group ${groupId} can not be replayed at ${event.type} ${event.id}. ${error.message}`,
+          );
+        }
+        throw error;
+      }
+    }
+    return simplifier;
+  }
+
+  /**
+   * Compares the stored ledger of the group with a fresh replay, and stores
+   * the replay instead if they drifted apart, unless it is a dry run.
+   */
+  async rebuild(groupId: number, dryRun = false): Promise<LedgerRebuild> {
+    const ledger = await this.ledgerRepository.load(groupId);
+    const drift = findDrift(ledger.simplifier, await this.replay(groupId));
+    if (dryRun || !drift.length) {
+      return { groupId, version: ledger.version, drift, rebuilt: false };
+    }
+
+    return this.ledgerRepository.update(
+      groupId,
+      async (ledger, tx) => {
+        const version = ledger.version;
+        const replayed = await this.replay(groupId, undefined, tx);
+        const drift = findDrift(ledger.simplifier, replayed);
+        ledger.simplifier = replayed;
+        return { groupId, version, drift, rebuilt: true };
+      },
+      { timeout: REBUILD_TIMEOUT_MS },
+    );
+  }
+}
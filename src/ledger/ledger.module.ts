@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { EventsModule } from '../events/events.module';
+import { LedgerReplayService } from './ledger-replay.service';
+import { LedgerRepository } from './ledger.repository';
+
+@Module({
+  imports: [EventsModule],
+  providers: [LedgerRepository, LedgerReplayService],
+  exports: [LedgerRepository, LedgerReplayService],
+})
+export class LedgerModule {}
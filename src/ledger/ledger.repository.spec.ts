@@ -0,0 +1,142 @@
+import { GroupArchivedDebt } from '@prisma/client';
+import { GroupEventsService } from '../events/group-events.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LedgerRepository } from './ledger.repository';
+
+const GROUP_ID = 1;
+
+describe('LedgerRepository', () => {
+  let ledger: { snapshot: string; version: number } | null;
+  let archivedDebts: GroupArchivedDebt[];
+  let prisma: {
+    group: Record<'findUnique', jest.Mock>;
+    groupLedger: Record<'create' | 'updateMany', jest.Mock>;
+    groupArchivedDebt: Record<'createMany' | 'deleteMany', jest.Mock>;
+    groupBalance: Record<'createMany' | 'deleteMany', jest.Mock>;
+    $transaction: jest.Mock;
+  };
+  let repository: LedgerRepository;
+
+  beforeEach(() => {
+    ledger = null;
+    archivedDebts = [];
+
+    prisma = {
+      group: {
+        findUnique: jest.fn(async () => ({
+          id: GROUP_ID,
+          settlementCurrencyCode: 'EUR',
+          GroupLedger: ledger && { groupId: GROUP_ID, ...ledger },
+          GroupArchivedDebt: archivedDebts,
+        })),
+      },
+      groupLedger: {
+        create: jest.fn(async ({ data }) => {
+          ledger = { snapshot: data.snapshot, version: data.version };
+        }),
+        updateMany: jest.fn(async ({ where, data }) => {
+          if (ledger?.version !== where.version) {
+            return { count: 0 };
+          }
+          ledger = { snapshot: data.snapshot, version: ledger.version + 1 };
+          return { count: 1 };
+        }),
+      },
+      groupArchivedDebt: {
+        createMany: jest.fn(async ({ data }) => {
+          archivedDebts = [...archivedDebts, ...data];
+        }),
+        deleteMany: jest.fn(async ({ where }) => {
+          archivedDebts = archivedDebts.filter(
+            (row) =>
+              !where.OR.some(
+                (key: Partial<GroupArchivedDebt>) =>
+                  row.currencyCode === key.currencyCode &&
+                  row.creditorId === key.creditorId &&
+                  row.debtorId === key.debtorId &&
+                  row.expenseId === key.expenseId,
+              ),
+          );
+        }),
+      },
+      groupBalance: {
+        createMany: jest.fn(),
+        deleteMany: jest.fn(),
+      },
+      $transaction: jest.fn((update) => update(prisma)),
+    };
+
+    repository = new LedgerRepository(
+      prisma as unknown as PrismaService,
+      { emit: jest.fn() } as unknown as GroupEventsService,
+    );
+  });
+
+  const settleExpense = () =>
+    repository.update(GROUP_ID, async ({ simplifier }) => {
+      simplifier.add('1', '2', 1000n, 1, 'EUR');
+      simplifier.settle('1', '2', 1000n, 1, 'EUR');
+      simplifier.compact();
+    });
+
+  it('should store archived debts apart from the snapshot', async () => {
+    await settleExpense();
+
+    expect(ledger?.snapshot).not.toContain('archived');
+    expect(archivedDebts).toEqual([
+      {
+        groupId: GROUP_ID,
+        currencyCode: 'EUR',
+        creditorId: '1',
+        debtorId: '2',
+        expenseId: 1,
+        debt: expect.stringContaining('"settlementId":1'),
+      },
+    ]);
+
+    const { simplifier } = await repository.load(GROUP_ID);
+    expect(simplifier.getArchivedDebts()).toMatchObject([
+      { creditorId: '1', debtorId: '2', debt: { expenseId: 1 } },
+    ]);
+    expect(simplifier.getSimplifier('EUR')!.hasSettlement(1)).toBe(true);
+  });
+
+  it('should store archived debts only once', async () => {
+    await settleExpense();
+    prisma.groupArchivedDebt.createMany.mockClear();
+
+    await repository.update(GROUP_ID, async ({ simplifier }) => {
+      simplifier.add('1', '3', 500n, 2, 'EUR');
+    });
+
+    expect(prisma.groupArchivedDebt.createMany).not.toHaveBeenCalled();
+    expect(prisma.groupArchivedDebt.deleteMany).not.toHaveBeenCalled();
+    expect(archivedDebts).toHaveLength(1);
+  });
+
+  it('should delete archived debts brought back', async () => {
+    await settleExpense();
+
+    await repository.update(GROUP_ID, async ({ simplifier }) => {
+      simplifier.add('1', '2', 200n, 1, 'EUR');
+    });
+
+    expect(archivedDebts).toEqual([]);
+    const { simplifier } = await repository.load(GROUP_ID);
+    expect(
+      simplifier.getSimplifier('EUR')!.getCreditors().get('1')?.get('2')?.owes,
+    ).toBe(200n);
+  });
+
+  it('should move archived debts of older snapshots out of them', async () => {
+    await settleExpense();
+    const { simplifier } = await repository.load(GROUP_ID);
+    ledger = { snapshot: simplifier.toJSON(), version: ledger!.version };
+    archivedDebts = [];
+
+    await repository.update(GROUP_ID, async () => undefined);
+
+    expect(ledger.snapshot).not.toContain('archived');
+    expect(archivedDebts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,234 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  ArchivedCurrencyDebt,
+  MultiCurrencyDebtSimplifier,
+} from '../core/debt-simplifier/multi-currency-debt-simplifier';
+import {
+  SnapshotError,
+  parseArchivedDebt,
+} from '../core/debt-simplifier/snapshot';
+import { GroupEventsService } from '../events/group-events.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { bigIntReplacer } from '../utils/json';
+import { getLedgerBalances } from './ledger-balances';
+
+export interface GroupLedger {
+  groupId: number;
+  /**
+   * Version of the stored snapshot the simplifier has been loaded from,
+   * `null` when nothing has been stored yet.
+   */
+  version: number | null;
+  simplifier: MultiCurrencyDebtSimplifier;
+  /**
+   * Archived debts as stored, apart from the snapshot, so that saving stores
+   * only the ones archived, or brought back since.
+   */
+  archived?: ArchivedCurrencyDebt[];
+}
+
+const ARCHIVED_DEBTS_DELETE_CHUNK = 1000;
+
+@Injectable()
+export class LedgerRepository {
+  constructor(
+    private prisma: PrismaService,
+    private groupEventsService: GroupEventsService,
+  ) {}
+
+  async load(
+    groupId: number,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<GroupLedger> {
+    const group = await tx.group.findUnique({
+      where: { id: groupId },
+      include: { GroupLedger: true, GroupArchivedDebt: true },
+    });
+    if (!group) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+
+    const simplifier = new MultiCurrencyDebtSimplifier(
+      group.settlementCurrencyCode,
+    );
+    if (!group.GroupLedger) {
+      return { groupId, version: null, simplifier };
+    }
+
+    let archived: ArchivedCurrencyDebt[];
+    try {
+      simplifier.fromJSON(group.GroupLedger.snapshot);
+      archived = group.GroupArchivedDebt.map(
+        ({ currencyCode, creditorId, debtorId, debt }) => ({
+          currencyCode,
+          creditorId,
+          debtorId,
+          debt: parseArchivedDebt(debt),
+        }),
+      );
+      simplifier.restoreArchivedDebts(archived);
+    } catch (error) {
+      if (error instanceof SnapshotError) {
+        throw new SnapshotError(
+          `Ledger of group ${groupId} can not be loaded. ${error.message}`,
+        );
+      }
+      throw error;
+    }
+    simplifier.setSettlementCurrency(group.settlementCurrencyCode);
+
+    return {
+      groupId,
+      version: group.GroupLedger.version,
+      simplifier,
+      archived,
+    };
+  }
+
+  /**
+   * Stores the simplifier state, unless someone else has stored a newer
+   * version in the meantime.
+   */
+  async save(ledger: GroupLedger, tx: Prisma.TransactionClient = this.prisma) {
+    await this.saveSnapshot(ledger, tx);
+    await this.saveArchivedDebts(ledger, tx);
+    await this.saveBalances(ledger, tx);
+    return ledger;
+  }
+
+  /**
+   * Loads the group ledger, lets `update` change it along with other rows,
+   * and stores it in the same database transaction. Listeners are told
+   * the balances of the group may have changed once it is committed.
+   */
+  async update<T>(
+    groupId: number,
+    update: (ledger: GroupLedger, tx: Prisma.TransactionClient) => Promise<T>,
+    options?: { timeout?: number },
+  ) {
+    let version: number | null = null;
+    const result = await this.prisma.$transaction(async (tx) => {
+      const ledger = await this.load(groupId, tx);
+      const result = await update(ledger, tx);
+      await this.save(ledger, tx);
+      version = ledger.version;
+      return result;
+    }, options);
+
+    this.groupEventsService.emit(groupId, 'balances.changed', { version });
+    return result;
+  }
+
+  private async saveSnapshot(
+    ledger: GroupLedger,
+    tx: Prisma.TransactionClient,
+  ) {
+    const snapshot = ledger.simplifier.toJSON({ archived: false });
+
+    if (ledger.version === null) {
+      try {
+        await tx.groupLedger.create({
+          data: { groupId: ledger.groupId, snapshot, version: 1 },
+        });
+      } catch (error) {
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        ) {
+          throw this.conflict(ledger.groupId);
+        }
+        throw error;
+      }
+      ledger.version = 1;
+      return;
+    }
+
+    const { count } = await tx.groupLedger.updateMany({
+      where: { groupId: ledger.groupId, version: ledger.version },
+      data: { snapshot, version: { increment: 1 } },
+    });
+    if (!count) {
+      throw this.conflict(ledger.groupId);
+    }
+
+    ledger.version += 1;
+  }
+
+  /**
+   * Keeps archived debts out of the snapshot, as they only pile up. Debts
+   * are never changed while archived, so those archived since the ledger
+   * has been loaded are the ones which were not archived then.
+   */
+  private async saveArchivedDebts(
+    ledger: GroupLedger,
+    tx: Prisma.TransactionClient,
+  ) {
+    const archived = ledger.simplifier.getArchivedDebts();
+    const stored = ledger.archived ?? [];
+
+    const storedDebts = new Set(stored.map(({ debt }) => debt));
+    const archivedDebts = new Set(archived.map(({ debt }) => debt));
+    const removed = stored.filter(({ debt }) => !archivedDebts.has(debt));
+    const added = archived.filter(({ debt }) => !storedDebts.has(debt));
+
+    // Keys go in chunks, as replays of whole ledgers remove every one.
+    for (let i = 0; i < removed.length; i += ARCHIVED_DEBTS_DELETE_CHUNK) {
+      const chunk = removed.slice(i, i + ARCHIVED_DEBTS_DELETE_CHUNK);
+      await tx.groupArchivedDebt.deleteMany({
+        where: {
+          groupId: ledger.groupId,
+          OR: chunk.map(({ currencyCode, creditorId, debtorId, debt }) => ({
+            currencyCode,
+            creditorId,
+            debtorId,
+            expenseId: debt.expenseId,
+          })),
+        },
+      });
+    }
+    if (added.length) {
+      await tx.groupArchivedDebt.createMany({
+        data: added.map(({ currencyCode, creditorId, debtorId, debt }) => ({
+          groupId: ledger.groupId,
+          currencyCode,
+          creditorId,
+          debtorId,
+          expenseId: debt.expenseId,
+          debt: JSON.stringify(debt, bigIntReplacer),
+        })),
+      });
+    }
+
+    ledger.archived = archived;
+  }
+
+  /**
+   * Keeps what every debtor owes every creditor in the `GroupBalance` table,
+   * so that balances are queried without loading ledgers.
+   */
+  private async saveBalances(
+    ledger: GroupLedger,
+    tx: Prisma.TransactionClient,
+  ) {
+    const balances = getLedgerBalances(ledger.simplifier).map(
+      (balance): Prisma.GroupBalanceCreateManyInput => ({
+        groupId: ledger.groupId,
+        ...balance,
+      }),
+    );
+
+    await tx.groupBalance.deleteMany({ where: { groupId: ledger.groupId } });
+    await tx.groupBalance.createMany({ data: balances });
+  }
+
+  private conflict(groupId: number) {
+    return new ConflictException(
+      `Ledger of group ${groupId} has been modified concurrently, try again`,
+    );
+  }
+}
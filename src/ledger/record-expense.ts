@@ -0,0 +1,62 @@
+import { Money } from '../core/currency/money';
+import { MultiCurrencyDebtSimplifier } from '../core/debt-simplifier/multi-currency-debt-simplifier';
+import { ExpenseSplitter } from '../core/expense-splitter/expense-splitter';
+
+export interface LedgerExpenseParticipant {
+  userId: number;
+  amount: Money;
+}
+
+export interface LedgerExpense {
+  amount: Money;
+  currencyCode: string;
+  creditorId: number;
+  debtors: LedgerExpenseParticipant[];
+  payers: LedgerExpenseParticipant[];
+}
+
+/**
+ * Records debts derived from the shares of the expense, and what every
+ * payer contributed, replacing whatever the expense recorded before.
+ * Whatever debtors do not share is the creditor's share.
+ */
+export function recordExpense(
+  simplifier: MultiCurrencyDebtSimplifier,
+  expenseId: number,
+  expense: LedgerExpense,
+) {
+  const shares = expense.debtors.map(({ userId, amount }) => ({
+    debtorId: String(userId),
+    amount,
+  }));
+  const creditorShare =
+    expense.amount -
+    expense.debtors.reduce((sum, { amount }) => sum + amount, 0n);
+  if (creditorShare > 0n) {
+    shares.push({
+      debtorId: String(expense.creditorId),
+      amount: creditorShare,
+    });
+  }
+
+  const splitter = new ExpenseSplitter(
+    simplifier.getOrCreateSimplifier(expense.currencyCode),
+  );
+  const debts = splitter.deriveMultiPayerDebts(
+    expense.payers.map(({ userId, amount }) => ({
+      creditorId: String(userId),
+      amount,
+    })),
+    { type: 'exact', amounts: shares },
+  );
+
+  simplifier.replace(
+    expenseId,
+    debts.map(({ creditorId, debtorId, amount }) => ({
+      creditorId,
+      debtorId,
+      debtorOwes: amount,
+    })),
+    expense.currencyCode,
+  );
+}
@@ -0,0 +1,45 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MAILER } from './mailer.constants';
+import { LogMailer, Mailer, SmtpMailer } from './mailer';
+
+const LOG_MAILER_ENVIRONMENTS = ['development', 'test'];
+
+/**
+ * Sends mail through SMTP, unless `MAIL_TRANSPORT` is `log` in development,
+ * or tests, as logged messages include sign-in links.
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: MAILER,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService): Mailer => {
+        const transport = config.get<string>('MAIL_TRANSPORT') ?? 'smtp';
+        switch (transport) {
+          case 'smtp':
+            return new SmtpMailer(
+              config.getOrThrow<string>('SMTP_URL'),
+              config.getOrThrow<string>('MAIL_FROM'),
+            );
+          case 'log': {
+            const environment = config.get<string>('NODE_ENV');
+            if (!LOG_MAILER_ENVIRONMENTS.includes(environment)) {
+              throw new Error(
+                `Expected NODE_ENV to be one of ${LOG_MAILER_ENVIRONMENTS.join(', ')} to log mail, but got ${environment}.`,
+              );
+            }
+            return new LogMailer();
+          }
+          default:
+            throw new Error(
+              `Expected MAIL_TRANSPORT to be smtp, or log, but got ${transport}.`,
+            );
+        }
+      },
+    },
+  ],
+  exports: [MAILER],
+})
+export class MailerModule {}
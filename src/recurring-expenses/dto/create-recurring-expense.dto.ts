@@ -0,0 +1,79 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDate,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Length,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Money } from '../../core/currency/money';
+import { IsMoney } from '../../currency/decorators/is-money.decorator';
+import { ExpenseParticipantDto } from '../../expenses/dto/expense-participant.dto';
+import { RECURRENCE_FREQUENCIES } from '../recurring-expense-schedule';
+
+export class CreateRecurringExpenseDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  /**
+   * Amount in minor units of the currency.
+   */
+  @IsMoney()
+  amount: Money;
+
+  @Length(3, 3)
+  currencyCode: string;
+
+  @IsInt()
+  @IsPositive()
+  creditorId: number;
+
+  /**
+   * Shares of every posted expense. Whatever is not shared is the creditor's
+   * share.
+   */
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ExpenseParticipantDto)
+  debtors: ExpenseParticipantDto[];
+
+  @IsIn(RECURRENCE_FREQUENCIES)
+  frequency: (typeof RECURRENCE_FREQUENCIES)[number];
+
+  /**
+   * Every how many days, weeks, or months the expense recurs.
+   */
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  interval?: number;
+
+  /**
+   * Cron expression in UTC, required by the `cron` frequency.
+   */
+  @ValidateIf((dto) => dto.frequency === 'cron')
+  @IsString()
+  @IsNotEmpty()
+  cron?: string;
+
+  /**
+   * The first expense is posted at the start, even if it has passed already.
+   */
+  @Type(() => Date)
+  @IsDate()
+  startsAt: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endsAt?: Date;
+}
@@ -0,0 +1,75 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDate,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Length,
+  ValidateNested,
+} from 'class-validator';
+import { Money } from '../../core/currency/money';
+import { IsMoney } from '../../currency/decorators/is-money.decorator';
+import { ExpenseParticipantDto } from '../../expenses/dto/expense-participant.dto';
+import { RECURRENCE_FREQUENCIES } from '../recurring-expense-schedule';
+
+/**
+ * Changes apply to expenses posted from now on. Posted expenses are edited
+ * like any other expense.
+ */
+export class UpdateRecurringExpenseDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @IsOptional()
+  @IsMoney()
+  amount?: Money;
+
+  @IsOptional()
+  @Length(3, 3)
+  currencyCode?: string;
+
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  creditorId?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ExpenseParticipantDto)
+  debtors?: ExpenseParticipantDto[];
+
+  @IsOptional()
+  @IsIn(RECURRENCE_FREQUENCIES)
+  frequency?: (typeof RECURRENCE_FREQUENCIES)[number];
+
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  interval?: number;
+
+  /**
+   * Null removes the cron expression, e.g. when switching to another
+   * frequency.
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  cron?: string | null;
+
+  /**
+   * Null lets the expense recur indefinitely.
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endsAt?: Date | null;
+}
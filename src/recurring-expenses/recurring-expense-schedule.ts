@@ -0,0 +1,32 @@
+import { RecurringExpense } from '@prisma/client';
+import {
+  RecurrenceFrequency,
+  RecurrenceSchedule,
+} from '../core/recurrence/recurrence';
+
+export const RECURRENCE_FREQUENCIES = [
+  'daily',
+  'weekly',
+  'monthly',
+  'cron',
+] as const;
+
+export const toSchedule = (
+  recurringExpense: Pick<
+    RecurringExpense,
+    'frequency' | 'interval' | 'cron' | 'startsAt' | 'endsAt'
+  >,
+): RecurrenceSchedule =>
+  recurringExpense.frequency === 'cron'
+    ? {
+        frequency: 'cron',
+        cron: recurringExpense.cron ?? '',
+        startsAt: recurringExpense.startsAt,
+        endsAt: recurringExpense.endsAt,
+      }
+    : {
+        frequency: recurringExpense.frequency as RecurrenceFrequency,
+        interval: recurringExpense.interval,
+        startsAt: recurringExpense.startsAt,
+        endsAt: recurringExpense.endsAt,
+      };
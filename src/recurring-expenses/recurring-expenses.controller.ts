@@ -0,0 +1,125 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthenticatedUser } from '../auth/authenticated-user';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequireGroupPermissions } from '../groups/decorators/require-group-permissions.decorator';
+import { GroupPermissionsGuard } from '../groups/guards/group-permissions.guard';
+import { CreateRecurringExpenseDto } from './dto/create-recurring-expense.dto';
+import { UpdateRecurringExpenseDto } from './dto/update-recurring-expense.dto';
+import { RecurringExpensesService } from './recurring-expenses.service';
+
+@Controller('groups/:groupId/recurring-expenses')
+@UseGuards(GroupPermissionsGuard)
+export class RecurringExpensesController {
+  constructor(private recurringExpensesService: RecurringExpensesService) {}
+
+  @Post()
+  @RequireGroupPermissions('canAddExpenses')
+  create(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Body() dto: CreateRecurringExpenseDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.recurringExpensesService.create(groupId, dto, user.id);
+  }
+
+  @Get()
+  findAll(@Param('groupId', ParseIntPipe) groupId: number) {
+    return this.recurringExpensesService.findAll(groupId);
+  }
+
+  @Get(':recurringExpenseId')
+  findOne(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Param('recurringExpenseId', ParseIntPipe) recurringExpenseId: number,
+  ) {
+    return this.recurringExpensesService.findOne(groupId, recurringExpenseId);
+  }
+
+  @Patch(':recurringExpenseId')
+  @RequireGroupPermissions('canAddExpenses')
+  update(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Param('recurringExpenseId', ParseIntPipe) recurringExpenseId: number,
+    @Body() dto: UpdateRecurringExpenseDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.recurringExpensesService.update(
+      groupId,
+      recurringExpenseId,
+      dto,
+      user.id,
+    );
+  }
+
+  @Delete(':recurringExpenseId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireGroupPermissions('canAddExpenses')
+  remove(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Param('recurringExpenseId', ParseIntPipe) recurringExpenseId: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.recurringExpensesService.remove(
+      groupId,
+      recurringExpenseId,
+      user.id,
+    );
+  }
+
+  @Post(':recurringExpenseId/pause')
+  @HttpCode(HttpStatus.OK)
+  @RequireGroupPermissions('canAddExpenses')
+  pause(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Param('recurringExpenseId', ParseIntPipe) recurringExpenseId: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.recurringExpensesService.pause(
+      groupId,
+      recurringExpenseId,
+      user.id,
+    );
+  }
+
+  @Post(':recurringExpenseId/resume')
+  @HttpCode(HttpStatus.OK)
+  @RequireGroupPermissions('canAddExpenses')
+  resume(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Param('recurringExpenseId', ParseIntPipe) recurringExpenseId: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.recurringExpensesService.resume(
+      groupId,
+      recurringExpenseId,
+      user.id,
+    );
+  }
+
+  @Post(':recurringExpenseId/skip')
+  @HttpCode(HttpStatus.OK)
+  @RequireGroupPermissions('canAddExpenses')
+  skipNext(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Param('recurringExpenseId', ParseIntPipe) recurringExpenseId: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.recurringExpensesService.skipNext(
+      groupId,
+      recurringExpenseId,
+      user.id,
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ActivityModule } from '../activity/activity.module';
+import { ExpensesModule } from '../expenses/expenses.module';
+import { GroupsModule } from '../groups/groups.module';
+import { RecurringExpensesController } from './recurring-expenses.controller';
+import { RecurringExpensesScheduler } from './recurring-expenses.scheduler';
+import { RecurringExpensesService } from './recurring-expenses.service';
+
+@Module({
+  imports: [ExpensesModule, GroupsModule, ActivityModule],
+  providers: [RecurringExpensesService, RecurringExpensesScheduler],
+  controllers: [RecurringExpensesController],
+})
+export class RecurringExpensesModule {}
@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { RecurringExpensesService } from './recurring-expenses.service';
+
+@Injectable()
+export class RecurringExpensesScheduler {
+  private running = false;
+
+  constructor(private recurringExpensesService: RecurringExpensesService) {}
+
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async postDue() {
+    // A slow run must not overlap with the next one.
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.recurringExpensesService.postDue();
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { RecurringExpense } from '@prisma/client';
+import { ActivityService } from '../activity/activity.service';
+import { ExpensesService } from '../expenses/expenses.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RecurringExpensesService } from './recurring-expenses.service';
+
+const GROUP_ID = 1;
+const ACTOR_ID = 1;
+
+describe('RecurringExpensesService', () => {
+  let current: RecurringExpense;
+  let lastOccurrenceAt: Date | null;
+  let prisma: {
+    recurringExpense: Record<'findFirst' | 'update', jest.Mock>;
+    groupExpense: Record<'findFirst', jest.Mock>;
+    $transaction: jest.Mock;
+  };
+  let service: RecurringExpensesService;
+
+  beforeEach(() => {
+    current = {
+      id: 1,
+      groupId: GROUP_ID,
+      name: 'Rent',
+      amount: 100000n,
+      currencyCode: 'EUR',
+      creditorId: 1,
+      frequency: 'weekly',
+      interval: 1,
+      cron: null,
+      startsAt: new Date('2024-01-01'),
+      endsAt: new Date('2024-02-01'),
+      nextOccurrenceAt: null,
+      pausedAt: null,
+      createdAt: new Date('2024-01-01'),
+    };
+    lastOccurrenceAt = new Date('2024-01-29');
+
+    prisma = {
+      recurringExpense: {
+        findFirst: jest.fn(async () => ({
+          ...current,
+          RecurringExpenseDebtor: [{ userId: 2, amount: 50000n }],
+        })),
+        update: jest.fn(async ({ data }) => ({
+          ...current,
+          ...data,
+          RecurringExpenseDebtor: [{ userId: 2, amount: 50000n }],
+        })),
+      },
+      groupExpense: {
+        findFirst: jest.fn(async () =>
+          lastOccurrenceAt ? { occurrenceAt: lastOccurrenceAt } : null,
+        ),
+      },
+      $transaction: jest.fn((update) => update(prisma)),
+    };
+
+    service = new RecurringExpensesService(
+      prisma as unknown as PrismaService,
+      { assertValid: jest.fn() } as unknown as ExpensesService,
+      { record: jest.fn() } as unknown as ActivityService,
+    );
+  });
+
+  const getUpdatedData = () =>
+    prisma.recurringExpense.update.mock.calls[0][0].data;
+
+  describe('update', () => {
+    it('should clear the end date, and resume after the last expense', async () => {
+      await service.update(GROUP_ID, 1, { endsAt: null }, ACTOR_ID);
+
+      expect(getUpdatedData()).toMatchObject({
+        endsAt: null,
+        nextOccurrenceAt: new Date('2024-02-05'),
+      });
+    });
+
+    it('should keep the end date, unless given', async () => {
+      await service.update(GROUP_ID, 1, { name: 'Flat' }, ACTOR_ID);
+
+      expect(getUpdatedData()).toMatchObject({
+        endsAt: new Date('2024-02-01'),
+        nextOccurrenceAt: null,
+      });
+    });
+
+    it('should clear the cron expression when switching frequency', async () => {
+      current = { ...current, frequency: 'cron', cron: '0 9 * * 1' };
+
+      await service.update(
+        GROUP_ID,
+        1,
+        { frequency: 'monthly', cron: null },
+        ACTOR_ID,
+      );
+
+      expect(getUpdatedData()).toMatchObject({
+        frequency: 'monthly',
+        cron: null,
+      });
+    });
+  });
+});
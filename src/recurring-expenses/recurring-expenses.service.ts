@@ -0,0 +1,425 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  ActivityAction,
+  ActivityService,
+  diff,
+} from '../activity/activity.service';
+import {
+  RecurrenceSchedule,
+  assertSchedule,
+  getFirstOccurrence,
+  getNextOccurrence,
+} from '../core/recurrence/recurrence';
+import { CreateExpenseDto } from '../expenses/dto/create-expense.dto';
+import { ExpensesService } from '../expenses/expenses.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateRecurringExpenseDto } from './dto/create-recurring-expense.dto';
+import { UpdateRecurringExpenseDto } from './dto/update-recurring-expense.dto';
+import { toSchedule } from './recurring-expense-schedule';
+
+const recurringExpenseInclude = {
+  RecurringExpenseDebtor: true,
+} satisfies Prisma.RecurringExpenseInclude;
+
+type RecurringExpense = Prisma.RecurringExpenseGetPayload<{
+  include: typeof recurringExpenseInclude;
+}>;
+
+@Injectable()
+export class RecurringExpensesService {
+  private logger = new Logger(RecurringExpensesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private expensesService: ExpensesService,
+    private activityService: ActivityService,
+  ) {}
+
+  async create(
+    groupId: number,
+    dto: CreateRecurringExpenseDto,
+    actorId: number,
+  ) {
+    await this.expensesService.assertValid(groupId, dto);
+    const schedule = this.toValidSchedule({
+      frequency: dto.frequency,
+      interval: dto.interval ?? 1,
+      cron: dto.cron ?? null,
+      startsAt: dto.startsAt,
+      endsAt: dto.endsAt ?? null,
+    });
+
+    return this.prisma.$transaction(async (tx) => {
+      const created = await tx.recurringExpense.create({
+        data: {
+          groupId,
+          name: dto.name,
+          amount: dto.amount,
+          currencyCode: dto.currencyCode,
+          creditorId: dto.creditorId,
+          frequency: dto.frequency,
+          interval: dto.interval ?? 1,
+          cron: dto.cron,
+          startsAt: dto.startsAt,
+          endsAt: dto.endsAt,
+          nextOccurrenceAt: getFirstOccurrence(schedule),
+          RecurringExpenseDebtor: {
+            create: dto.debtors.map(({ userId, amount }) => ({
+              userId,
+              amount,
+            })),
+          },
+        },
+        include: recurringExpenseInclude,
+      });
+
+      await this.record(tx, created, 'recurring_expense.created', actorId, {
+        after: this.toActivity(created),
+      });
+      return created;
+    });
+  }
+
+  findAll(groupId: number) {
+    return this.prisma.recurringExpense.findMany({
+      where: { groupId },
+      include: recurringExpenseInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findOne(groupId: number, recurringExpenseId: number) {
+    const recurringExpense = await this.prisma.recurringExpense.findFirst({
+      where: { id: recurringExpenseId, groupId },
+      include: recurringExpenseInclude,
+    });
+    if (!recurringExpense) {
+      throw new NotFoundException(
+        `Recurring expense ${recurringExpenseId} not found`,
+      );
+    }
+    return recurringExpense;
+  }
+
+  async update(
+    groupId: number,
+    recurringExpenseId: number,
+    dto: UpdateRecurringExpenseDto,
+    actorId: number,
+  ) {
+    const current = await this.findOne(groupId, recurringExpenseId);
+    const expense = this.toExpenseDto(current);
+
+    await this.expensesService.assertValid(groupId, {
+      name: dto.name ?? expense.name,
+      amount: dto.amount ?? expense.amount,
+      currencyCode: dto.currencyCode ?? expense.currencyCode,
+      creditorId: dto.creditorId ?? expense.creditorId,
+      debtors: dto.debtors ?? expense.debtors,
+    });
+
+    const scheduleFields = {
+      frequency: dto.frequency ?? current.frequency,
+      interval: dto.interval ?? current.interval,
+      cron: dto.cron === undefined ? current.cron : dto.cron,
+      startsAt: current.startsAt,
+      endsAt: dto.endsAt === undefined ? current.endsAt : dto.endsAt,
+    };
+    const schedule = this.toValidSchedule(scheduleFields);
+
+    let nextOccurrenceAt = current.nextOccurrenceAt;
+    const rescheduled = (
+      ['frequency', 'interval', 'cron', 'endsAt'] as const
+    ).some((field) => dto[field] !== undefined);
+    if (rescheduled) {
+      // Picks up right after the last posted expense.
+      const lastPosted = await this.prisma.groupExpense.findFirst({
+        where: { recurringExpenseId },
+        orderBy: { occurrenceAt: 'desc' },
+      });
+      nextOccurrenceAt = lastPosted?.occurrenceAt
+        ? getNextOccurrence(schedule, lastPosted.occurrenceAt)
+        : getFirstOccurrence(schedule);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      if (dto.debtors) {
+        await tx.recurringExpenseDebtor.deleteMany({
+          where: { recurringExpenseId },
+        });
+      }
+
+      const updated = await tx.recurringExpense.update({
+        where: { id: recurringExpenseId },
+        data: {
+          name: dto.name,
+          amount: dto.amount,
+          currencyCode: dto.currencyCode,
+          creditorId: dto.creditorId,
+          ...scheduleFields,
+          nextOccurrenceAt,
+          RecurringExpenseDebtor: dto.debtors
+            ? {
+                create: dto.debtors.map(({ userId, amount }) => ({
+                  userId,
+                  amount,
+                })),
+              }
+            : undefined,
+        },
+        include: recurringExpenseInclude,
+      });
+
+      await this.record(
+        tx,
+        updated,
+        'recurring_expense.updated',
+        actorId,
+        diff(this.toActivity(current), this.toActivity(updated)),
+      );
+      return updated;
+    });
+  }
+
+  /**
+   * Stops posting expenses. Expenses posted already are kept.
+   */
+  async remove(groupId: number, recurringExpenseId: number, actorId: number) {
+    const recurringExpense = await this.findOne(groupId, recurringExpenseId);
+    await this.prisma.$transaction(async (tx) => {
+      await tx.recurringExpense.delete({ where: { id: recurringExpenseId } });
+
+      await this.record(
+        tx,
+        recurringExpense,
+        'recurring_expense.deleted',
+        actorId,
+        { before: this.toActivity(recurringExpense) },
+      );
+    });
+  }
+
+  async pause(groupId: number, recurringExpenseId: number, actorId: number) {
+    const recurringExpense = await this.findOne(groupId, recurringExpenseId);
+    if (recurringExpense.pausedAt) {
+      return recurringExpense;
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const paused = await tx.recurringExpense.update({
+        where: { id: recurringExpenseId },
+        data: { pausedAt: new Date() },
+        include: recurringExpenseInclude,
+      });
+
+      await this.record(tx, paused, 'recurring_expense.paused', actorId);
+      return paused;
+    });
+  }
+
+  /**
+   * Resumes posting expenses. Occurrences missed while paused are not posted.
+   */
+  async resume(groupId: number, recurringExpenseId: number, actorId: number) {
+    const recurringExpense = await this.findOne(groupId, recurringExpenseId);
+    if (!recurringExpense.pausedAt) {
+      return recurringExpense;
+    }
+
+    const now = new Date();
+    const { nextOccurrenceAt } = recurringExpense;
+    return this.prisma.$transaction(async (tx) => {
+      const resumed = await tx.recurringExpense.update({
+        where: { id: recurringExpenseId },
+        data: {
+          pausedAt: null,
+          nextOccurrenceAt:
+            nextOccurrenceAt && nextOccurrenceAt < now
+              ? getNextOccurrence(toSchedule(recurringExpense), now)
+              : nextOccurrenceAt,
+        },
+        include: recurringExpenseInclude,
+      });
+
+      await this.record(tx, resumed, 'recurring_expense.resumed', actorId);
+      return resumed;
+    });
+  }
+
+  async skipNext(groupId: number, recurringExpenseId: number, actorId: number) {
+    const recurringExpense = await this.findOne(groupId, recurringExpenseId);
+    const { nextOccurrenceAt } = recurringExpense;
+    if (!nextOccurrenceAt) {
+      throw new ConflictException(
+        `Recurring expense ${recurringExpenseId} has ended`,
+      );
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.recurringExpense.updateMany({
+        where: { id: recurringExpenseId, nextOccurrenceAt },
+        data: {
+          nextOccurrenceAt: getNextOccurrence(
+            toSchedule(recurringExpense),
+            nextOccurrenceAt,
+          ),
+        },
+      });
+      if (!count) {
+        throw new ConflictException(
+          `Expense of ${nextOccurrenceAt.toISOString()} has been posted meanwhile`,
+        );
+      }
+
+      await this.record(
+        tx,
+        recurringExpense,
+        'recurring_expense.skipped',
+        actorId,
+        { before: { nextOccurrenceAt } },
+      );
+    });
+    return this.findOne(groupId, recurringExpenseId);
+  }
+
+  /**
+   * Posts expenses of every occurrence due by `now`, including occurrences
+   * missed while the app was down. Every occurrence is posted at most once.
+   */
+  async postDue(now = new Date()) {
+    const due = await this.prisma.recurringExpense.findMany({
+      where: { pausedAt: null, nextOccurrenceAt: { lte: now } },
+      include: recurringExpenseInclude,
+      orderBy: { nextOccurrenceAt: 'asc' },
+    });
+
+    for (const recurringExpense of due) {
+      try {
+        await this.postOccurrences(recurringExpense, now);
+      } catch (error) {
+        if (!(error instanceof BadRequestException)) {
+          this.logger.error(
+            `Failed to post recurring expense ${recurringExpense.id}`,
+            error,
+          );
+          continue;
+        }
+
+        // The expense became invalid, e.g. a debtor has left the group.
+        // Retrying won't help, until someone fixes it, and resumes it.
+        this.logger.warn(
+          `Pausing invalid recurring expense ${recurringExpense.id}: ${error.message}`,
+        );
+        await this.prisma.recurringExpense.update({
+          where: { id: recurringExpense.id },
+          data: { pausedAt: now },
+        });
+      }
+    }
+  }
+
+  private async postOccurrences(recurringExpense: RecurringExpense, now: Date) {
+    const schedule = toSchedule(recurringExpense);
+    let occurrenceAt = recurringExpense.nextOccurrenceAt;
+
+    while (occurrenceAt && occurrenceAt <= now) {
+      await this.post(recurringExpense, occurrenceAt);
+
+      const nextOccurrenceAt = getNextOccurrence(schedule, occurrenceAt);
+      const { count } = await this.prisma.recurringExpense.updateMany({
+        where: { id: recurringExpense.id, nextOccurrenceAt: occurrenceAt },
+        data: { nextOccurrenceAt },
+      });
+      if (!count) {
+        // Skipped, or rescheduled meanwhile.
+        return;
+      }
+      occurrenceAt = nextOccurrenceAt;
+    }
+  }
+
+  private async post(recurringExpense: RecurringExpense, occurrenceAt: Date) {
+    try {
+      await this.expensesService.create(
+        recurringExpense.groupId,
+        this.toExpenseDto(recurringExpense),
+        null,
+        { recurringExpenseId: recurringExpense.id, occurrenceAt },
+      );
+    } catch (error) {
+      // Posted already, by a run that didn't get to move on to the next
+      // occurrence.
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private record(
+    tx: Prisma.TransactionClient,
+    recurringExpense: RecurringExpense,
+    action: ActivityAction,
+    actorId: number,
+    changes: { before?: object; after?: object } = {},
+  ) {
+    return this.activityService.record(
+      {
+        groupId: recurringExpense.groupId,
+        actorId,
+        action,
+        targetType: 'recurring_expense',
+        targetId: recurringExpense.id,
+        ...changes,
+      },
+      tx,
+    );
+  }
+
+  private toActivity(recurringExpense: RecurringExpense) {
+    return {
+      ...this.toExpenseDto(recurringExpense),
+      frequency: recurringExpense.frequency,
+      interval: recurringExpense.interval,
+      cron: recurringExpense.cron,
+      startsAt: recurringExpense.startsAt,
+      endsAt: recurringExpense.endsAt,
+    };
+  }
+
+  private toExpenseDto(recurringExpense: RecurringExpense): CreateExpenseDto {
+    return {
+      name: recurringExpense.name,
+      amount: recurringExpense.amount,
+      currencyCode: recurringExpense.currencyCode,
+      creditorId: recurringExpense.creditorId,
+      debtors: recurringExpense.RecurringExpenseDebtor.map(
+        ({ userId, amount }) => ({ userId, amount }),
+      ),
+    };
+  }
+
+  private toValidSchedule(
+    fields: Parameters<typeof toSchedule>[0],
+  ): RecurrenceSchedule {
+    const schedule = toSchedule(fields);
+    try {
+      assertSchedule(schedule);
+    } catch (error) {
+      throw new BadRequestException(
+        error instanceof Error ? error.message : 'Invalid schedule',
+      );
+    }
+    return schedule;
+  }
+}
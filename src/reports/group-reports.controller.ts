@@ -0,0 +1,58 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { GroupPermissionsGuard } from '../groups/guards/group-permissions.guard';
+import { ReportsQueryDto } from './dto/reports-query.dto';
+import { TopExpensesQueryDto } from './dto/top-expenses-query.dto';
+import { ReportsService } from './reports.service';
+
+@Controller('groups/:groupId/reports')
+@UseGuards(GroupPermissionsGuard)
+export class GroupReportsController {
+  constructor(private reportsService: ReportsService) {}
+
+  @Get('summary')
+  getSummary(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Query() query: ReportsQueryDto,
+  ) {
+    return this.reportsService.getSummary(groupId, query);
+  }
+
+  @Get('members')
+  getMembers(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Query() query: ReportsQueryDto,
+  ) {
+    return this.reportsService.getMembers(groupId, query);
+  }
+
+  @Get('categories')
+  getCategories(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Query() query: ReportsQueryDto,
+  ) {
+    return this.reportsService.getCategories(groupId, query);
+  }
+
+  @Get('months')
+  getMonths(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Query() query: ReportsQueryDto,
+  ) {
+    return this.reportsService.getMonths(groupId, query);
+  }
+
+  @Get('top-expenses')
+  getTopExpenses(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Query() query: TopExpensesQueryDto,
+  ) {
+    return this.reportsService.getTopExpenses(groupId, query);
+  }
+}
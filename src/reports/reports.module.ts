@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CurrencyModule } from '../currency/currency.module';
+import { GroupsModule } from '../groups/groups.module';
+import { GroupReportsController } from './group-reports.controller';
+import { ReportsService } from './reports.service';
+
+@Module({
+  imports: [GroupsModule, CurrencyModule],
+  providers: [ReportsService],
+  controllers: [GroupReportsController],
+})
+export class ReportsModule {}
@@ -0,0 +1,178 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  CurrencyCode,
+  ExchangeRateSnapshot,
+} from '../core/currency/exchange-rates';
+import {
+  ConvertedExpense,
+  convertExpense,
+  findTopExpenses,
+  summarizeCategories,
+  summarizeMembers,
+  summarizeMonths,
+  summarizeTrip,
+} from '../core/reports/spending-report';
+import { ExchangeRatesService } from '../currency/exchange-rates.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { ReportsQueryDto } from './dto/reports-query.dto';
+import { TopExpensesQueryDto } from './dto/top-expenses-query.dto';
+
+const reportedExpenseSelect = {
+  id: true,
+  name: true,
+  category: true,
+  createdAt: true,
+  currencyCode: true,
+  amount: true,
+  creditorId: true,
+  exchangeRateSnapshot: true,
+  GroupExpenseDebtor: { select: { userId: true, amount: true } },
+  GroupExpensePayer: { select: { userId: true, amount: true } },
+} satisfies Prisma.GroupExpenseSelect;
+
+interface GroupSpending {
+  settlementCurrency: CurrencyCode;
+  memberIds: number[];
+  expenses: ConvertedExpense[];
+}
+
+/**
+ * Reports where the money of the group went, with every expense converted
+ * to the settlement currency.
+ */
+@Injectable()
+export class ReportsService {
+  constructor(
+    private prisma: PrismaService,
+    private exchangeRatesService: ExchangeRatesService,
+  ) {}
+
+  async getSummary(groupId: number, query: ReportsQueryDto) {
+    const { settlementCurrency, memberIds, expenses } = await this.loadSpending(
+      groupId,
+      query,
+    );
+    return {
+      settlementCurrency,
+      ...summarizeTrip(expenses, memberIds.length),
+    };
+  }
+
+  async getMembers(groupId: number, query: ReportsQueryDto) {
+    const { settlementCurrency, memberIds, expenses } = await this.loadSpending(
+      groupId,
+      query,
+    );
+    return {
+      settlementCurrency,
+      members: summarizeMembers(expenses, memberIds),
+    };
+  }
+
+  async getCategories(groupId: number, query: ReportsQueryDto) {
+    const { settlementCurrency, expenses } = await this.loadSpending(
+      groupId,
+      query,
+    );
+    return { settlementCurrency, categories: summarizeCategories(expenses) };
+  }
+
+  async getMonths(groupId: number, query: ReportsQueryDto) {
+    const { settlementCurrency, expenses } = await this.loadSpending(
+      groupId,
+      query,
+    );
+    return { settlementCurrency, months: summarizeMonths(expenses) };
+  }
+
+  async getTopExpenses(groupId: number, query: TopExpensesQueryDto) {
+    const { settlementCurrency, expenses } = await this.loadSpending(
+      groupId,
+      query,
+    );
+    return {
+      settlementCurrency,
+      expenses: findTopExpenses(expenses, query.limit),
+    };
+  }
+
+  /**
+   * Expenses keep exchange rates from the time they were added. Expenses
+   * without them, or with rates which don't cover the settlement currency,
+   * e.g. because it has changed since, are converted with current rates.
+   */
+  private async loadSpending(
+    groupId: number,
+    { from, to }: ReportsQueryDto,
+  ): Promise<GroupSpending> {
+    const group = await this.prisma.group.findUnique({
+      where: { id: groupId },
+      include: { GroupMember: { select: { userId: true } } },
+    });
+    if (!group) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+
+    const expenses = await this.prisma.groupExpense.findMany({
+      where: { groupId, createdAt: { gte: from, lte: to } },
+      select: reportedExpenseSelect,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    const settlementCurrency = group.settlementCurrencyCode;
+    let currentSnapshot: ExchangeRateSnapshot | undefined;
+    const converted: ConvertedExpense[] = [];
+    for (const expense of expenses) {
+      let snapshot: ExchangeRateSnapshot | null = null;
+      if (expense.currencyCode !== settlementCurrency) {
+        const stored =
+          expense.exchangeRateSnapshot &&
+          this.exchangeRatesService.toSnapshot(expense.exchangeRateSnapshot);
+        snapshot =
+          stored &&
+          this.hasRates(stored, [expense.currencyCode, settlementCurrency])
+            ? stored
+            : (currentSnapshot ??=
+                await this.exchangeRatesService.getSnapshot(
+                  settlementCurrency,
+                ));
+      }
+
+      converted.push(
+        convertExpense(
+          {
+            id: expense.id,
+            name: expense.name,
+            category: expense.category,
+            createdAt: expense.createdAt,
+            currencyCode: expense.currencyCode,
+            amount: expense.amount,
+            creditorId: expense.creditorId,
+            debtors: expense.GroupExpenseDebtor,
+            payers: expense.GroupExpensePayer,
+            snapshot,
+          },
+          settlementCurrency,
+        ),
+      );
+    }
+
+    return {
+      settlementCurrency,
+      memberIds: group.GroupMember.map(({ userId }) => userId),
+      expenses: converted,
+    };
+  }
+
+  private hasRates(
+    snapshot: ExchangeRateSnapshot,
+    currencyCodes: CurrencyCode[],
+  ) {
+    return currencyCodes.every(
+      (currencyCode) =>
+        currencyCode === snapshot.baseCurrency ||
+        snapshot.rates[currencyCode] > 0,
+    );
+  }
+}
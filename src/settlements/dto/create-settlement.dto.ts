@@ -0,0 +1,22 @@
+import { IsInt, IsPositive, Length } from 'class-validator';
+import { Money } from '../../core/currency/money';
+import { IsMoney } from '../../currency/decorators/is-money.decorator';
+
+export class CreateSettlementDto {
+  @IsInt()
+  @IsPositive()
+  payerId: number;
+
+  @IsInt()
+  @IsPositive()
+  payeeId: number;
+
+  /**
+   * Amount in minor units of the currency.
+   */
+  @IsMoney()
+  amount: Money;
+
+  @Length(3, 3)
+  currencyCode: string;
+}
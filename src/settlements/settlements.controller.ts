@@ -0,0 +1,43 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthenticatedUser } from '../auth/authenticated-user';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { GroupPermissionsGuard } from '../groups/guards/group-permissions.guard';
+import { CreateSettlementDto } from './dto/create-settlement.dto';
+import { SettlementsService } from './settlements.service';
+
+@Controller('groups/:groupId/settlements')
+@UseGuards(GroupPermissionsGuard)
+export class SettlementsController {
+  constructor(private settlementsService: SettlementsService) {}
+
+  @Post()
+  create(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Body() dto: CreateSettlementDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.settlementsService.create(groupId, dto, user.id);
+  }
+
+  @Get()
+  findAll(@Param('groupId', ParseIntPipe) groupId: number) {
+    return this.settlementsService.findAll(groupId);
+  }
+
+  @Post(':settlementId/reverse')
+  reverse(
+    @Param('groupId', ParseIntPipe) groupId: number,
+    @Param('settlementId', ParseIntPipe) settlementId: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.settlementsService.reverse(groupId, settlementId, user.id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ActivityModule } from '../activity/activity.module';
+import { EventsModule } from '../events/events.module';
+import { GroupsModule } from '../groups/groups.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { SettlementsController } from './settlements.controller';
+import { SettlementsService } from './settlements.service';
+
+@Module({
+  imports: [LedgerModule, GroupsModule, ActivityModule, EventsModule],
+  providers: [SettlementsService],
+  controllers: [SettlementsController],
+})
+export class SettlementsModule {}
@@ -0,0 +1,193 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Settlement } from '@prisma/client';
+import { ActivityService } from '../activity/activity.service';
+import { MultiCurrencyDebtSimplifier } from '../core/debt-simplifier/multi-currency-debt-simplifier';
+import { GroupEventsService } from '../events/group-events.service';
+import { GroupLedger, LedgerRepository } from '../ledger/ledger.repository';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateSettlementDto } from './dto/create-settlement.dto';
+import { SettlementsService } from './settlements.service';
+
+const GROUP_ID = 1;
+const MEMBER_IDS = [1, 2, 3];
+const CURRENCY_CODES = ['EUR', 'USD'];
+
+describe('SettlementsService', () => {
+  let settlements: Settlement[];
+  let simplifier: MultiCurrencyDebtSimplifier;
+  let prisma: {
+    groupMember: Record<'count', jest.Mock>;
+    currency: Record<'findUnique', jest.Mock>;
+    settlement: Record<'create' | 'findFirst' | 'update', jest.Mock>;
+  };
+  let activityService: { record: jest.Mock };
+  let groupEventsService: { emit: jest.Mock };
+  let service: SettlementsService;
+
+  const dto = (
+    overrides: Partial<CreateSettlementDto> = {},
+  ): CreateSettlementDto => ({
+    payerId: 2,
+    payeeId: 1,
+    amount: 400n,
+    currencyCode: 'EUR',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    settlements = [];
+    simplifier = new MultiCurrencyDebtSimplifier('EUR');
+    simplifier.add('1', '2', 1000n, 1, 'EUR');
+
+    prisma = {
+      groupMember: {
+        count: jest.fn(
+          async ({ where }) =>
+            where.userId.in.filter((userId: number) =>
+              MEMBER_IDS.includes(userId),
+            ).length,
+        ),
+      },
+      currency: {
+        findUnique: jest.fn(async ({ where }) =>
+          CURRENCY_CODES.includes(where.code) ? { code: where.code } : null,
+        ),
+      },
+      settlement: {
+        create: jest.fn(async ({ data }) => {
+          const settlement: Settlement = {
+            ...data,
+            id: settlements.length + 1,
+            createdAt: new Date(),
+            reversedAt: null,
+          };
+          settlements.push(settlement);
+          return settlement;
+        }),
+        findFirst: jest.fn(
+          async ({ where }) =>
+            settlements.find(({ id }) => id === where.id) ?? null,
+        ),
+        update: jest.fn(async ({ where, data }) =>
+          Object.assign(settlements.find(({ id }) => id === where.id)!, data),
+        ),
+      },
+    };
+    activityService = { record: jest.fn() };
+    groupEventsService = { emit: jest.fn() };
+
+    const ledger: GroupLedger = { groupId: GROUP_ID, version: 1, simplifier };
+    service = new SettlementsService(
+      prisma as unknown as PrismaService,
+      {
+        update: (
+          groupId: number,
+          update: (ledger: GroupLedger, tx: PrismaService) => Promise<unknown>,
+        ) => update(ledger, prisma as unknown as PrismaService),
+      } as unknown as LedgerRepository,
+      activityService as unknown as ActivityService,
+      groupEventsService as unknown as GroupEventsService,
+    );
+  });
+
+  const getDebt = () =>
+    simplifier.getSimplifier('EUR')!.getNetBalances().get('2');
+
+  describe('create', () => {
+    it('should record a payment of the payer to the payee', async () => {
+      const settlement = await service.create(GROUP_ID, dto(), 2);
+
+      expect(settlement).toMatchObject({
+        payerId: 2,
+        payeeId: 1,
+        amount: 400n,
+      });
+      expect(getDebt()).toBe(-600n);
+      expect(activityService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'settlement.created',
+          targetId: settlement.id,
+        }),
+        prisma,
+      );
+      expect(groupEventsService.emit).toHaveBeenCalledWith(
+        GROUP_ID,
+        'settlement.created',
+        settlement,
+      );
+    });
+
+    it('should let the payee confirm a payment', async () => {
+      await service.create(GROUP_ID, dto(), 1);
+
+      expect(getDebt()).toBe(-600n);
+    });
+
+    it('should refuse payments between other members', async () => {
+      await expect(service.create(GROUP_ID, dto(), 3)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(settlements).toEqual([]);
+    });
+
+    it('should reject unsupported currencies', async () => {
+      await expect(
+        service.create(GROUP_ID, dto({ currencyCode: 'XXX' }), 2),
+      ).rejects.toThrow(
+        new BadRequestException('Currency XXX is not supported'),
+      );
+      expect(settlements).toEqual([]);
+    });
+
+    it('should reject payers, or payees outside the group', async () => {
+      await expect(
+        service.create(GROUP_ID, dto({ payeeId: 4 }), 2),
+      ).rejects.toThrow('Payer and payee must be members of the group');
+    });
+
+    it('should reject payments to oneself', async () => {
+      await expect(
+        service.create(GROUP_ID, dto({ payeeId: 2 }), 2),
+      ).rejects.toThrow('Payer and payee must be different users');
+    });
+
+    it('should reject payments beyond the debt', async () => {
+      await expect(
+        service.create(GROUP_ID, dto({ amount: 1001n }), 2),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('reverse', () => {
+    it('should let the payee take back a payment', async () => {
+      const { id } = await service.create(GROUP_ID, dto(), 2);
+
+      const reversed = await service.reverse(GROUP_ID, id, 1);
+
+      expect(reversed.reversedAt).toBeInstanceOf(Date);
+      expect(getDebt()).toBe(-1000n);
+    });
+
+    it('should refuse to let other members reverse a payment', async () => {
+      const { id } = await service.create(GROUP_ID, dto(), 2);
+
+      await expect(service.reverse(GROUP_ID, id, 3)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(getDebt()).toBe(-600n);
+    });
+
+    it('should refuse to reverse a payment twice', async () => {
+      const { id } = await service.create(GROUP_ID, dto(), 2);
+      await service.reverse(GROUP_ID, id, 2);
+
+      await expect(service.reverse(GROUP_ID, id, 2)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+});
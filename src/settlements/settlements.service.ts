@@ -0,0 +1,167 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Settlement } from '@prisma/client';
+import { ActivityService } from '../activity/activity.service';
+import { GroupEventsService } from '../events/group-events.service';
+import { applyLedgerOperation } from '../ledger/apply-ledger-operation';
+import { LedgerRepository } from '../ledger/ledger.repository';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateSettlementDto } from './dto/create-settlement.dto';
+
+@Injectable()
+export class SettlementsService {
+  constructor(
+    private prisma: PrismaService,
+    private ledgerRepository: LedgerRepository,
+    private activityService: ActivityService,
+    private groupEventsService: GroupEventsService,
+  ) {}
+
+  async create(groupId: number, dto: CreateSettlementDto, actorId: number) {
+    const amount = dto.amount;
+    if (amount <= 0n) {
+      throw new BadRequestException('Settlement amount must be positive');
+    }
+    if (dto.payerId === dto.payeeId) {
+      throw new BadRequestException('Payer and payee must be different users');
+    }
+    this.assertParty(dto, actorId);
+
+    const members = await this.prisma.groupMember.count({
+      where: { groupId, userId: { in: [dto.payerId, dto.payeeId] } },
+    });
+    if (members !== 2) {
+      throw new BadRequestException(
+        'Payer and payee must be members of the group',
+      );
+    }
+
+    const currency = await this.prisma.currency.findUnique({
+      where: { code: dto.currencyCode },
+    });
+    if (!currency) {
+      throw new BadRequestException(
+        `Currency ${dto.currencyCode} is not supported`,
+      );
+    }
+
+    const created = await this.ledgerRepository.update(
+      groupId,
+      async (ledger, tx) => {
+        const settlement = await tx.settlement.create({
+          data: {
+            groupId,
+            payerId: dto.payerId,
+            payeeId: dto.payeeId,
+            currencyCode: dto.currencyCode,
+            amount,
+          },
+        });
+
+        applyLedgerOperation(() =>
+          ledger.simplifier.settle(
+            String(settlement.payeeId),
+            String(settlement.payerId),
+            settlement.amount,
+            settlement.id,
+            settlement.currencyCode,
+          ),
+        );
+        await this.activityService.record(
+          {
+            groupId,
+            actorId,
+            action: 'settlement.created',
+            targetType: 'settlement',
+            targetId: settlement.id,
+            after: this.toSettlementActivity(settlement),
+          },
+          tx,
+        );
+
+        return settlement;
+      },
+    );
+
+    this.groupEventsService.emit(groupId, 'settlement.created', created);
+    return created;
+  }
+
+  findAll(groupId: number) {
+    return this.prisma.settlement.findMany({
+      where: { groupId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async reverse(groupId: number, settlementId: number, actorId: number) {
+    const settlement = await this.prisma.settlement.findFirst({
+      where: { id: settlementId, groupId },
+    });
+    if (!settlement) {
+      throw new NotFoundException(`Settlement ${settlementId} not found`);
+    }
+    this.assertParty(settlement, actorId);
+    if (settlement.reversedAt) {
+      throw new ConflictException(
+        `Settlement ${settlementId} has already been reversed`,
+      );
+    }
+
+    const reversed = await this.ledgerRepository.update(
+      groupId,
+      async (ledger, tx) => {
+        applyLedgerOperation(() => ledger.simplifier.unsettle(settlementId));
+
+        const updated = await tx.settlement.update({
+          where: { id: settlementId },
+          data: { reversedAt: new Date() },
+        });
+        await this.activityService.record(
+          {
+            groupId,
+            actorId,
+            action: 'settlement.reversed',
+            targetType: 'settlement',
+            targetId: settlementId,
+            before: this.toSettlementActivity(settlement),
+          },
+          tx,
+        );
+
+        return updated;
+      },
+    );
+
+    this.groupEventsService.emit(groupId, 'settlement.reversed', reversed);
+    return reversed;
+  }
+
+  /**
+   * Only the payer, and the payee know whether the money changed hands.
+   */
+  private assertParty(
+    { payerId, payeeId }: Pick<Settlement, 'payerId' | 'payeeId'>,
+    actorId: number,
+  ) {
+    if (actorId !== payerId && actorId !== payeeId) {
+      throw new ForbiddenException(
+        'Settlements can only be recorded, or reversed by the payer, or the payee',
+      );
+    }
+  }
+
+  private toSettlementActivity(settlement: Settlement) {
+    return {
+      payerId: settlement.payerId,
+      payeeId: settlement.payeeId,
+      amount: settlement.amount,
+      currencyCode: settlement.currencyCode,
+    };
+  }
+}
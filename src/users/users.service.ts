@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+
+@Injectable()
+export class UsersService {
+  constructor(private prisma: PrismaService) {}
+
+  findById(id: number) {
+    return this.prisma.user.findUnique({ where: { id } });
+  }
+
+  /**
+   * Finds the user signing in by the verified email, or signs them up.
+   */
+  async upsertByEmail(email: string, name?: string) {
+    const normalizedEmail = email.toLowerCase();
+
+    const existing = await this.prisma.user.findUnique({
+      where: { email: normalizedEmail },
+    });
+    if (existing) {
+      const user = await this.prisma.user.update({
+        where: { id: existing.id },
+        data: { active: true },
+      });
+      return { user, created: false };
+    }
+
+    const user = await this.prisma.user.create({
+      data: {
+        email: normalizedEmail,
+        name: name || normalizedEmail.split('@')[0],
+      },
+    });
+    return { user, created: true };
+  }
+}
@@ -5,7 +5,7 @@ export function nestedMapReplacer(key, value) {
       value: Array.from(value.entries()),
     };
   } else {
-    return value;
+    return bigIntReplacer(key, value);
   }
 }
 export function nestedMapReviver(key, value) {
@@ -16,3 +16,9 @@ export function nestedMapReviver(key, value) {
   }
   return value;
 }
+export function bigIntReplacer(key, value) {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  return value;
+}